@@ -1,5 +1,11 @@
 // NoiseChannel.ts
 // Noise channel (channel 4) implementation with envelope, length, and LFSR-based noise generation
+import { StateReader, StateWriter } from '../state/state-buffer';
+
+// Register addresses (NR41-NR44)
+const FIRST_REGISTER = 0xFF20;
+const LAST_REGISTER = 0xFF23;
+
 export class NoiseChannel {
   private registers: Record<number, number> = {};
   private enabled = false;
@@ -52,6 +58,32 @@ export class NoiseChannel {
     this.stepLength();
   }
 
+  saveState(writer: StateWriter) {
+    writer.section('NOIS', () => {
+      for (let address = FIRST_REGISTER; address <= LAST_REGISTER; address++) {
+        writer.u8(this.registers[address] ?? 0);
+      }
+      writer.bool(this.enabled);
+      writer.u16(this.lengthCounter);
+      writer.u8(this.envelopeVolume);
+      writer.u8(this.envelopeTimer);
+      writer.u16(this.lfsr);
+    });
+  }
+
+  loadState(reader: StateReader) {
+    reader.section('NOIS', () => {
+      for (let address = FIRST_REGISTER; address <= LAST_REGISTER; address++) {
+        this.registers[address] = reader.u8();
+      }
+      this.enabled = reader.bool();
+      this.lengthCounter = reader.u16();
+      this.envelopeVolume = reader.u8();
+      this.envelopeTimer = reader.u8();
+      this.lfsr = reader.u16();
+    });
+  }
+
   sample(phase: number, sampleRate: number): number {
     if (!this.enabled) return 0;
     // NR43: Noise frequency
@@ -2,6 +2,7 @@ import { SquareWaveChannel } from './square-wave-channel';
 import { SquareWaveChannel2 } from './square-wave-channel2';
 import { WaveChannel } from './wave-channel';
 import { NoiseChannel } from './noise-channel';
+import { StateReader, StateWriter } from '../state/state-buffer';
 
 export class SoundChip {
   channel1: SquareWaveChannel;
@@ -60,6 +61,40 @@ export class SoundChip {
     return 0;
   }
 
+  saveState(writer: StateWriter) {
+    writer.section('APU ', () => {
+      for (let address = 0xFF24; address <= 0xFF26; address++) {
+        writer.u8(this.globalRegisters[address] ?? 0);
+      }
+      writer.u32(this.frameSeqCounter);
+      for (const phase of this.channelPhases) {
+        writer.f64(phase);
+      }
+      writer.f64(this.prevFilteredSample);
+    });
+    this.channel1.saveState(writer);
+    this.channel2.saveState(writer);
+    this.channel3.saveState(writer);
+    this.channel4.saveState(writer);
+  }
+
+  loadState(reader: StateReader) {
+    reader.section('APU ', () => {
+      for (let address = 0xFF24; address <= 0xFF26; address++) {
+        this.globalRegisters[address] = reader.u8();
+      }
+      this.frameSeqCounter = reader.u32();
+      for (let i = 0; i < this.channelPhases.length; i++) {
+        this.channelPhases[i] = reader.f64();
+      }
+      this.prevFilteredSample = reader.f64();
+    });
+    this.channel1.loadState(reader);
+    this.channel2.loadState(reader);
+    this.channel3.loadState(reader);
+    this.channel4.loadState(reader);
+  }
+
   startAudio() {
     if (this.audioCtx) return;
     this.audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: this.sampleRate });
@@ -1,5 +1,6 @@
 // SquareWaveChannel.ts
 // Square wave channel with sweep and envelope
+import { StateReader, StateWriter } from '../state/state-buffer';
 
 // Duty patterns: 12.5%, 25%, 50%, 75% (moved outside for efficiency)
 const dutyTable = [0.125, 0.25, 0.5, 0.75];
@@ -105,6 +106,30 @@ export class SquareWaveChannel {
     this.stepLength();
   }
 
+  saveState(writer: StateWriter) {
+    writer.section('SQ1 ', () => {
+      writer.bytes(this.registers);
+      writer.bool(this.enabled);
+      writer.u16(this.lengthCounter);
+      writer.u8(this.envelopeVolume);
+      writer.u8(this.envelopeTimer);
+      writer.u8(this.sweepTimer);
+      writer.u16(this.sweepShadowFreq);
+    });
+  }
+
+  loadState(reader: StateReader) {
+    reader.section('SQ1 ', () => {
+      reader.bytesInto(this.registers);
+      this.enabled = reader.bool();
+      this.lengthCounter = reader.u16();
+      this.envelopeVolume = reader.u8();
+      this.envelopeTimer = reader.u8();
+      this.sweepTimer = reader.u8();
+      this.sweepShadowFreq = reader.u16();
+    });
+  }
+
   // Square wave sample generator using register values (all O(1) array access)
   sample(phase: number, sampleRate: number): number {
     if (!this.enabled) return 0;
@@ -1,5 +1,11 @@
 // SquareWaveChannel2.ts
 // Minimal stub for channel 2 (square wave with envelope)
+import { StateReader, StateWriter } from '../state/state-buffer';
+
+// Register addresses (NR21-NR24)
+const FIRST_REGISTER = 0xFF16;
+const LAST_REGISTER = 0xFF19;
+
 export class SquareWaveChannel2 {
   private registers: Record<number, number> = {};
   private enabled = false;
@@ -52,6 +58,30 @@ export class SquareWaveChannel2 {
     this.stepLength();
   }
 
+  saveState(writer: StateWriter) {
+    writer.section('SQ2 ', () => {
+      for (let address = FIRST_REGISTER; address <= LAST_REGISTER; address++) {
+        writer.u8(this.registers[address] ?? 0);
+      }
+      writer.bool(this.enabled);
+      writer.u16(this.lengthCounter);
+      writer.u8(this.envelopeVolume);
+      writer.u8(this.envelopeTimer);
+    });
+  }
+
+  loadState(reader: StateReader) {
+    reader.section('SQ2 ', () => {
+      for (let address = FIRST_REGISTER; address <= LAST_REGISTER; address++) {
+        this.registers[address] = reader.u8();
+      }
+      this.enabled = reader.bool();
+      this.lengthCounter = reader.u16();
+      this.envelopeVolume = reader.u8();
+      this.envelopeTimer = reader.u8();
+    });
+  }
+
   sample(phase: number, sampleRate: number): number {
     if (!this.enabled) return 0;
     // NR17 (0xFF17): Envelope (volume)
@@ -1,5 +1,13 @@
 // WaveChannel.ts
 // Channel 3 (programmable waveform) implementation
+import { StateReader, StateWriter } from '../state/state-buffer';
+
+// Register addresses (NR30-NR34) and wave RAM
+const FIRST_REGISTER = 0xFF1A;
+const LAST_REGISTER = 0xFF1E;
+const WAVE_RAM_START = 0xFF30;
+const WAVE_RAM_END = 0xFF3F;
+
 export class WaveChannel {
   private registers: Record<number, number> = {};
   private enabled = false;
@@ -46,6 +54,36 @@ export class WaveChannel {
     this.stepLength();
   }
 
+  saveState(writer: StateWriter) {
+    writer.section('WAVE', () => {
+      for (let address = FIRST_REGISTER; address <= LAST_REGISTER; address++) {
+        writer.u8(this.registers[address] ?? 0);
+      }
+      for (let address = WAVE_RAM_START; address <= WAVE_RAM_END; address++) {
+        writer.u8(this.registers[address] ?? 0);
+      }
+      writer.bool(this.enabled);
+      writer.u16(this.lengthCounter);
+      writer.u8(this.volumeShift);
+      writer.bytes(this.waveTable);
+    });
+  }
+
+  loadState(reader: StateReader) {
+    reader.section('WAVE', () => {
+      for (let address = FIRST_REGISTER; address <= LAST_REGISTER; address++) {
+        this.registers[address] = reader.u8();
+      }
+      for (let address = WAVE_RAM_START; address <= WAVE_RAM_END; address++) {
+        this.registers[address] = reader.u8();
+      }
+      this.enabled = reader.bool();
+      this.lengthCounter = reader.u16();
+      this.volumeShift = reader.u8();
+      reader.bytesInto(this.waveTable);
+    });
+  }
+
   sample(phase: number, sampleRate: number): number {
     if (!this.enabled) return 0;
     // NR33/NR34: Frequency
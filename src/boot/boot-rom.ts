@@ -0,0 +1,28 @@
+import { HARDWARE_MODELS, HardwareModel, isColorModel } from './hardware-model';
+
+/**
+ * Error thrown when a boot ROM image has the wrong size for any Game Boy model
+ */
+export class BootRomError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BootRomError';
+  }
+}
+
+/** Size of the monochrome models' boot ROMs (DMG0, DMG, MGB, SGB, SGB2), mapped over 0x0000-0x00FF */
+export const DMG_BOOT_ROM_SIZE = 0x100;
+
+/** Size of the CGB and GBA boot ROMs, mapped over 0x0000-0x00FF and 0x0200-0x08FF */
+export const CGB_BOOT_ROM_SIZE = 0x900;
+
+/**
+ * Check that an image has the size of the given model's boot ROM
+ * @throws BootRomError if it doesn't
+ */
+export function validateBootRom(model: HardwareModel, data: Uint8Array): void {
+  const size = isColorModel(model) ? CGB_BOOT_ROM_SIZE : DMG_BOOT_ROM_SIZE;
+  if (data.length !== size) {
+    throw new BootRomError(`${HARDWARE_MODELS[model].name} boot ROM must be ${size} bytes, got ${data.length}`);
+  }
+}
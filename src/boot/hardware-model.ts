@@ -0,0 +1,41 @@
+import { Cartridge } from '../cartridge/cartridge';
+
+/**
+ * Game Boy models: the original DMG with its early boot ROM (DMG0), the DMG, the
+ * Game Boy Pocket (MGB), Super Game Boy 1 and 2, Game Boy Color and Game Boy Advance
+ */
+export type HardwareModel = 'DMG0' | 'DMG' | 'MGB' | 'SGB' | 'SGB2' | 'CGB' | 'AGB';
+
+/** A model to emulate, or 'auto' to pick one from the cartridge header */
+export type ModelSelection = HardwareModel | 'auto';
+
+export const HARDWARE_MODELS: Record<HardwareModel, { name: string }> = {
+  DMG0: { name: 'Game Boy (early boot ROM)' },
+  DMG: { name: 'Game Boy' },
+  MGB: { name: 'Game Boy Pocket' },
+  SGB: { name: 'Super Game Boy' },
+  SGB2: { name: 'Super Game Boy 2' },
+  CGB: { name: 'Game Boy Color' },
+  AGB: { name: 'Game Boy Advance' },
+};
+
+/** The model has the CGB's color hardware (the GBA includes a CGB) */
+export function isColorModel(model: HardwareModel): boolean {
+  return model === 'CGB' || model === 'AGB';
+}
+
+/** The model is a Super Game Boy, with a border and command packets */
+export function isSuperGameBoy(model: HardwareModel): boolean {
+  return model === 'SGB' || model === 'SGB2';
+}
+
+/**
+ * Pick the model a cartridge shows off best on: a CGB for color games,
+ * an SGB for SGB games, and a DMG for everything else
+ */
+export function selectModel(cartridge: Cartridge): HardwareModel {
+  if (cartridge.supportsCgb) {
+    return 'CGB';
+  }
+  return cartridge.supportsSgb ? 'SGB' : 'DMG';
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { postBootDivider, postBootIoRegisters, postBootRegisters } from './post-boot';
+import { HardwareModel } from './hardware-model';
+import { CartridgeHeader, parseCartridgeHeader } from '../cartridge/cartridge';
+import { createTestRom } from '../memory/test-roms';
+
+/**
+ * Parse a header with the given title, old licensee code and CGB flag
+ */
+function header(title = '', licensee = 0x00, cgbFlag = 0x00): CartridgeHeader {
+  return parseCartridgeHeader(createTestRom({ 0x0134: title, 0x0143: cgbFlag, 0x014B: licensee }));
+}
+
+describe('post-boot state', () => {
+  it('should tell the models apart by A', () => {
+    const a = (model: HardwareModel) => postBootRegisters(model, header('', 0x00, 0x80)).AF >> 8;
+    expect(a('DMG0')).toBe(0x01);
+    expect(a('DMG')).toBe(0x01);
+    expect(a('MGB')).toBe(0xFF);
+    expect(a('SGB')).toBe(0x01);
+    expect(a('SGB2')).toBe(0xFF);
+    expect(a('CGB')).toBe(0x11);
+    expect(a('AGB')).toBe(0x11);
+  });
+
+  it('should set B to 1 on a GBA so games can tell it from a CGB', () => {
+    const registers = postBootRegisters('AGB', header('', 0x00, 0x80));
+    expect(registers.BC).toBe(0x0100);
+    expect(registers.AF).toBe(0x1100);
+  });
+
+  it('should leave the title checksum in B for Nintendo DMG games on a CGB', () => {
+    const registers = postBootRegisters('CGB', header('POKEMON RED', 0x01));
+    expect(registers.AF).toBe(0x1180);
+    expect(registers.BC).toBe(0x1400);
+    expect(registers.DE).toBe(0x0008);
+    expect(registers.HL).toBe(0x007C);
+
+    expect(postBootRegisters('CGB', header('POKEMON RED', 0x08)).BC).toBe(0x0000);
+    expect(postBootRegisters('CGB', header('C', 0x01)).HL).toBe(0x991A);
+  });
+
+  it('should increment B for DMG games on a GBA', () => {
+    const registers = postBootRegisters('AGB', header('POKEMON RED', 0x01));
+    expect(registers.AF).toBe(0x1100);
+    expect(registers.BC).toBe(0x1500);
+  });
+
+  it('should keep the chime channel off on the Super Game Boy', () => {
+    const nr52 = (model: HardwareModel) =>
+      postBootIoRegisters(model).find(([address]) => address === 0xFF26)?.[1];
+    expect(nr52('DMG')).toBe(0xF1);
+    expect(nr52('SGB2')).toBe(0xF0);
+  });
+
+  it('should leave the LCD on with only the background enabled', () => {
+    const models: HardwareModel[] = ['DMG0', 'DMG', 'MGB', 'SGB', 'SGB2', 'CGB', 'AGB'];
+    for (const model of models) {
+      expect(postBootIoRegisters(model).find(([address]) => address === 0xFF40)?.[1]).toBe(0x91);
+    }
+  });
+
+  it('should set the serial clock speed bit on the color models', () => {
+    const sc = (model: HardwareModel) =>
+      postBootIoRegisters(model).find(([address]) => address === 0xFF02)?.[1];
+    expect(sc('DMG')).toBe(0x7E);
+    expect(sc('CGB')).toBe(0x7F);
+    expect(sc('AGB')).toBe(0x7F);
+  });
+
+  it('should leave DIV where the monochrome boot ROMs finish', () => {
+    expect(postBootDivider('DMG0') >> 8).toBe(0x18);
+    expect(postBootDivider('DMG') >> 8).toBe(0xAB);
+    expect(postBootDivider('MGB') >> 8).toBe(0xAB);
+  });
+
+  it('should fall back to the model\'s table without a cartridge', () => {
+    expect(postBootRegisters('DMG').AF).toBe(0x01B0);
+    expect(postBootRegisters('CGB').AF).toBe(0x1180);
+  });
+});
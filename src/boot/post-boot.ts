@@ -0,0 +1,132 @@
+import { CartridgeHeader } from '../cartridge/cartridge';
+import { HardwareModel, isColorModel, isSuperGameBoy } from './hardware-model';
+
+/**
+ * CPU registers as a model's boot ROM leaves them when it jumps to 0x0100
+ */
+export interface PostBootRegisters {
+  AF: number;
+  BC: number;
+  DE: number;
+  HL: number;
+  SP: number;
+}
+
+/**
+ * Registers left by each model's boot ROM. Games read A (and B on a GBA) to tell the models apart.
+ */
+const POST_BOOT_REGISTERS: Record<HardwareModel, PostBootRegisters> = {
+  DMG0: { AF: 0x0100, BC: 0xFF13, DE: 0x00C1, HL: 0x8403, SP: 0xFFFE },
+  DMG: { AF: 0x01B0, BC: 0x0013, DE: 0x00D8, HL: 0x014D, SP: 0xFFFE },
+  MGB: { AF: 0xFFB0, BC: 0x0013, DE: 0x00D8, HL: 0x014D, SP: 0xFFFE },
+  SGB: { AF: 0x0100, BC: 0x0014, DE: 0x0000, HL: 0xC060, SP: 0xFFFE },
+  SGB2: { AF: 0xFF00, BC: 0x0014, DE: 0x0000, HL: 0xC060, SP: 0xFFFE },
+  CGB: { AF: 0x1180, BC: 0x0000, DE: 0xFF56, HL: 0x000D, SP: 0xFFFE },
+  AGB: { AF: 0x1100, BC: 0x0100, DE: 0xFF56, HL: 0x000D, SP: 0xFFFE },
+};
+
+/**
+ * I/O registers as the DMG boot ROM leaves them; postBootIoRegisters adjusts the ones other models differ on
+ */
+const POST_BOOT_IO: ReadonlyArray<readonly [number, number]> = [
+  [0xFF02, 0x7E], // SC (0x7F on the CGB and GBA, which have the clock speed bit)
+  [0xFF05, 0x00], // TIMA
+  [0xFF06, 0x00], // TMA
+  [0xFF07, 0x00], // TAC
+  [0xFF10, 0x80], // NR10
+  [0xFF11, 0xBF], // NR11
+  [0xFF12, 0xF3], // NR12
+  [0xFF14, 0xBF], // NR14
+  [0xFF16, 0x3F], // NR21
+  [0xFF17, 0x00], // NR22
+  [0xFF19, 0xBF], // NR24
+  [0xFF1A, 0x7F], // NR30
+  [0xFF1B, 0xFF], // NR31
+  [0xFF1C, 0x9F], // NR32
+  [0xFF1E, 0xBF], // NR34
+  [0xFF20, 0xFF], // NR41
+  [0xFF21, 0x00], // NR42
+  [0xFF22, 0x00], // NR43
+  [0xFF23, 0xBF], // NR44
+  [0xFF24, 0x77], // NR50
+  [0xFF25, 0xF3], // NR51
+  [0xFF26, 0xF1], // NR52 (0xF0 on the SGB, whose boot ROM plays no chime)
+  [0xFF40, 0x91], // LCD Control: LCD on, BG tile data 0x8000, BG on
+  [0xFF42, 0x00], // SCY
+  [0xFF43, 0x00], // SCX
+  [0xFF45, 0x00], // LYC
+  [0xFF47, 0xFC], // Background palette: 11 11 11 00
+  [0xFF48, 0xFF], // Object palette 0
+  [0xFF49, 0xFF], // Object palette 1
+  [0xFF4A, 0x00], // WY
+  [0xFF4B, 0x00], // WX
+  [0xFFFF, 0x00], // IE
+];
+
+/**
+ * DIV as each model's boot ROM leaves it, as the internal 16-bit counter. The SGB boot ROM waits
+ * on the SNES and the CGB one takes a different path per game, so DIV varies on those and starts at 0.
+ */
+const POST_BOOT_DIVIDER: Record<HardwareModel, number> = {
+  DMG0: 0x1800,
+  DMG: 0xAB00,
+  MGB: 0xAB00,
+  SGB: 0x0000,
+  SGB2: 0x0000,
+  CGB: 0x0000,
+  AGB: 0x0000,
+};
+
+/**
+ * Registers a model's boot ROM leaves for a cartridge, or before any cartridge is loaded.
+ * The DMG and MGB boot ROMs end on the header checksum check, so H and C are only set
+ * when the checksum byte isn't 0. The CGB and GBA boot ROMs leave different values
+ * for monochrome games, depending on the title they looked up for colorization.
+ */
+export function postBootRegisters(model: HardwareModel, header?: CartridgeHeader): PostBootRegisters {
+  const registers = { ...POST_BOOT_REGISTERS[model] };
+  if (!header) {
+    return registers;
+  }
+  if ((model === 'DMG' || model === 'MGB') && header.headerChecksum === 0x00) {
+    registers.AF = (registers.AF & 0xFF00) | 0x80;
+  }
+
+  if (isColorModel(model) && (header.cgbFlag & 0x80) === 0) {
+    // B holds the title checksum for Nintendo games; the GBA boot ROM then increments it
+    const b = header.licenseeCode === '01' ? header.titleChecksum : 0x00;
+    registers.DE = 0x0008;
+    registers.HL = b === 0x43 || b === 0x58 ? 0x991A : 0x007C;
+    if (model === 'CGB') {
+      registers.BC = b << 8;
+    } else {
+      const incremented = (b + 1) & 0xFF;
+      registers.AF = 0x1100 | (incremented === 0 ? 0x80 : 0) | ((incremented & 0x0F) === 0 ? 0x20 : 0);
+      registers.BC = incremented << 8;
+    }
+  }
+  return registers;
+}
+
+/**
+ * I/O register writes that set up the hardware the way a model's boot ROM leaves it
+ */
+export function postBootIoRegisters(model: HardwareModel): Array<readonly [number, number]> {
+  return POST_BOOT_IO.map(([address, value]) => {
+    if (address === 0xFF02 && isColorModel(model)) {
+      return [address, 0x7F] as const;
+    }
+    if (address === 0xFF26 && isSuperGameBoy(model)) {
+      return [address, 0xF0] as const;
+    }
+    return [address, value] as const;
+  });
+}
+
+/**
+ * DIV's internal counter as a model's boot ROM leaves it. Writing DIV resets it,
+ * so this can't go through postBootIoRegisters.
+ */
+export function postBootDivider(model: HardwareModel): number {
+  return POST_BOOT_DIVIDER[model];
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Cartridge,
+  CartridgeHeaderError,
+  computeGlobalChecksum,
+  computeHeaderChecksum,
+} from './cartridge';
+import { MBC1 } from './mbc1';
+import { MBC2 } from './mbc2';
+import { MBC3 } from './mbc3';
+import { MBC5 } from './mbc5';
+
+/**
+ * Build a ROM image with the given header bytes and valid checksums
+ */
+function createRom(header: Record<number, number | string>, size = 0x8000): Uint8Array {
+  const rom = new Uint8Array(size);
+  for (const [address, value] of Object.entries(header)) {
+    if (typeof value === 'string') {
+      for (let i = 0; i < value.length; i++) {
+        rom[Number(address) + i] = value.charCodeAt(i);
+      }
+    } else {
+      rom[Number(address)] = value;
+    }
+  }
+  rom[0x014D] = computeHeaderChecksum(rom);
+  const globalChecksum = computeGlobalChecksum(rom);
+  rom[0x014E] = globalChecksum >> 8;
+  rom[0x014F] = globalChecksum & 0xFF;
+  return rom;
+}
+
+describe('Cartridge', () => {
+  describe('header parsing', () => {
+    it('should parse a DMG header', () => {
+      const cartridge = new Cartridge(createRom({
+        0x0134: 'PUZZLE GAME',
+        0x0147: 0x03,
+        0x0148: 0x02,
+        0x0149: 0x03,
+        0x014B: 0x01,
+        0x014C: 0x02,
+      }, 0x20000));
+
+      expect(cartridge.title).toBe('PUZZLE GAME');
+      expect(cartridge.header.manufacturerCode).toBe('');
+      expect(cartridge.header.cartridgeType).toBe(0x03);
+      expect(cartridge.header.romSize).toBe(0x20000);
+      expect(cartridge.header.ramSize).toBe(0x8000);
+      expect(cartridge.header.licenseeCode).toBe('01');
+      expect(cartridge.header.version).toBe(0x02);
+      expect(cartridge.header.titleChecksum).toBe(0x24); // 'PUZZLE GAME'
+      expect(cartridge.hardware).toEqual({
+        name: 'MBC1+RAM+BATTERY',
+        mbc: 'mbc1',
+        ram: true,
+        battery: true,
+        timer: false,
+        rumble: false,
+      });
+      expect(cartridge.supportsCgb).toBe(false);
+      expect(cartridge.supportsSgb).toBe(false);
+    });
+
+    it('should parse a CGB header with manufacturer and new licensee codes', () => {
+      const cartridge = new Cartridge(createRom({
+        0x0134: 'COLORGAME',
+        0x013F: 'ABCE',
+        0x0143: 0xC0,
+        0x0144: '01',
+        0x0146: 0x03,
+        0x0147: 0x1B,
+        0x014B: 0x33,
+      }));
+
+      expect(cartridge.title).toBe('COLORGAME');
+      expect(cartridge.header.manufacturerCode).toBe('ABCE');
+      expect(cartridge.header.licenseeCode).toBe('01');
+      expect(cartridge.supportsCgb).toBe(true);
+      expect(cartridge.isCgbOnly).toBe(true);
+      expect(cartridge.supportsSgb).toBe(true);
+    });
+
+    it('should use 15 title characters when the CGB flag is set without a manufacturer code', () => {
+      const cartridge = new Cartridge(createRom({
+        0x0134: 'FIFTEEN CHARS!!',
+        0x0143: 0x80,
+      }));
+      expect(cartridge.title).toBe('FIFTEEN CHARS!!');
+      expect(cartridge.isCgbOnly).toBe(false);
+    });
+
+    it('should only enable SGB functions with the 0x33 old licensee code', () => {
+      const cartridge = new Cartridge(createRom({ 0x0146: 0x03, 0x014B: 0x01 }));
+      expect(cartridge.supportsSgb).toBe(false);
+    });
+
+    it('should read the big-endian global checksum', () => {
+      const rom = createRom({ 0x0134: 'TEST' });
+      const cartridge = new Cartridge(rom);
+      expect(cartridge.header.globalChecksum).toBe((rom[0x014E] << 8) | rom[0x014F]);
+      expect(cartridge.headerChecksumValid).toBe(true);
+      expect(cartridge.globalChecksumValid).toBe(true);
+
+      rom[0x0200] = 0x12;
+      expect(cartridge.globalChecksumValid).toBe(false);
+    });
+  });
+
+  describe('validation', () => {
+    it('should accept a valid header', () => {
+      expect(() => new Cartridge(createRom({})).validate()).not.toThrow();
+    });
+
+    it('should reject ROMs too small for a header', () => {
+      expect(() => new Cartridge(new Uint8Array(0x100)).validate()).toThrow(CartridgeHeaderError);
+    });
+
+    it('should reject a bad header checksum', () => {
+      const rom = createRom({});
+      rom[0x0134] = 0x41;
+      expect(() => new Cartridge(rom).validate()).toThrow(/Header checksum mismatch/);
+    });
+
+    it('should not reject a bad global checksum', () => {
+      const rom = createRom({});
+      rom[0x014E] ^= 0xFF;
+      expect(() => new Cartridge(rom).validate()).not.toThrow();
+    });
+
+    it('should reject unsupported cartridge types', () => {
+      const cartridge = new Cartridge(createRom({ 0x0147: 0x22 })); // MBC7
+      expect(cartridge.hardware).toBeUndefined();
+      expect(() => cartridge.validate()).toThrow(/Unsupported cartridge type 0x22/);
+    });
+
+    it('should reject invalid ROM size codes', () => {
+      expect(() => new Cartridge(createRom({ 0x0148: 0x52 })).validate()).toThrow(/Invalid ROM size code 0x52/);
+    });
+  });
+
+  describe('memory bank controller', () => {
+    it('should not create a controller for ROM-only carts', () => {
+      expect(new Cartridge(createRom({ 0x0147: 0x00 })).createMemoryBankController()).toBeUndefined();
+    });
+
+    it('should create a controller matching the cartridge type', () => {
+      const createMbc = (type: number) => new Cartridge(createRom({ 0x0147: type })).createMemoryBankController();
+      expect(createMbc(0x01)).toBeInstanceOf(MBC1);
+      expect(createMbc(0x06)).toBeInstanceOf(MBC2);
+      expect(createMbc(0x10)).toBeInstanceOf(MBC3);
+      expect(createMbc(0x1E)).toBeInstanceOf(MBC5);
+    });
+
+    it('should ignore the RAM size code on carts without RAM', () => {
+      const mbc = new Cartridge(createRom({ 0x0147: 0x01, 0x0149: 0x03 })).createMemoryBankController();
+      mbc?.writeRom(0x0000, 0x0A);
+      mbc?.writeRam(0x0000, 0x12);
+      expect(mbc?.readRam(0x0000)).toBe(0xFF);
+    });
+  });
+});
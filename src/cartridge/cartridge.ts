@@ -0,0 +1,296 @@
+import { MemoryBankController, MbcOptions, getRamSize } from './mbc';
+import { MBC1 } from './mbc1';
+import { MBC2 } from './mbc2';
+import { MBC3 } from './mbc3';
+import { MBC5 } from './mbc5';
+
+/**
+ * Error thrown when a ROM header is invalid or describes unsupported hardware
+ */
+export class CartridgeHeaderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CartridgeHeaderError';
+  }
+}
+
+/**
+ * Cartridge hardware described by the cartridge type byte (0x0147)
+ */
+export interface CartridgeHardware {
+  name: string;
+  mbc: 'none' | 'mbc1' | 'mbc2' | 'mbc3' | 'mbc5';
+  ram: boolean;
+  battery: boolean;
+  timer: boolean;
+  rumble: boolean;
+}
+
+/**
+ * Parsed cartridge header (0x0100-0x014F)
+ */
+export interface CartridgeHeader {
+  title: string;             // 0x0134-0x0143 (shorter on newer carts)
+  titleChecksum: number;     // Sum of 0x0134-0x0143, which the CGB boot ROM uses to colorize DMG games
+  manufacturerCode: string;  // 0x013F-0x0142 (newer carts only)
+  cgbFlag: number;           // 0x0143
+  sgbFlag: number;           // 0x0146
+  cartridgeType: number;     // 0x0147
+  romSizeCode: number;       // 0x0148
+  ramSizeCode: number;       // 0x0149
+  romSize: number;           // ROM size in bytes
+  ramSize: number;           // External RAM size in bytes
+  licenseeCode: string;      // New licensee code (0x0144-0x0145) or old code (0x014B) in hex
+  oldLicenseeCode: number;   // 0x014B (0x33 means the new licensee code is used)
+  version: number;           // 0x014C
+  headerChecksum: number;    // 0x014D
+  globalChecksum: number;    // 0x014E-0x014F (big-endian)
+}
+
+// Header locations
+const TITLE_START = 0x0134;
+const TITLE_END = 0x0144;
+const MANUFACTURER_START = 0x013F;
+const CGB_FLAG = 0x0143;
+const NEW_LICENSEE_CODE = 0x0144;
+const SGB_FLAG = 0x0146;
+const CARTRIDGE_TYPE = 0x0147;
+const ROM_SIZE = 0x0148;
+const RAM_SIZE = 0x0149;
+const OLD_LICENSEE_CODE = 0x014B;
+const VERSION = 0x014C;
+const HEADER_CHECKSUM = 0x014D;
+const GLOBAL_CHECKSUM = 0x014E;
+const HEADER_END = 0x0150;
+
+// Cartridge types supported by the emulator
+const CARTRIDGE_TYPES: Record<number, CartridgeHardware> = {
+  0x00: { name: 'ROM ONLY', mbc: 'none', ram: false, battery: false, timer: false, rumble: false },
+  0x01: { name: 'MBC1', mbc: 'mbc1', ram: false, battery: false, timer: false, rumble: false },
+  0x02: { name: 'MBC1+RAM', mbc: 'mbc1', ram: true, battery: false, timer: false, rumble: false },
+  0x03: { name: 'MBC1+RAM+BATTERY', mbc: 'mbc1', ram: true, battery: true, timer: false, rumble: false },
+  0x05: { name: 'MBC2', mbc: 'mbc2', ram: true, battery: false, timer: false, rumble: false },
+  0x06: { name: 'MBC2+BATTERY', mbc: 'mbc2', ram: true, battery: true, timer: false, rumble: false },
+  0x08: { name: 'ROM+RAM', mbc: 'none', ram: true, battery: false, timer: false, rumble: false },
+  0x09: { name: 'ROM+RAM+BATTERY', mbc: 'none', ram: true, battery: true, timer: false, rumble: false },
+  0x0F: { name: 'MBC3+TIMER+BATTERY', mbc: 'mbc3', ram: false, battery: true, timer: true, rumble: false },
+  0x10: { name: 'MBC3+TIMER+RAM+BATTERY', mbc: 'mbc3', ram: true, battery: true, timer: true, rumble: false },
+  0x11: { name: 'MBC3', mbc: 'mbc3', ram: false, battery: false, timer: false, rumble: false },
+  0x12: { name: 'MBC3+RAM', mbc: 'mbc3', ram: true, battery: false, timer: false, rumble: false },
+  0x13: { name: 'MBC3+RAM+BATTERY', mbc: 'mbc3', ram: true, battery: true, timer: false, rumble: false },
+  0x19: { name: 'MBC5', mbc: 'mbc5', ram: false, battery: false, timer: false, rumble: false },
+  0x1A: { name: 'MBC5+RAM', mbc: 'mbc5', ram: true, battery: false, timer: false, rumble: false },
+  0x1B: { name: 'MBC5+RAM+BATTERY', mbc: 'mbc5', ram: true, battery: true, timer: false, rumble: false },
+  0x1C: { name: 'MBC5+RUMBLE', mbc: 'mbc5', ram: false, battery: false, timer: false, rumble: true },
+  0x1D: { name: 'MBC5+RUMBLE+RAM', mbc: 'mbc5', ram: true, battery: false, timer: false, rumble: true },
+  0x1E: { name: 'MBC5+RUMBLE+RAM+BATTERY', mbc: 'mbc5', ram: true, battery: true, timer: false, rumble: true },
+};
+
+/**
+ * Parse the cartridge header. Bytes past the end of a short ROM read as 0x00.
+ */
+export function parseCartridgeHeader(rom: Uint8Array): CartridgeHeader {
+  const byte = (address: number): number => rom[address] ?? 0x00;
+
+  const cgbFlag = byte(CGB_FLAG);
+  const manufacturerCode = readManufacturerCode(rom);
+
+  // Newer carts shrink the title to make room for the manufacturer code and CGB flag
+  let titleEnd = TITLE_END;
+  if (manufacturerCode) {
+    titleEnd = MANUFACTURER_START;
+  } else if (cgbFlag & 0x80) {
+    titleEnd = CGB_FLAG;
+  }
+
+  const oldLicenseeCode = byte(OLD_LICENSEE_CODE);
+  const licenseeCode = oldLicenseeCode === 0x33
+    ? String.fromCharCode(byte(NEW_LICENSEE_CODE), byte(NEW_LICENSEE_CODE + 1))
+    : oldLicenseeCode.toString(16).toUpperCase().padStart(2, '0');
+
+  const romSizeCode = byte(ROM_SIZE);
+  const ramSizeCode = byte(RAM_SIZE);
+
+  return {
+    title: readAscii(rom, TITLE_START, titleEnd),
+    titleChecksum: computeTitleChecksum(rom),
+    manufacturerCode,
+    cgbFlag,
+    sgbFlag: byte(SGB_FLAG),
+    cartridgeType: byte(CARTRIDGE_TYPE),
+    romSizeCode,
+    ramSizeCode,
+    romSize: romSizeCode <= 0x08 ? 0x8000 << romSizeCode : 0,
+    ramSize: getRamSize(ramSizeCode),
+    licenseeCode,
+    oldLicenseeCode,
+    version: byte(VERSION),
+    headerChecksum: byte(HEADER_CHECKSUM),
+    globalChecksum: (byte(GLOBAL_CHECKSUM) << 8) | byte(GLOBAL_CHECKSUM + 1),
+  };
+}
+
+/**
+ * Read a NUL-terminated ASCII string from the header
+ */
+function readAscii(rom: Uint8Array, start: number, end: number): string {
+  let result = '';
+  for (let address = start; address < end; address++) {
+    const char = rom[address] ?? 0x00;
+    if (char === 0x00) {
+      break;
+    }
+    result += String.fromCharCode(char);
+  }
+  return result;
+}
+
+/**
+ * Read the 4-character manufacturer code, present only when the bytes are
+ * uppercase letters/digits and followed by a CGB flag
+ */
+function readManufacturerCode(rom: Uint8Array): string {
+  if (((rom[CGB_FLAG] ?? 0x00) & 0x80) === 0) {
+    return '';
+  }
+  let code = '';
+  for (let address = MANUFACTURER_START; address < CGB_FLAG; address++) {
+    const char = rom[address] ?? 0x00;
+    const isUpper = char >= 0x41 && char <= 0x5A;
+    const isDigit = char >= 0x30 && char <= 0x39;
+    if (!isUpper && !isDigit) {
+      return '';
+    }
+    code += String.fromCharCode(char);
+  }
+  return code;
+}
+
+/**
+ * Sum the 16 title bytes (0x0134-0x0143, whatever the title length)
+ */
+function computeTitleChecksum(rom: Uint8Array): number {
+  let checksum = 0;
+  for (let address = TITLE_START; address < TITLE_END; address++) {
+    checksum = (checksum + (rom[address] ?? 0x00)) & 0xFF;
+  }
+  return checksum;
+}
+
+/**
+ * Compute the header checksum over 0x0134-0x014C, as verified by the boot ROM
+ */
+export function computeHeaderChecksum(rom: Uint8Array): number {
+  let checksum = 0;
+  for (let address = TITLE_START; address < HEADER_CHECKSUM; address++) {
+    checksum = (checksum - (rom[address] ?? 0x00) - 1) & 0xFF;
+  }
+  return checksum;
+}
+
+/**
+ * Compute the global checksum: the sum of every ROM byte except the checksum itself
+ */
+export function computeGlobalChecksum(rom: Uint8Array): number {
+  let checksum = 0;
+  for (let address = 0; address < rom.length; address++) {
+    if (address !== GLOBAL_CHECKSUM && address !== GLOBAL_CHECKSUM + 1) {
+      checksum = (checksum + rom[address]) & 0xFFFF;
+    }
+  }
+  return checksum;
+}
+
+/**
+ * Game Boy Cartridge
+ * Wraps the ROM image with its parsed header and builds the matching memory bank controller
+ */
+export class Cartridge {
+  public readonly rom: Uint8Array;
+  public readonly header: CartridgeHeader;
+  public readonly hardware?: CartridgeHardware; // undefined for unsupported cartridge types
+
+  constructor(romData: Uint8Array) {
+    this.rom = romData;
+    this.header = parseCartridgeHeader(romData);
+    this.hardware = CARTRIDGE_TYPES[this.header.cartridgeType];
+  }
+
+  get title(): string {
+    return this.header.title;
+  }
+
+  /** Cart supports CGB enhancements (0x80) or requires a CGB (0xC0) */
+  get supportsCgb(): boolean {
+    return (this.header.cgbFlag & 0x80) !== 0;
+  }
+
+  get isCgbOnly(): boolean {
+    return this.header.cgbFlag === 0xC0;
+  }
+
+  /** SGB functions require both the SGB flag and the old licensee code 0x33 */
+  get supportsSgb(): boolean {
+    return this.header.sgbFlag === 0x03 && this.header.oldLicenseeCode === 0x33;
+  }
+
+  get headerChecksumValid(): boolean {
+    return computeHeaderChecksum(this.rom) === this.header.headerChecksum;
+  }
+
+  /** Not verified by real hardware, so a mismatch is reported but never rejected */
+  get globalChecksumValid(): boolean {
+    return computeGlobalChecksum(this.rom) === this.header.globalChecksum;
+  }
+
+  /**
+   * Check that the header describes a bootable cartridge the emulator supports
+   * @throws CartridgeHeaderError
+   */
+  validate(): void {
+    if (this.rom.length < HEADER_END) {
+      throw new CartridgeHeaderError(`ROM is too small to contain a cartridge header (${this.rom.length} bytes)`);
+    }
+    if (!this.headerChecksumValid) {
+      const expected = computeHeaderChecksum(this.rom);
+      throw new CartridgeHeaderError(
+        `Header checksum mismatch: expected 0x${hex(expected)}, found 0x${hex(this.header.headerChecksum)}`
+      );
+    }
+    if (!this.hardware) {
+      throw new CartridgeHeaderError(`Unsupported cartridge type 0x${hex(this.header.cartridgeType)}`);
+    }
+    if (this.header.romSize === 0) {
+      throw new CartridgeHeaderError(`Invalid ROM size code 0x${hex(this.header.romSizeCode)}`);
+    }
+  }
+
+  /**
+   * Create the memory bank controller for this cartridge.
+   * Returns undefined for ROM-only carts, which use the flat 32KB ROM path.
+   */
+  createMemoryBankController(options: MbcOptions = {}): MemoryBankController | undefined {
+    const hardware = this.hardware;
+    if (!hardware) {
+      return undefined;
+    }
+
+    const ramSize = hardware.ram ? this.header.ramSize : 0;
+    switch (hardware.mbc) {
+      case 'mbc1':
+        return new MBC1(this.rom, ramSize);
+      case 'mbc2':
+        return new MBC2(this.rom);
+      case 'mbc3':
+        return new MBC3(this.rom, ramSize, hardware.timer ? (options.clock ?? (() => Date.now())) : undefined);
+      case 'mbc5':
+        return new MBC5(this.rom, ramSize, hardware.rumble ? (options.onRumble ?? (() => {})) : undefined);
+      default:
+        return undefined;
+    }
+  }
+}
+
+function hex(value: number): string {
+  return value.toString(16).toUpperCase().padStart(2, '0');
+}
@@ -0,0 +1,74 @@
+import { StateSerializable } from '../state/state-buffer';
+
+/**
+ * Memory Bank Controller
+ * Cartridge hardware that maps switchable ROM/RAM banks into the CPU address space
+ *
+ * 0x0000-0x7FFF: ROM reads, register writes
+ * 0xA000-0xBFFF: External (cartridge) RAM
+ *
+ * Bank registers and RAM are captured in save states via saveState/loadState.
+ */
+export interface MemoryBankController extends StateSerializable {
+  /** Read from the ROM region (0x0000-0x7FFF) */
+  readRom(address: number): number;
+  /** Write to a controller register (0x0000-0x7FFF) */
+  writeRom(address: number, value: number): void;
+  /** Read from external RAM (offset 0x0000-0x1FFF from 0xA000) */
+  readRam(offset: number): number;
+  /** Write to external RAM (offset 0x0000-0x1FFF from 0xA000) */
+  writeRam(offset: number, value: number): void;
+
+  /** Set when battery-backed state changes; cleared by whoever persists it */
+  saveDirty: boolean;
+  /** Battery-backed state in .sav layout (cartridge RAM, then any RTC footer) */
+  exportSaveData(): Uint8Array;
+  /** Restore battery-backed state from a .sav image */
+  importSaveData(data: Uint8Array): void;
+}
+
+/**
+ * Clock source for cartridge real-time clocks, in milliseconds
+ */
+export type RtcClock = () => number;
+
+/**
+ * Options passed to memory bank controllers when a cartridge is loaded
+ */
+export interface MbcOptions {
+  /** Time source for MBC3 RTC carts (defaults to the wall clock) */
+  clock?: RtcClock;
+  /** Called when an MBC5 rumble cart switches its motor on or off */
+  onRumble?: (active: boolean) => void;
+}
+
+// RAM size codes (header 0x0149) to byte counts
+const RAM_SIZES: Record<number, number> = {
+  0x00: 0,
+  0x01: 0x800,   // 2KB (unofficial)
+  0x02: 0x2000,  // 8KB
+  0x03: 0x8000,  // 32KB (4 banks)
+  0x04: 0x20000, // 128KB (16 banks)
+  0x05: 0x10000, // 64KB (8 banks)
+};
+
+/**
+ * Get the external RAM size in bytes for a header RAM size code
+ */
+export function getRamSize(code: number): number {
+  return RAM_SIZES[code] ?? 0;
+}
+
+/**
+ * Copy ROM data into a buffer padded to a power-of-two number of 16KB banks
+ * so bank numbers can be wrapped with a simple mask (unused space reads 0xFF)
+ */
+export function padRomBanks(romData: Uint8Array): Uint8Array {
+  let bankCount = 2;
+  while (bankCount * 0x4000 < romData.length) {
+    bankCount *= 2;
+  }
+  const rom = new Uint8Array(bankCount * 0x4000).fill(0xFF);
+  rom.set(romData);
+  return rom;
+}
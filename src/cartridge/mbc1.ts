@@ -0,0 +1,143 @@
+import { MemoryBankController, padRomBanks } from './mbc';
+import { StateReader, StateWriter } from '../state/state-buffer';
+
+// Offset of the Nintendo logo in the cartridge header
+const LOGO_OFFSET = 0x0104;
+const LOGO_LENGTH = 48;
+
+/**
+ * MBC1 Memory Bank Controller
+ * Supports up to 2MB ROM (125 usable banks) and 32KB RAM (4 banks)
+ *
+ * Registers:
+ * 0x0000-0x1FFF: RAM enable (0x0A in lower nibble enables)
+ * 0x2000-0x3FFF: ROM bank number, lower 5 bits (BANK1, 0 is treated as 1)
+ * 0x4000-0x5FFF: RAM bank number / upper ROM bank bits (BANK2, 2 bits)
+ * 0x6000-0x7FFF: Banking mode select (0 = simple, 1 = advanced)
+ */
+export class MBC1 implements MemoryBankController {
+  private rom: Uint8Array;
+  private ram: Uint8Array;
+  private romBankMask: number;
+
+  // MBC1M multicarts wire BANK2 to ROM bits 4-5 instead of 5-6
+  private bank1Bits: number;
+
+  // Controller registers
+  private ramEnabled = false;
+  private bank1 = 0x01;
+  private bank2 = 0x00;
+  private bankingMode = 0;
+
+  // Battery-backed RAM changed since it was last persisted
+  public saveDirty = false;
+
+  constructor(romData: Uint8Array, ramSize: number) {
+    this.rom = padRomBanks(romData);
+    this.ram = new Uint8Array(ramSize);
+    this.romBankMask = (this.rom.length / 0x4000) - 1;
+    this.bank1Bits = MBC1.isMulticart(this.rom) ? 4 : 5;
+  }
+
+  /**
+   * Detect an MBC1M multicart: a 1MB ROM with a second Nintendo logo
+   * in the header of bank 0x10 (the first bank of the second game)
+   */
+  static isMulticart(rom: Uint8Array): boolean {
+    if (rom.length !== 0x100000) {
+      return false;
+    }
+    const secondHeader = 0x10 * 0x4000 + LOGO_OFFSET;
+    for (let i = 0; i < LOGO_LENGTH; i++) {
+      if (rom[secondHeader + i] !== rom[LOGO_OFFSET + i]) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  readRom(address: number): number {
+    if (address < 0x4000) {
+      // Bank 0 area - in advanced mode BANK2 also applies here (banks 0x20/0x40/0x60)
+      const bank = this.bankingMode === 1 ? (this.bank2 << this.bank1Bits) & this.romBankMask : 0;
+      return this.rom[(bank * 0x4000) + address];
+    }
+
+    // Switchable bank area (0x4000-0x7FFF)
+    const bank1Mask = (1 << this.bank1Bits) - 1;
+    const bank = ((this.bank2 << this.bank1Bits) | (this.bank1 & bank1Mask)) & this.romBankMask;
+    return this.rom[(bank * 0x4000) + (address - 0x4000)];
+  }
+
+  writeRom(address: number, value: number): void {
+    if (address < 0x2000) {
+      // RAM enable
+      this.ramEnabled = (value & 0x0F) === 0x0A;
+    } else if (address < 0x4000) {
+      // BANK1 - the zero check happens on the full 5-bit value, so 0x20/0x40/0x60
+      // can never be selected in the switchable area (they become 0x21/0x41/0x61)
+      this.bank1 = value & 0x1F;
+      if (this.bank1 === 0) {
+        this.bank1 = 1;
+      }
+    } else if (address < 0x6000) {
+      // BANK2
+      this.bank2 = value & 0x03;
+    } else {
+      // Banking mode select
+      this.bankingMode = value & 0x01;
+    }
+  }
+
+  readRam(offset: number): number {
+    if (!this.ramEnabled || this.ram.length === 0) {
+      return 0xFF;
+    }
+    return this.ram[this.ramAddress(offset)];
+  }
+
+  writeRam(offset: number, value: number): void {
+    if (!this.ramEnabled || this.ram.length === 0) {
+      return;
+    }
+    this.ram[this.ramAddress(offset)] = value;
+    this.saveDirty = true;
+  }
+
+  exportSaveData(): Uint8Array {
+    return this.ram.slice();
+  }
+
+  importSaveData(data: Uint8Array): void {
+    this.ram.set(data.subarray(0, this.ram.length));
+    this.saveDirty = false;
+  }
+
+  saveState(writer: StateWriter): void {
+    writer.section('MBC1', () => {
+      writer.bool(this.ramEnabled);
+      writer.u8(this.bank1);
+      writer.u8(this.bank2);
+      writer.u8(this.bankingMode);
+      writer.bytes(this.ram);
+    });
+  }
+
+  loadState(reader: StateReader): void {
+    reader.section('MBC1', () => {
+      this.ramEnabled = reader.bool();
+      this.bank1 = reader.u8();
+      this.bank2 = reader.u8();
+      this.bankingMode = reader.u8();
+      reader.bytesInto(this.ram);
+    });
+  }
+
+  /**
+   * Translate an external RAM offset to an index into cartridge RAM
+   */
+  private ramAddress(offset: number): number {
+    const bank = this.bankingMode === 1 ? this.bank2 : 0;
+    return ((bank * 0x2000) + offset) & (this.ram.length - 1);
+  }
+}
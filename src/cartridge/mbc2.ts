@@ -0,0 +1,103 @@
+import { MemoryBankController, padRomBanks } from './mbc';
+import { StateReader, StateWriter } from '../state/state-buffer';
+
+// Built-in RAM: 512 half-bytes
+const MBC2_RAM_SIZE = 0x200;
+
+/**
+ * MBC2 Memory Bank Controller
+ * Supports up to 256KB ROM (16 banks) and has 512x4-bit RAM built into the controller
+ *
+ * Registers (0x0000-0x3FFF, selected by address bit 8):
+ * Bit 8 clear: RAM enable (0x0A in lower nibble enables)
+ * Bit 8 set:   ROM bank number (4 bits, 0 is treated as 1)
+ *
+ * RAM only stores the lower nibble of each byte; the upper nibble reads back as 1s.
+ * The 512 bytes are echoed across the whole 0xA000-0xBFFF region.
+ */
+export class MBC2 implements MemoryBankController {
+  private rom: Uint8Array;
+  private ram = new Uint8Array(MBC2_RAM_SIZE);
+  private romBankMask: number;
+
+  // Controller registers
+  private ramEnabled = false;
+  private romBank = 0x01;
+
+  // Battery-backed RAM changed since it was last persisted
+  public saveDirty = false;
+
+  constructor(romData: Uint8Array) {
+    this.rom = padRomBanks(romData);
+    this.romBankMask = (this.rom.length / 0x4000) - 1;
+  }
+
+  readRom(address: number): number {
+    if (address < 0x4000) {
+      return this.rom[address];
+    }
+    const bank = this.romBank & this.romBankMask;
+    return this.rom[(bank * 0x4000) + (address - 0x4000)];
+  }
+
+  writeRom(address: number, value: number): void {
+    if (address >= 0x4000) {
+      // No registers in the upper half of the ROM area
+      return;
+    }
+
+    if ((address & 0x0100) === 0) {
+      // RAM enable
+      this.ramEnabled = (value & 0x0F) === 0x0A;
+    } else {
+      // ROM bank number
+      this.romBank = value & 0x0F;
+      if (this.romBank === 0) {
+        this.romBank = 1;
+      }
+    }
+  }
+
+  readRam(offset: number): number {
+    if (!this.ramEnabled) {
+      return 0xFF;
+    }
+    return this.ram[offset & (MBC2_RAM_SIZE - 1)] | 0xF0;
+  }
+
+  writeRam(offset: number, value: number): void {
+    if (!this.ramEnabled) {
+      return;
+    }
+    this.ram[offset & (MBC2_RAM_SIZE - 1)] = value & 0x0F;
+    this.saveDirty = true;
+  }
+
+  exportSaveData(): Uint8Array {
+    return this.ram.slice();
+  }
+
+  importSaveData(data: Uint8Array): void {
+    const length = Math.min(data.length, MBC2_RAM_SIZE);
+    for (let i = 0; i < length; i++) {
+      this.ram[i] = data[i] & 0x0F;
+    }
+    this.saveDirty = false;
+  }
+
+  saveState(writer: StateWriter): void {
+    writer.section('MBC2', () => {
+      writer.bool(this.ramEnabled);
+      writer.u8(this.romBank);
+      writer.bytes(this.ram);
+    });
+  }
+
+  loadState(reader: StateReader): void {
+    reader.section('MBC2', () => {
+      this.ramEnabled = reader.bool();
+      this.romBank = reader.u8();
+      reader.bytesInto(this.ram);
+    });
+  }
+}
@@ -0,0 +1,335 @@
+import { MemoryBankController, RtcClock, padRomBanks } from './mbc';
+import { StateReader, StateWriter } from '../state/state-buffer';
+
+// RTC register indices (selected by writing 0x08-0x0C to 0x4000-0x5FFF)
+const RTC_S = 0;  // Seconds (0-59)
+const RTC_M = 1;  // Minutes (0-59)
+const RTC_H = 2;  // Hours (0-23)
+const RTC_DL = 3; // Day counter, lower 8 bits
+const RTC_DH = 4; // Bit 0: day counter bit 8, bit 6: halt, bit 7: day carry
+
+// Readable bits of each RTC register
+const RTC_MASKS = [0x3F, 0x3F, 0x1F, 0xFF, 0xC1];
+
+// .sav RTC footer (BGB/VBA-M layout): 5 live + 5 latched 32-bit registers, 64-bit UNIX timestamp
+const RTC_FOOTER_SIZE = 48;
+const RTC_FOOTER_TIMESTAMP = 40;
+
+const DH_DAY_HIGH = 0x01;
+const DH_HALT = 0x40;
+const DH_CARRY = 0x80;
+
+/**
+ * MBC3 Memory Bank Controller
+ * Supports up to 2MB ROM (128 banks), 32KB RAM (4 banks) and an optional real-time clock
+ *
+ * Registers:
+ * 0x0000-0x1FFF: RAM and RTC enable (0x0A in lower nibble enables)
+ * 0x2000-0x3FFF: ROM bank number (7 bits, 0 is treated as 1)
+ * 0x4000-0x5FFF: RAM bank number (0x00-0x03) or RTC register select (0x08-0x0C)
+ * 0x6000-0x7FFF: Latch clock data (write 0x00 then 0x01)
+ */
+export class MBC3 implements MemoryBankController {
+  private rom: Uint8Array;
+  private ram: Uint8Array;
+  private romBankMask: number;
+
+  // Controller registers
+  private ramEnabled = false;
+  private romBank = 0x01;
+  private ramBankOrRtc = 0x00;
+  private lastLatchWrite = 0xFF;
+
+  // Real-time clock (only present on TIMER carts)
+  private clock?: RtcClock;
+  private rtc = new Uint8Array(5);        // Live counter registers
+  private rtcLatched = new Uint8Array(5); // Snapshot visible to the CPU
+  private rtcLastUpdate = 0;              // Clock time of the last counter update (ms)
+  private rtcSubSecond = 0;               // Elapsed milliseconds not yet counted
+
+  // Battery-backed RAM or clock registers changed since they were last persisted
+  public saveDirty = false;
+
+  constructor(romData: Uint8Array, ramSize: number, clock?: RtcClock) {
+    this.rom = padRomBanks(romData);
+    this.ram = new Uint8Array(ramSize);
+    this.romBankMask = (this.rom.length / 0x4000) - 1;
+    this.clock = clock;
+    if (clock) {
+      this.rtcLastUpdate = clock();
+    }
+  }
+
+  get hasRtc(): boolean {
+    return this.clock !== undefined;
+  }
+
+  readRom(address: number): number {
+    if (address < 0x4000) {
+      return this.rom[address];
+    }
+    const bank = this.romBank & this.romBankMask;
+    return this.rom[(bank * 0x4000) + (address - 0x4000)];
+  }
+
+  writeRom(address: number, value: number): void {
+    if (address < 0x2000) {
+      // RAM and RTC enable
+      this.ramEnabled = (value & 0x0F) === 0x0A;
+    } else if (address < 0x4000) {
+      // ROM bank number
+      this.romBank = value & 0x7F;
+      if (this.romBank === 0) {
+        this.romBank = 1;
+      }
+    } else if (address < 0x6000) {
+      // RAM bank number or RTC register select
+      this.ramBankOrRtc = value & 0x0F;
+    } else {
+      // Latch clock data on a 0x00 -> 0x01 write sequence
+      if (this.lastLatchWrite === 0x00 && value === 0x01) {
+        this.latchRtc();
+      }
+      this.lastLatchWrite = value;
+    }
+  }
+
+  readRam(offset: number): number {
+    if (!this.ramEnabled) {
+      return 0xFF;
+    }
+
+    if (this.ramBankOrRtc >= 0x08) {
+      const register = this.ramBankOrRtc - 0x08;
+      if (!this.hasRtc || register > RTC_DH) {
+        return 0xFF;
+      }
+      return this.rtcLatched[register] & RTC_MASKS[register];
+    }
+
+    if (this.ram.length === 0 || this.ramBankOrRtc > 0x03) {
+      return 0xFF;
+    }
+    return this.ram[this.ramAddress(offset)];
+  }
+
+  writeRam(offset: number, value: number): void {
+    if (!this.ramEnabled) {
+      return;
+    }
+
+    if (this.ramBankOrRtc >= 0x08) {
+      const register = this.ramBankOrRtc - 0x08;
+      if (this.hasRtc && register <= RTC_DH) {
+        this.writeRtc(register, value);
+      }
+      return;
+    }
+
+    if (this.ram.length === 0 || this.ramBankOrRtc > 0x03) {
+      return;
+    }
+    this.ram[this.ramAddress(offset)] = value;
+    this.saveDirty = true;
+  }
+
+  exportSaveData(): Uint8Array {
+    if (!this.hasRtc) {
+      return this.ram.slice();
+    }
+
+    this.updateRtc();
+    const data = new Uint8Array(this.ram.length + RTC_FOOTER_SIZE);
+    data.set(this.ram);
+
+    const footer = new DataView(data.buffer, this.ram.length, RTC_FOOTER_SIZE);
+    for (let i = 0; i < 5; i++) {
+      footer.setUint32(i * 4, this.rtc[i], true);
+      footer.setUint32((i + 5) * 4, this.rtcLatched[i], true);
+    }
+    // Time at which the counters were exact (uncounted milliseconds are carried back)
+    const timestamp = Math.floor((this.rtcLastUpdate - this.rtcSubSecond) / 1000);
+    footer.setUint32(RTC_FOOTER_TIMESTAMP, timestamp >>> 0, true);
+    footer.setUint32(RTC_FOOTER_TIMESTAMP + 4, Math.floor(timestamp / 0x100000000), true);
+    return data;
+  }
+
+  importSaveData(data: Uint8Array): void {
+    this.ram.set(data.subarray(0, this.ram.length));
+    this.saveDirty = false;
+
+    // Older emulators write a 44-byte footer with a 32-bit timestamp
+    const footerSize = data.length - this.ram.length;
+    if (!this.hasRtc || (footerSize !== RTC_FOOTER_SIZE && footerSize !== RTC_FOOTER_SIZE - 4)) {
+      return;
+    }
+
+    const footer = new DataView(data.buffer, data.byteOffset + this.ram.length, footerSize);
+    for (let i = 0; i < 5; i++) {
+      this.rtc[i] = footer.getUint32(i * 4, true) & RTC_MASKS[i];
+      this.rtcLatched[i] = footer.getUint32((i + 5) * 4, true) & RTC_MASKS[i];
+    }
+    let timestamp = footer.getUint32(RTC_FOOTER_TIMESTAMP, true);
+    if (footerSize === RTC_FOOTER_SIZE) {
+      timestamp += footer.getUint32(RTC_FOOTER_TIMESTAMP + 4, true) * 0x100000000;
+    }
+
+    // Count the time that passed while the save was stored
+    this.rtcLastUpdate = timestamp * 1000;
+    this.rtcSubSecond = 0;
+    this.updateRtc();
+  }
+
+  saveState(writer: StateWriter): void {
+    writer.section('MBC3', () => {
+      writer.bool(this.ramEnabled);
+      writer.u8(this.romBank);
+      writer.u8(this.ramBankOrRtc);
+      writer.u8(this.lastLatchWrite);
+      writer.bytes(this.ram);
+      writer.bytes(this.rtc);
+      writer.bytes(this.rtcLatched);
+      writer.f64(this.rtcLastUpdate);
+      writer.f64(this.rtcSubSecond);
+    });
+  }
+
+  loadState(reader: StateReader): void {
+    reader.section('MBC3', () => {
+      this.ramEnabled = reader.bool();
+      this.romBank = reader.u8();
+      this.ramBankOrRtc = reader.u8();
+      this.lastLatchWrite = reader.u8();
+      reader.bytesInto(this.ram);
+      reader.bytesInto(this.rtc);
+      reader.bytesInto(this.rtcLatched);
+      // The clock keeps running from the saved time, like a real cart left on the shelf
+      this.rtcLastUpdate = reader.f64();
+      this.rtcSubSecond = reader.f64();
+    });
+  }
+
+  /**
+   * Translate an external RAM offset to an index into cartridge RAM
+   */
+  private ramAddress(offset: number): number {
+    return ((this.ramBankOrRtc * 0x2000) + offset) & (this.ram.length - 1);
+  }
+
+  /**
+   * Copy the live clock counters into the CPU-visible latch registers
+   */
+  private latchRtc(): void {
+    if (!this.hasRtc) {
+      return;
+    }
+    this.updateRtc();
+    this.rtcLatched.set(this.rtc);
+  }
+
+  /**
+   * Write an RTC register; the latched copy is updated too so the new value reads back
+   */
+  private writeRtc(register: number, value: number): void {
+    this.updateRtc();
+    const masked = value & RTC_MASKS[register];
+    this.rtc[register] = masked;
+    this.rtcLatched[register] = masked;
+
+    if (register === RTC_S) {
+      // Writing seconds resets the internal sub-second divider
+      this.rtcSubSecond = 0;
+    }
+    this.saveDirty = true;
+  }
+
+  /**
+   * Advance the live clock counters by the time elapsed on the clock source
+   */
+  private updateRtc(): void {
+    if (!this.clock) {
+      return;
+    }
+
+    const now = this.clock();
+    const elapsed = Math.max(0, now - this.rtcLastUpdate);
+    this.rtcLastUpdate = now;
+
+    if (this.rtc[RTC_DH] & DH_HALT) {
+      return;
+    }
+
+    this.rtcSubSecond += elapsed;
+    const seconds = Math.floor(this.rtcSubSecond / 1000);
+    this.rtcSubSecond -= seconds * 1000;
+    if (seconds > 0) {
+      this.advanceRtc(seconds);
+    }
+  }
+
+  /**
+   * Add whole seconds to the counters, carrying into minutes, hours and days. A counter set
+   * out of range (seconds or minutes 60-63, hours 24-31) counts on to its bit width and wraps
+   * to 0 without carrying, so the clock goes second by second until all of them are in range.
+   */
+  private advanceRtc(seconds: number): void {
+    while (seconds > 0 && (this.rtc[RTC_S] > 59 || this.rtc[RTC_M] > 59 || this.rtc[RTC_H] > 23)) {
+      this.tickRtc();
+      seconds--;
+    }
+    if (seconds === 0) {
+      return;
+    }
+
+    const totalSeconds = this.rtc[RTC_S] + seconds;
+    this.rtc[RTC_S] = totalSeconds % 60;
+
+    const totalMinutes = this.rtc[RTC_M] + Math.floor(totalSeconds / 60);
+    this.rtc[RTC_M] = totalMinutes % 60;
+
+    const totalHours = this.rtc[RTC_H] + Math.floor(totalMinutes / 60);
+    this.rtc[RTC_H] = totalHours % 24;
+
+    this.advanceRtcDays(Math.floor(totalHours / 24));
+  }
+
+  /**
+   * Count one second on the clock registers as the hardware does
+   */
+  private tickRtc(): void {
+    if (this.countRtcUp(RTC_S, 59) && this.countRtcUp(RTC_M, 59) && this.countRtcUp(RTC_H, 23)) {
+      this.advanceRtcDays(1);
+    }
+  }
+
+  /**
+   * Count a register up by one. It only carries into the next one when it rolls over from
+   * its last value; out of range values wrap at the register's width instead.
+   * @returns Whether the register carried
+   */
+  private countRtcUp(register: number, last: number): boolean {
+    if (this.rtc[register] === last) {
+      this.rtc[register] = 0;
+      return true;
+    }
+    this.rtc[register] = (this.rtc[register] + 1) & RTC_MASKS[register];
+    return false;
+  }
+
+  /**
+   * Add to the 9-bit day counter
+   */
+  private advanceRtcDays(elapsedDays: number): void {
+    let days = ((this.rtc[RTC_DH] & DH_DAY_HIGH) << 8) | this.rtc[RTC_DL];
+    days += elapsedDays;
+
+    let dayHigh = this.rtc[RTC_DH] & (DH_HALT | DH_CARRY);
+    if (days > 0x1FF) {
+      // Day counter overflow sets the carry flag, which stays set until cleared by software
+      dayHigh |= DH_CARRY;
+      days &= 0x1FF;
+    }
+    this.rtc[RTC_DL] = days & 0xFF;
+    this.rtc[RTC_DH] = dayHigh | ((days >> 8) & DH_DAY_HIGH);
+  }
+}
@@ -0,0 +1,134 @@
+import { MemoryBankController, padRomBanks } from './mbc';
+import { StateReader, StateWriter } from '../state/state-buffer';
+
+// Rumble carts use bit 3 of the RAM bank register to drive the motor
+const RUMBLE_BIT = 0x08;
+
+/**
+ * MBC5 Memory Bank Controller
+ * Supports up to 8MB ROM (512 banks) and 128KB RAM (16 banks), with an optional rumble motor
+ *
+ * Registers:
+ * 0x0000-0x1FFF: RAM enable (0x0A in lower nibble enables)
+ * 0x2000-0x2FFF: ROM bank number, lower 8 bits (bank 0 is selectable)
+ * 0x3000-0x3FFF: ROM bank number, bit 8
+ * 0x4000-0x5FFF: RAM bank number (4 bits; rumble carts use bit 3 for the motor)
+ */
+export class MBC5 implements MemoryBankController {
+  private rom: Uint8Array;
+  private ram: Uint8Array;
+  private romBankMask: number;
+
+  // Controller registers
+  private ramEnabled = false;
+  private romBank = 0x001;
+  private ramBank = 0x00;
+
+  // Rumble motor (only present on RUMBLE carts)
+  private onRumble?: (active: boolean) => void;
+  private rumbleActive = false;
+
+  // Battery-backed RAM changed since it was last persisted
+  public saveDirty = false;
+
+  constructor(romData: Uint8Array, ramSize: number, onRumble?: (active: boolean) => void) {
+    this.rom = padRomBanks(romData);
+    this.ram = new Uint8Array(ramSize);
+    this.romBankMask = (this.rom.length / 0x4000) - 1;
+    this.onRumble = onRumble;
+  }
+
+  readRom(address: number): number {
+    if (address < 0x4000) {
+      return this.rom[address];
+    }
+    const bank = this.romBank & this.romBankMask;
+    return this.rom[(bank * 0x4000) + (address - 0x4000)];
+  }
+
+  writeRom(address: number, value: number): void {
+    if (address < 0x2000) {
+      // RAM enable
+      this.ramEnabled = (value & 0x0F) === 0x0A;
+    } else if (address < 0x3000) {
+      // ROM bank number, lower 8 bits
+      this.romBank = (this.romBank & 0x100) | value;
+    } else if (address < 0x4000) {
+      // ROM bank number, bit 8
+      this.romBank = ((value & 0x01) << 8) | (this.romBank & 0xFF);
+    } else if (address < 0x6000) {
+      // RAM bank number
+      if (this.onRumble) {
+        this.ramBank = value & 0x07;
+        this.setRumble((value & RUMBLE_BIT) !== 0);
+      } else {
+        this.ramBank = value & 0x0F;
+      }
+    }
+  }
+
+  readRam(offset: number): number {
+    if (!this.ramEnabled || this.ram.length === 0) {
+      return 0xFF;
+    }
+    return this.ram[this.ramAddress(offset)];
+  }
+
+  writeRam(offset: number, value: number): void {
+    if (!this.ramEnabled || this.ram.length === 0) {
+      return;
+    }
+    this.ram[this.ramAddress(offset)] = value;
+    this.saveDirty = true;
+  }
+
+  exportSaveData(): Uint8Array {
+    return this.ram.slice();
+  }
+
+  importSaveData(data: Uint8Array): void {
+    this.ram.set(data.subarray(0, this.ram.length));
+    this.saveDirty = false;
+  }
+
+  saveState(writer: StateWriter): void {
+    writer.section('MBC5', () => {
+      writer.bool(this.ramEnabled);
+      writer.u16(this.romBank);
+      writer.u8(this.ramBank);
+      writer.bool(this.rumbleActive);
+      writer.bytes(this.ram);
+    });
+  }
+
+  loadState(reader: StateReader): void {
+    reader.section('MBC5', () => {
+      this.ramEnabled = reader.bool();
+      this.romBank = reader.u16();
+      this.ramBank = reader.u8();
+      const rumbleActive = reader.bool();
+      reader.bytesInto(this.ram);
+      if (this.onRumble) {
+        this.setRumble(rumbleActive);
+      }
+    });
+  }
+
+  /**
+   * Translate an external RAM offset to an index into cartridge RAM
+   */
+  private ramAddress(offset: number): number {
+    return ((this.ramBank * 0x2000) + offset) & (this.ram.length - 1);
+  }
+
+  /**
+   * Update the motor state, notifying the listener only when it toggles
+   */
+  private setRumble(active: boolean): void {
+    if (active === this.rumbleActive) {
+      return;
+    }
+    this.rumbleActive = active;
+    this.onRumble?.(active);
+  }
+}
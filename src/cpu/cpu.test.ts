@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { CPU } from './cpu';
 import { MemoryBus } from '../memory/memory-bus';
 
@@ -145,6 +145,39 @@ describe('CPU', () => {
     });
   });
 
+  describe('stop instruction', () => {
+    beforeEach(() => {
+      memory.write8(0xC000, 0x10); // STOP
+      memory.write8(0xC001, 0x00);
+      cpu.registers.PC = 0xC000;
+    });
+
+    it('should stop the CPU when no speed switch is armed', () => {
+      memory.cgbMode = true;
+      cpu.step();
+      expect(cpu.isHalted).toBe(true);
+      expect(memory.doubleSpeed).toBe(false);
+    });
+
+    it('should switch to double speed and carry on when armed through KEY1', () => {
+      memory.cgbMode = true;
+      memory.write8(0xFF4D, 0x01);
+      cpu.step();
+
+      expect(cpu.isHalted).toBe(false);
+      expect(cpu.registers.PC).toBe(0xC002);
+      expect(memory.doubleSpeed).toBe(true);
+      expect(memory.read8(0xFF4D)).toBe(0xFE); // Switched, no longer armed
+    });
+
+    it('should ignore KEY1 on a DMG', () => {
+      memory.write8(0xFF4D, 0x01);
+      cpu.step();
+      expect(cpu.isHalted).toBe(true);
+      expect(memory.doubleSpeed).toBe(false);
+    });
+  });
+
   describe('jump instructions', () => {
     it('should execute JP nn (0xC3)', () => {
       memory.write8(0xC000, 0xC3); // JP nn
@@ -475,4 +508,122 @@ describe('CPU', () => {
       expect(cpu.registers.flagC).toBe(false); // 0x10 >= 0x0F, no borrow
     });
   });
+
+  describe('memory access timing', () => {
+    let elapsed: number;
+    let accesses: string[];
+
+    /**
+     * Run the code at 0xC000 for one instruction, logging each access with the cycle it landed on
+     */
+    function runTimed(code: number[]): void {
+      code.forEach((byte, i) => memory.write8(0xC000 + i, byte));
+      cpu.registers.PC = 0xC000;
+      elapsed = 0;
+      accesses = [];
+      cpu.onTick = (cycles) => { elapsed += cycles; };
+      const read8 = memory.read8.bind(memory);
+      const write8 = memory.write8.bind(memory);
+      vi.spyOn(memory, 'read8').mockImplementation((address) => {
+        accesses.push(`${elapsed} read ${address.toString(16)}`);
+        return read8(address);
+      });
+      vi.spyOn(memory, 'write8').mockImplementation((address, value) => {
+        accesses.push(`${elapsed} write ${address.toString(16)}`);
+        write8(address, value);
+      });
+      cpu.step();
+    }
+
+    it('should write LD (HL),n on its last cycle', () => {
+      cpu.registers.HL = 0xD000;
+      runTimed([0x36, 0x42]); // LD (HL),0x42
+      expect(accesses).toEqual(['4 read c000', '8 read c001', '12 write d000']);
+      expect(elapsed).toBe(12);
+    });
+
+    it('should read and write INC (HL) on consecutive cycles', () => {
+      cpu.registers.HL = 0xD000;
+      runTimed([0x34]); // INC (HL)
+      expect(accesses).toEqual(['4 read c000', '8 read d000', '12 write d000']);
+    });
+
+    it('should push after an idle cycle, high byte first', () => {
+      cpu.registers.SP = 0xD010;
+      runTimed([0xC5]); // PUSH BC
+      expect(accesses).toEqual(['4 read c000', '12 write d00f', '16 write d00e']);
+      expect(elapsed).toBe(16);
+    });
+
+    it('should tick the idle cycles after the last access', () => {
+      runTimed([0x03]); // INC BC
+      expect(accesses).toEqual(['4 read c000']);
+      expect(elapsed).toBe(8);
+    });
+
+    it('should check a return condition before popping', () => {
+      cpu.registers.SP = 0xD000;
+      cpu.registers.flagZ = true;
+      runTimed([0xC8]); // RET Z
+      expect(accesses).toEqual(['4 read c000', '12 read d000', '16 read d001']);
+      expect(elapsed).toBe(20);
+    });
+
+    it('should tick through an interrupt dispatch', () => {
+      cpu.registers.SP = 0xD010;
+      memory.write8(0xFFFF, 0x01);
+      memory.write8(0xFF0F, 0x01);
+      runTimed([0xFB]); // EI
+      accesses = [];
+      elapsed = 0;
+      cpu.step();
+      expect(accesses).toContain('12 write d00f');
+      expect(accesses).toContain('16 write d00e');
+      expect(elapsed).toBe(20);
+      expect(cpu.registers.PC).toBe(0x40);
+    });
+
+    it('should pick the interrupt after pushing the high byte of PC', () => {
+      cpu.registers.SP = 0xD010;
+      memory.write8(0xFFFF, 0x05);
+      memory.write8(0xFF0F, 0x04); // Timer
+      runTimed([0xFB]); // EI
+      cpu.onTick = (cycles) => {
+        elapsed += cycles;
+        if (elapsed === 8) {
+          memory.write8(0xFF0F, 0x05); // V-blank arrives before the push
+        }
+      };
+      elapsed = 0;
+      cpu.step();
+      expect(cpu.registers.PC).toBe(0x40);
+      expect(memory.read8(0xFF0F) & 0x1F).toBe(0x04);
+    });
+
+    it('should jump to 0x0000 when pushing PC onto IE cancels the interrupt', () => {
+      cpu.registers.SP = 0x0000;
+      memory.write8(0xFFFF, 0x01);
+      memory.write8(0xFF0F, 0x01);
+      runTimed([0xFB, 0x00]); // EI, then dispatch with PC=0xC001
+      cpu.step();
+      expect(memory.read8(0xFFFF)).toBe(0xC0); // The high byte of PC, without V-blank
+      expect(memory.read8(0xFFFE)).toBe(0x01);
+      expect(cpu.registers.PC).toBe(0x0000);
+      expect(memory.read8(0xFF0F) & 0x1F).toBe(0x01);
+      expect(cpu.interruptMasterEnable).toBe(false);
+    });
+
+    it('should still dispatch when the high byte pushed onto IE enables the interrupt', () => {
+      cpu.registers.SP = 0x0000;
+      cpu.registers.PC = 0xC100;
+      memory.write8(0xC100, 0xFB); // EI, then dispatch with PC=0xC101
+      memory.write8(0xFFFF, 0x01);
+      memory.write8(0xFF0F, 0x01);
+      cpu.step();
+      cpu.step();
+      expect(memory.read8(0xFFFF)).toBe(0xC1);
+      expect(cpu.registers.PC).toBe(0x40);
+      expect(memory.read8(0xFF0F) & 0x1F).toBe(0x00);
+    });
+  });
 });
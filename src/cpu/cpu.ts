@@ -1,5 +1,7 @@
 import { Registers } from './registers';
 import { MemoryBus } from '../memory/memory-bus';
+import { StateReader, StateWriter } from '../state/state-buffer';
+import { HardwareModel } from '../boot/hardware-model';
 
 // Register indices for O(1) access
 const REG_A = 0;
@@ -21,13 +23,20 @@ export class CPU {
   private _isHalted = false;
   private _interruptMasterEnable = false; // IME flag
   private _pendingEnableInterrupt = false; // EI delayed enable
+  private instructionCycles = 0; // Cycles ticked so far in the current step
+
+  /**
+   * Advances the rest of the machine (PPU, timers, DMA) by the given T-cycles. The CPU calls it
+   * one M-cycle at a time, before each memory access, so accesses land on the right cycle.
+   */
+  public onTick?: (cycles: number) => void;
   
   // Instruction lookup table - function for each of 256 possible opcodes
   private instructionTable: ((opcode: number) => number)[];
 
-  constructor(memory: MemoryBus) {
+  constructor(memory: MemoryBus, model: HardwareModel = 'DMG') {
     this.memory = memory;
-    this.registers = new Registers();
+    this.registers = new Registers(model);
     this.instructionTable = this.createInstructionTable();
   }
 
@@ -43,89 +52,104 @@ export class CPU {
     return this._interruptMasterEnable;
   }
 
+  saveState(writer: StateWriter): void {
+    writer.section('CPU ', () => {
+      this.registers.saveState(writer);
+      writer.f64(this._totalCycles);
+      writer.bool(this._isHalted);
+      writer.bool(this._interruptMasterEnable);
+      writer.bool(this._pendingEnableInterrupt);
+    });
+  }
+
+  loadState(reader: StateReader): void {
+    reader.section('CPU ', () => {
+      this.registers.loadState(reader);
+      this._totalCycles = reader.f64();
+      this._isHalted = reader.bool();
+      this._interruptMasterEnable = reader.bool();
+      this._pendingEnableInterrupt = reader.bool();
+    });
+  }
+
   /**
    * Check for and handle interrupts
    */
   checkInterrupts(): boolean {
-    if (!this._interruptMasterEnable) {
-      return false;
-    }
-
-    const interruptEnable = this.memory.read8(0xFFFF);
-    const interruptFlag = this.memory.read8(0xFF0F);
-    const pendingInterrupts = interruptEnable & interruptFlag;
-
-    if (pendingInterrupts === 0) {
+    if (!this._interruptMasterEnable || this.pendingInterrupts() === 0) {
       return false;
     }
-
-    // Handle interrupts in priority order
-    if (pendingInterrupts & 0x01) {
-      // V-blank interrupt (highest priority)
-      this.handleInterrupt(0x40, 0);
-      return true;
-    }
-    if (pendingInterrupts & 0x02) {
-      // LCD STAT interrupt
-      this.handleInterrupt(0x48, 1);
-      return true;
-    }
-    if (pendingInterrupts & 0x04) {
-      // Timer interrupt
-      this.handleInterrupt(0x50, 2);
-      return true;
-    }
-    if (pendingInterrupts & 0x08) {
-      // Serial interrupt
-      this.handleInterrupt(0x58, 3);
-      return true;
-    }
-    if (pendingInterrupts & 0x10) {
-      // Joypad interrupt
-      this.handleInterrupt(0x60, 4);
-      return true;
-    }
-
-    return false;
+    this.dispatchInterrupt();
+    return true;
   }
 
   /**
-   * Handle a specific interrupt
+   * Interrupts both requested in IF and enabled in IE
    */
-  private handleInterrupt(vector: number, bitIndex: number): void {
-    // Clear the interrupt flag
-    const interruptFlag = this.memory.read8(0xFF0F);
-    this.memory.write8(0xFF0F, interruptFlag & ~(1 << bitIndex));
+  private pendingInterrupts(): number {
+    return this.memory.read8(0xFFFF) & this.memory.read8(0xFF0F) & 0x1F;
+  }
 
+  /**
+   * Dispatch the highest-priority pending interrupt. The CPU only picks it (and clears its
+   * IF bit) after pushing the high byte of PC, so an interrupt raised meanwhile can still
+   * win, and a push that lands on IE and cancels every interrupt sends PC to 0x0000.
+   */
+  private dispatchInterrupt(): void {
     // Disable interrupts
     this._interruptMasterEnable = false;
 
     // If CPU was halted, wake it up
     this._isHalted = false;
 
-    // Push PC onto stack
-    this.pushStack16(this.registers.PC);
-
-    // Jump to interrupt vector
+    // Interrupt handling takes 20 cycles: two idle, two pushing PC and one jumping to the vector
+    let vector = 0x0000;
+    this.tick();
+    this.pushStack(this.registers.PC, () => {
+      const pendingInterrupts = this.pendingInterrupts();
+      for (let bitIndex = 0; bitIndex < 5; bitIndex++) {
+        // V-blank, LCD STAT, timer, serial, joypad: lower bits have priority
+        if (pendingInterrupts & (1 << bitIndex)) {
+          this.memory.write8(0xFF0F, this.memory.read8(0xFF0F) & ~(1 << bitIndex));
+          vector = 0x40 + (bitIndex * 8);
+          break;
+        }
+      }
+    });
     this.registers.PC = vector;
+    this.tick();
+  }
+
+  /**
+   * Run the rest of the machine for one M-cycle (or the given T-cycles)
+   */
+  private tick(cycles = 4): void {
+    this._totalCycles += cycles;
+    this.instructionCycles += cycles;
+    this.onTick?.(cycles);
+  }
 
-    // Interrupt handling takes 20 cycles
-    this._totalCycles += 20;
+  /**
+   * Read memory on the next M-cycle
+   */
+  private read8(address: number): number {
+    this.tick();
+    return this.memory.read8(address);
   }
 
   /**
-   * Push 16-bit value onto stack
+   * Write memory on the next M-cycle
    */
-  private pushStack16(value: number): void {
-    this.registers.SP = (this.registers.SP - 2) & 0xFFFF;
-    this.memory.write16(this.registers.SP, value);
+  private write8(address: number, value: number): void {
+    this.tick();
+    this.memory.write8(address, value);
   }
 
   /**
    * Fetch the next instruction byte from memory at PC (for testing)
    */
   fetchInstruction(): number {
-    const instruction = this.memory.read8(this.registers.PC);
+    const instruction = this.read8(this.registers.PC);
     this.registers.PC = (this.registers.PC + 1) & 0xFFFF;
     return instruction;
   }
@@ -134,7 +158,7 @@ export class CPU {
    * Fetch the next 8-bit immediate value from memory
    */
   private fetchImmediate8(): number {
-    const value = this.memory.read8(this.registers.PC);
+    const value = this.read8(this.registers.PC);
     this.registers.PC = (this.registers.PC + 1) & 0xFFFF;
     return value;
   }
@@ -152,6 +176,8 @@ export class CPU {
    * Execute one instruction (fetch-decode-execute)
    */
   step(): void {
+    this.instructionCycles = 0;
+
     // Handle pending interrupt enable (EI has delayed effect)
     if (this._pendingEnableInterrupt) {
       this._interruptMasterEnable = true;
@@ -165,14 +191,18 @@ export class CPU {
 
     if (this._isHalted) {
       // When halted, CPU still consumes cycles but doesn't execute instructions
-      this._totalCycles += 4;
+      this.tick();
       return;
     }
 
-    const opcode = this.memory.read8(this.registers.PC);
+    const opcode = this.read8(this.registers.PC);
     this.registers.PC = (this.registers.PC + 1) & 0xFFFF;
     const cycles = this.instructionTable[opcode](opcode);
-    this._totalCycles += cycles;
+
+    // Internal cycles after the last memory access (e.g. the 16-bit ALU in INC BC)
+    if (cycles > this.instructionCycles) {
+      this.tick(cycles - this.instructionCycles);
+    }
   }
 
   /**
@@ -602,7 +632,7 @@ export class CPU {
   }
 
   private ld_B_HL(): number {
-    (this.registers as any).regs[REG_B] = this.memory.read8(this.registers.HL);
+    (this.registers as any).regs[REG_B] = this.read8(this.registers.HL);
     return 8;
   }
 
@@ -642,7 +672,7 @@ export class CPU {
   }
 
   private ld_C_HL(): number {
-    (this.registers as any).regs[REG_C] = this.memory.read8(this.registers.HL);
+    (this.registers as any).regs[REG_C] = this.read8(this.registers.HL);
     return 8;
   }
 
@@ -682,7 +712,7 @@ export class CPU {
   }
 
   private ld_D_HL(): number {
-    (this.registers as any).regs[REG_D] = this.memory.read8(this.registers.HL);
+    (this.registers as any).regs[REG_D] = this.read8(this.registers.HL);
     return 8;
   }
 
@@ -722,7 +752,7 @@ export class CPU {
   }
 
   private ld_E_HL(): number {
-    (this.registers as any).regs[REG_E] = this.memory.read8(this.registers.HL);
+    (this.registers as any).regs[REG_E] = this.read8(this.registers.HL);
     return 8;
   }
 
@@ -762,7 +792,7 @@ export class CPU {
   }
 
   private ld_H_HL(): number {
-    (this.registers as any).regs[REG_H] = this.memory.read8(this.registers.HL);
+    (this.registers as any).regs[REG_H] = this.read8(this.registers.HL);
     return 8;
   }
 
@@ -802,7 +832,7 @@ export class CPU {
   }
 
   private ld_L_HL(): number {
-    (this.registers as any).regs[REG_L] = this.memory.read8(this.registers.HL);
+    (this.registers as any).regs[REG_L] = this.read8(this.registers.HL);
     return 8;
   }
 
@@ -848,18 +878,18 @@ export class CPU {
 
   // Memory load instructions
   private ld_A_HL(): number {
-    this.registers.A = this.memory.read8(this.registers.HL);
+    this.registers.A = this.read8(this.registers.HL);
     return 8;
   }
 
   private ld_HL_A(): number {
-    this.memory.write8(this.registers.HL, this.registers.A);
+    this.write8(this.registers.HL, this.registers.A);
     return 8;
   }
 
   private ld_nn_A(): number {
     const address = this.fetchImmediate16();
-    this.memory.write8(address, this.registers.A);
+    this.write8(address, this.registers.A);
     return 16;
   }
 
@@ -1054,15 +1084,27 @@ export class CPU {
   }
 
   // Stack helper methods
-  private pushStack(value: number): void {
-    this.registers.SP = (this.registers.SP - 2) & 0xFFFF;
-    this.memory.write16(this.registers.SP, value);
+  /**
+   * Push a 16-bit value: an idle cycle to decrement SP, then the high byte and the low byte
+   */
+  /**
+   * Push a 16-bit value, high byte first; afterHighByte runs between the two writes
+   */
+  private pushStack(value: number, afterHighByte?: () => void): void {
+    this.tick();
+    this.registers.SP = (this.registers.SP - 1) & 0xFFFF;
+    this.write8(this.registers.SP, value >> 8);
+    afterHighByte?.();
+    this.registers.SP = (this.registers.SP - 1) & 0xFFFF;
+    this.write8(this.registers.SP, value & 0xFF);
   }
 
   private popStack(): number {
-    const value = this.memory.read16(this.registers.SP);
-    this.registers.SP = (this.registers.SP + 2) & 0xFFFF;
-    return value;
+    const low = this.read8(this.registers.SP);
+    this.registers.SP = (this.registers.SP + 1) & 0xFFFF;
+    const high = this.read8(this.registers.SP);
+    this.registers.SP = (this.registers.SP + 1) & 0xFFFF;
+    return (high << 8) | low;
   }
 
   // Call and return instructions
@@ -1093,57 +1135,57 @@ export class CPU {
   }
 
   // Additional memory load instructions
-  private ld_BC_A(): number { this.memory.write8(this.registers.BC, this.registers.A); return 8; }
-  private ld_A_BC(): number { this.registers.A = this.memory.read8(this.registers.BC); return 8; }
-  private ld_DE_A(): number { this.memory.write8(this.registers.DE, this.registers.A); return 8; }
-  private ld_A_DE(): number { this.registers.A = this.memory.read8(this.registers.DE); return 8; }
+  private ld_BC_A(): number { this.write8(this.registers.BC, this.registers.A); return 8; }
+  private ld_A_BC(): number { this.registers.A = this.read8(this.registers.BC); return 8; }
+  private ld_DE_A(): number { this.write8(this.registers.DE, this.registers.A); return 8; }
+  private ld_A_DE(): number { this.registers.A = this.read8(this.registers.DE); return 8; }
   
   private ld_HLI_A(): number { 
-    this.memory.write8(this.registers.HL, this.registers.A); 
+    this.write8(this.registers.HL, this.registers.A); 
     this.registers.HL = (this.registers.HL + 1) & 0xFFFF;
     return 8; 
   }
   
   private ld_A_HLI(): number { 
-    this.registers.A = this.memory.read8(this.registers.HL); 
+    this.registers.A = this.read8(this.registers.HL); 
     this.registers.HL = (this.registers.HL + 1) & 0xFFFF;
     return 8; 
   }
   
   private ld_HLD_A(): number { 
-    this.memory.write8(this.registers.HL, this.registers.A); 
+    this.write8(this.registers.HL, this.registers.A); 
     this.registers.HL = (this.registers.HL - 1) & 0xFFFF;
     return 8; 
   }
   
   private ld_A_HLD(): number { 
-    this.registers.A = this.memory.read8(this.registers.HL); 
+    this.registers.A = this.read8(this.registers.HL); 
     this.registers.HL = (this.registers.HL - 1) & 0xFFFF;
     return 8; 
   }
 
   private ld_HL_n(): number { 
     const value = this.fetchImmediate8();
-    this.memory.write8(this.registers.HL, value); 
+    this.write8(this.registers.HL, value); 
     return 12; 
   }
 
   private ld_A_nn(): number {
     const address = this.fetchImmediate16();
-    this.registers.A = this.memory.read8(address);
+    this.registers.A = this.read8(address);
     return 16;
   }
 
   // High memory operations
   private ldh_n_A(): number { 
     const offset = this.fetchImmediate8();
-    this.memory.write8(0xFF00 + offset, this.registers.A); 
+    this.write8(0xFF00 + offset, this.registers.A); 
     return 12; 
   }
 
   private ldh_A_n(): number { 
     const offset = this.fetchImmediate8();
-    this.registers.A = this.memory.read8(0xFF00 + offset); 
+    this.registers.A = this.read8(0xFF00 + offset); 
     return 12; 
   }
 
@@ -1157,7 +1199,7 @@ export class CPU {
   private add_A_E(): number { return this.addToA(this.registers.E); }
   private add_A_H(): number { return this.addToA(this.registers.H); }
   private add_A_L(): number { return this.addToA(this.registers.L); }
-  private add_A_HL(): number { return this.addToA(this.memory.read8(this.registers.HL), 8); }
+  private add_A_HL(): number { return this.addToA(this.read8(this.registers.HL), 8); }
   private add_A_A(): number { return this.addToA(this.registers.A); }
 
   private add_A_B(): number { return this.addToA(this.registers.B); }
@@ -1179,7 +1221,7 @@ export class CPU {
   private sub_E(): number { return this.subFromA(this.registers.E); }
   private sub_H(): number { return this.subFromA(this.registers.H); }
   private sub_L(): number { return this.subFromA(this.registers.L); }
-  private sub_HL(): number { return this.subFromA(this.memory.read8(this.registers.HL), 8); }
+  private sub_HL(): number { return this.subFromA(this.read8(this.registers.HL), 8); }
   private sub_A(): number { return this.subFromA(this.registers.A); }
 
   private subFromA(value: number, cycles = 4): number {
@@ -1199,7 +1241,7 @@ export class CPU {
   private and_E(): number { return this.andWithA(this.registers.E); }
   private and_H(): number { return this.andWithA(this.registers.H); }
   private and_L(): number { return this.andWithA(this.registers.L); }
-  private and_HL(): number { return this.andWithA(this.memory.read8(this.registers.HL), 8); }
+  private and_HL(): number { return this.andWithA(this.read8(this.registers.HL), 8); }
   private and_A(): number { return this.andWithA(this.registers.A); }
 
   private andWithA(value: number, cycles = 4): number {
@@ -1218,7 +1260,7 @@ export class CPU {
   private or_E(): number { return this.orWithA(this.registers.E); }
   private or_H(): number { return this.orWithA(this.registers.H); }
   private or_L(): number { return this.orWithA(this.registers.L); }
-  private or_HL(): number { return this.orWithA(this.memory.read8(this.registers.HL), 8); }
+  private or_HL(): number { return this.orWithA(this.read8(this.registers.HL), 8); }
   private or_A(): number { return this.orWithA(this.registers.A); }
 
   private orWithA(value: number, cycles = 4): number {
@@ -1237,7 +1279,7 @@ export class CPU {
   private xor_E(): number { return this.xorWithA(this.registers.E); }
   private xor_H(): number { return this.xorWithA(this.registers.H); }
   private xor_L(): number { return this.xorWithA(this.registers.L); }
-  private xor_HL(): number { return this.xorWithA(this.memory.read8(this.registers.HL), 8); }
+  private xor_HL(): number { return this.xorWithA(this.read8(this.registers.HL), 8); }
   private xor_A(): number { return this.xorWithA(this.registers.A); }
 
   private xorWithA(value: number, cycles = 4): number {
@@ -1256,7 +1298,7 @@ export class CPU {
   private cp_E(): number { return this.compareWithA(this.registers.E); }
   private cp_H(): number { return this.compareWithA(this.registers.H); }
   private cp_L(): number { return this.compareWithA(this.registers.L); }
-  private cp_HL(): number { return this.compareWithA(this.memory.read8(this.registers.HL), 8); }
+  private cp_HL(): number { return this.compareWithA(this.read8(this.registers.HL), 8); }
 
   private compareWithA(value: number, cycles = 4): number {
     const result = this.registers.A - value;
@@ -1295,9 +1337,9 @@ export class CPU {
 
   // Memory operations
   private inc_HL_addr(): number {
-    const value = this.memory.read8(this.registers.HL);
+    const value = this.read8(this.registers.HL);
     const result = (value + 1) & 0xFF;
-    this.memory.write8(this.registers.HL, result);
+    this.write8(this.registers.HL, result);
     this.registers.flagZ = result === 0;
     this.registers.flagN = false;
     this.registers.flagH = (value & 0x0F) === 0x0F;
@@ -1305,9 +1347,9 @@ export class CPU {
   }
 
   private dec_HL_addr(): number {
-    const value = this.memory.read8(this.registers.HL);
+    const value = this.read8(this.registers.HL);
     const result = (value - 1) & 0xFF;
-    this.memory.write8(this.registers.HL, result);
+    this.write8(this.registers.HL, result);
     this.registers.flagZ = result === 0;
     this.registers.flagN = true;
     this.registers.flagH = (value & 0x0F) === 0;
@@ -1480,36 +1522,32 @@ export class CPU {
   }
 
   // Conditional returns
-  private ret_NZ(): number {
-    if (!this.registers.flagZ) {
+  /**
+   * Return if the condition holds; checking it takes an idle cycle before the pops
+   */
+  private returnIf(condition: boolean): number {
+    this.tick();
+    if (condition) {
       this.registers.PC = this.popStack();
       return 20;
     }
     return 8;
   }
 
+  private ret_NZ(): number {
+    return this.returnIf(!this.registers.flagZ);
+  }
+
   private ret_Z(): number {
-    if (this.registers.flagZ) {
-      this.registers.PC = this.popStack();
-      return 20;
-    }
-    return 8;
+    return this.returnIf(this.registers.flagZ);
   }
 
   private ret_NC(): number {
-    if (!this.registers.flagC) {
-      this.registers.PC = this.popStack();
-      return 20;
-    }
-    return 8;
+    return this.returnIf(!this.registers.flagC);
   }
 
   private ret_C(): number {
-    if (this.registers.flagC) {
-      this.registers.PC = this.popStack();
-      return 20;
-    }
-    return 8;
+    return this.returnIf(this.registers.flagC);
   }
 
   // Conditional jumps
@@ -1597,7 +1635,7 @@ export class CPU {
   private adc_E(): number { return this.adcToA(this.registers.E); }
   private adc_H(): number { return this.adcToA(this.registers.H); }
   private adc_L(): number { return this.adcToA(this.registers.L); }
-  private adc_HL(): number { return this.adcToA(this.memory.read8(this.registers.HL), 8); }
+  private adc_HL(): number { return this.adcToA(this.read8(this.registers.HL), 8); }
   private adc_A(): number { return this.adcToA(this.registers.A); }
 
   private adcToA(value: number, cycles = 4): number {
@@ -1620,7 +1658,7 @@ export class CPU {
   private sbc_E(): number { return this.sbcFromA(this.registers.E); }
   private sbc_H(): number { return this.sbcFromA(this.registers.H); }
   private sbc_L(): number { return this.sbcFromA(this.registers.L); }
-  private sbc_HL(): number { return this.sbcFromA(this.memory.read8(this.registers.HL), 8); }
+  private sbc_HL(): number { return this.sbcFromA(this.read8(this.registers.HL), 8); }
   private sbc_A(): number { return this.sbcFromA(this.registers.A); }
 
   private sbcFromA(value: number, cycles = 4): number {
@@ -1660,11 +1698,18 @@ export class CPU {
   // Special memory operations
   private ld_nn_SP(): number {
     const address = this.fetchImmediate16();
-    this.memory.write16(address, this.registers.SP);
+    this.write8(address, this.registers.SP & 0xFF);
+    this.write8((address + 1) & 0xFFFF, this.registers.SP >> 8);
     return 20;
   }
 
   private stop(): number {
+    // On a CGB, STOP with a speed switch armed in KEY1 switches speed and carries on
+    if (this.memory.switchSpeed()) {
+      this.registers.PC = (this.registers.PC + 1) & 0xFFFF; // Skip STOP's padding byte
+      return 4;
+    }
+
     // STOP instruction - similar to HALT but different behavior
     this._isHalted = true;
     return 4;
@@ -1672,45 +1717,45 @@ export class CPU {
 
   // LD (HL),r instructions - store register value to memory address in HL
   private ld_HL_B(): number {
-    this.memory.write8(this.registers.HL, this.registers.B);
+    this.write8(this.registers.HL, this.registers.B);
     return 8;
   }
 
   private ld_HL_C(): number {
-    this.memory.write8(this.registers.HL, this.registers.C);
+    this.write8(this.registers.HL, this.registers.C);
     return 8;
   }
 
   private ld_HL_D(): number {
-    this.memory.write8(this.registers.HL, this.registers.D);
+    this.write8(this.registers.HL, this.registers.D);
     return 8;
   }
 
   private ld_HL_E(): number {
-    this.memory.write8(this.registers.HL, this.registers.E);
+    this.write8(this.registers.HL, this.registers.E);
     return 8;
   }
 
   private ld_HL_H(): number {
-    this.memory.write8(this.registers.HL, this.registers.H);
+    this.write8(this.registers.HL, this.registers.H);
     return 8;
   }
 
   private ld_HL_L(): number {
-    this.memory.write8(this.registers.HL, this.registers.L);
+    this.write8(this.registers.HL, this.registers.L);
     return 8;
   }
 
   // High memory operations using C register
   private ld_FF00_C_A(): number {
     // LD (0xFF00+C),A - Store A at high memory address 0xFF00 + C
-    this.memory.write8(0xFF00 + this.registers.C, this.registers.A);
+    this.write8(0xFF00 + this.registers.C, this.registers.A);
     return 8;
   }
 
   private ld_A_FF00_C(): number {
     // LD A,(0xFF00+C) - Load A from high memory address 0xFF00 + C
-    this.registers.A = this.memory.read8(0xFF00 + this.registers.C);
+    this.registers.A = this.read8(0xFF00 + this.registers.C);
     return 8;
   }
 
@@ -1845,7 +1890,7 @@ export class CPU {
       case 3: return this.registers.E;
       case 4: return this.registers.H;
       case 5: return this.registers.L;
-      case 6: return this.memory.read8(this.registers.HL); // (HL)
+      case 6: return this.read8(this.registers.HL); // (HL)
       case 7: return this.registers.A;
       default: throw new Error(`Invalid CB register: ${register}`);
     }
@@ -1862,7 +1907,7 @@ export class CPU {
       case 3: this.registers.E = value; break;
       case 4: this.registers.H = value; break;
       case 5: this.registers.L = value; break;
-      case 6: this.memory.write8(this.registers.HL, value); break; // (HL)
+      case 6: this.write8(this.registers.HL, value); break; // (HL)
       case 7: this.registers.A = value; break;
       default: throw new Error(`Invalid CB register: ${register}`);
     }
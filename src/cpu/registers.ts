@@ -1,3 +1,7 @@
+import { StateReader, StateWriter } from '../state/state-buffer';
+import { HardwareModel } from '../boot/hardware-model';
+import { postBootRegisters } from '../boot/post-boot';
+
 /**
  * Game Boy CPU Registers
  * Manages the LR35902's 8-bit and 16-bit registers, flags, PC, and SP
@@ -18,18 +22,18 @@ export class Registers {
   private regs = new Uint8Array(8); // [A, B, C, D, E, H, L, F]
   // 16-bit registers
   private _PC = 0x0100; // Program Counter - post-boot state (cartridge entry)
-  private _SP = 0xFFFE; // Stack Pointer - post-boot state
-
-  constructor() {
-    // Post-boot state
-    this.regs[REG_A] = 0x01;
-    this.regs[REG_B] = 0x00;
-    this.regs[REG_C] = 0x13;
-    this.regs[REG_D] = 0x00;
-    this.regs[REG_E] = 0xD8;
-    this.regs[REG_H] = 0x01;
-    this.regs[REG_L] = 0x4D;
-    this.regs[REG_F] = 0xB0; // Z=1, N=0, H=1, C=1 (bits 7,5,4)
+  private _SP = 0xFFFE; // Stack Pointer
+
+  /**
+   * Start with the registers the given model's boot ROM leaves
+   */
+  constructor(model: HardwareModel = 'DMG') {
+    const registers = postBootRegisters(model);
+    this.AF = registers.AF;
+    this.BC = registers.BC;
+    this.DE = registers.DE;
+    this.HL = registers.HL;
+    this.SP = registers.SP;
   }
 
   // 8-bit register accessors
@@ -102,4 +106,16 @@ export class Registers {
 
   get SP(): number { return this._SP; }
   set SP(value: number) { this._SP = value & 0xFFFF; }
+
+  saveState(writer: StateWriter): void {
+    writer.bytes(this.regs);
+    writer.u16(this._PC);
+    writer.u16(this._SP);
+  }
+
+  loadState(reader: StateReader): void {
+    reader.bytesInto(this.regs);
+    this._PC = reader.u16();
+    this._SP = reader.u16();
+  }
 }
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GameBoy } from './gameboy';
+import { createTestRom } from './memory/test-roms';
+
+/**
+ * Build a ROM whose program keeps writing (joypad XOR DIV) into tile 0 (the tile on screen),
+ * so every frame depends on both input and timer state
+ */
+function createRom(): Uint8Array {
+  const rom = createTestRom();
+  rom.set([0xC3, 0x50, 0x01], 0x0100); // JP 0x0150
+  rom.set([
+    0x21, 0x00, 0x80, // LD HL,0x8000
+    0x3E, 0x10,       // LD A,0x10 (select action buttons)
+    0xE0, 0x00,       // LDH (P1),A
+    0xF0, 0x00,       // LDH A,(P1)
+    0x47,             // LD B,A
+    0xF0, 0x04,       // LDH A,(DIV)
+    0xA8,             // XOR B
+    0x22,             // LD (HL+),A
+    0x7D,             // LD A,L
+    0xFE, 0x10,       // CP 0x10
+    0x20, 0xF0,       // JR NZ,-16
+    0x21, 0x00, 0x80, // LD HL,0x8000
+    0x18, 0xEB,       // JR -21
+  ], 0x0150);
+  return rom;
+}
+
+/**
+ * Scripted input: which buttons are held during a given frame
+ */
+function applyInput(gameboy: GameBoy, frame: number): void {
+  gameboy.setJoypadButton('A', frame % 3 === 0);
+  gameboy.setJoypadButton('Start', frame % 7 < 2);
+}
+
+/**
+ * Run frames up to and including `lastFrame`, returning each frame's picture by frame number
+ */
+function playUntil(gameboy: GameBoy, lastFrame: number): Map<number, Uint16Array> {
+  const frames = new Map<number, Uint16Array>();
+  while (gameboy.frameCount < lastFrame) {
+    applyInput(gameboy, gameboy.frameCount + 1);
+    gameboy.runFrame();
+    frames.set(gameboy.frameCount, gameboy.getScreenData().slice());
+  }
+  return frames;
+}
+
+describe('GameBoy rewind', () => {
+  let gameboy: GameBoy;
+
+  beforeEach(() => {
+    gameboy = new GameBoy();
+    gameboy.enableRewind({ interval: 2 });
+    gameboy.loadRom(createRom());
+  });
+
+  it('should capture a snapshot every interval frames', () => {
+    playUntil(gameboy, 9);
+    expect(gameboy.rewindBuffer?.length).toBe(4);
+    expect(gameboy.rewindBuffer?.peek()?.frame).toBe(8);
+  });
+
+  it('should restore the framebuffer of each earlier snapshot', () => {
+    const recorded = playUntil(gameboy, 20);
+
+    for (const frame of [18, 16, 14]) {
+      expect(gameboy.rewind()).toBe(true);
+      expect(gameboy.frameCount).toBe(frame);
+      expect(gameboy.getScreenData()).toEqual(recorded.get(frame));
+    }
+  });
+
+  it('should replay identical frames after rewinding with the same input', () => {
+    const recorded = playUntil(gameboy, 30);
+    expect(recorded.get(21)).not.toEqual(recorded.get(22));
+
+    for (let i = 0; i < 5; i++) {
+      gameboy.rewind();
+    }
+    expect(gameboy.frameCount).toBe(20);
+
+    const replayed = playUntil(gameboy, 30);
+    for (let frame = 21; frame <= 30; frame++) {
+      expect(replayed.get(frame)).toEqual(recorded.get(frame));
+    }
+  });
+
+  it('should keep rewinding through history recorded after a rewind', () => {
+    const recorded = playUntil(gameboy, 12);
+    gameboy.rewind();
+    gameboy.rewind();
+    expect(gameboy.frameCount).toBe(8);
+
+    playUntil(gameboy, 12);
+    expect(gameboy.rewind()).toBe(true);
+    expect(gameboy.frameCount).toBe(10);
+    expect(gameboy.rewind()).toBe(true);
+    expect(gameboy.frameCount).toBe(8);
+    expect(gameboy.getScreenData()).toEqual(recorded.get(8));
+  });
+
+  it('should stop at the oldest snapshot', () => {
+    playUntil(gameboy, 4);
+    expect(gameboy.rewind()).toBe(true);
+    expect(gameboy.frameCount).toBe(2);
+    expect(gameboy.rewind()).toBe(false);
+    expect(gameboy.frameCount).toBe(2);
+  });
+
+  it('should do nothing when rewind is disabled', () => {
+    gameboy.disableRewind();
+    playUntil(gameboy, 4);
+    expect(gameboy.rewind()).toBe(false);
+  });
+});
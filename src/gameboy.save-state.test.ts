@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GameBoy } from './gameboy';
+import { createTestRom } from './memory/test-roms';
+import { SaveStateError } from './state/state-buffer';
+import { SAVE_STATE_VERSION, readSaveStateInfo } from './state/save-state';
+
+/**
+ * Build an MBC1+RAM+BATTERY ROM whose program keeps copying DIV into tile 0 (the tile on screen),
+ * so the picture depends on timer state and changes every frame
+ */
+function createRom(title = 'STATE'): Uint8Array {
+  const rom = createTestRom({
+    0x0134: title,
+    0x0147: 0x03, // MBC1+RAM+BATTERY
+    0x0148: 0x01, // 64KB
+    0x0149: 0x02, // 8KB RAM
+  }, 0x10000);
+  rom.set([0xC3, 0x50, 0x01], 0x0100); // JP 0x0150
+  rom.set([
+    0x21, 0x00, 0x80, // LD HL,0x8000
+    0xF0, 0x04,       // LDH A,(DIV)
+    0x22,             // LD (HL+),A
+    0x7D,             // LD A,L
+    0xFE, 0x10,       // CP 0x10
+    0x20, 0xF8,       // JR NZ,-8
+    0x21, 0x00, 0x80, // LD HL,0x8000
+    0x18, 0xF3,       // JR -13
+  ], 0x0150);
+  return rom;
+}
+
+function runFrames(gameboy: GameBoy, count: number): Uint16Array[] {
+  const frames: Uint16Array[] = [];
+  for (let i = 0; i < count; i++) {
+    gameboy.runFrame();
+    frames.push(gameboy.getScreenData().slice());
+  }
+  return frames;
+}
+
+describe('GameBoy save states', () => {
+  let gameboy: GameBoy;
+
+  beforeEach(() => {
+    gameboy = new GameBoy();
+    gameboy.loadRom(createRom());
+    runFrames(gameboy, 3);
+  });
+
+  it('should resume bit-identically in a fresh instance', () => {
+    gameboy.memory.write8(0x0000, 0x0A); // Enable cartridge RAM
+    gameboy.memory.write8(0xA000, 0x42);
+    gameboy.setJoypadButton('Start', true);
+    const state = gameboy.saveState();
+    const expected = runFrames(gameboy, 5);
+    expect(new Set(expected.map((frame) => frame.join())).size).toBe(5); // Every frame differs
+
+    const restored = new GameBoy();
+    restored.loadRom(createRom());
+    restored.loadState(state);
+
+    expect(restored.memory.read8(0xA000)).toBe(0x42);
+    expect(runFrames(restored, 5)).toEqual(expected);
+    expect(restored.cpu.registers.PC).toBe(gameboy.cpu.registers.PC);
+    expect(restored.totalCycles).toBe(gameboy.totalCycles);
+    expect(restored.memory.read8(0xFF04)).toBe(gameboy.memory.read8(0xFF04));
+  });
+
+  it('should rewind the same instance to the saved point', () => {
+    const state = gameboy.saveState();
+    const expected = runFrames(gameboy, 2);
+    runFrames(gameboy, 4);
+
+    gameboy.loadState(state);
+    expect(runFrames(gameboy, 2)).toEqual(expected);
+  });
+
+  it('should store cartridge details and a framebuffer thumbnail', () => {
+    const info = readSaveStateInfo(gameboy.saveState());
+    expect(info.version).toBe(SAVE_STATE_VERSION);
+    expect(info.title).toBe('STATE');
+    expect(info.globalChecksum).toBe(gameboy.cartridge?.header.globalChecksum);
+    expect(info.thumbnail).toEqual(gameboy.getScreenData());
+  });
+
+  it('should reject states from another cartridge', () => {
+    const other = new GameBoy();
+    other.loadRom(createRom('OTHER'));
+    expect(() => gameboy.loadState(other.saveState())).toThrow(/Save state is for "OTHER"/);
+  });
+
+  it('should reject states from another format version', () => {
+    const state = gameboy.saveState();
+    state[4] = SAVE_STATE_VERSION + 1;
+    expect(() => gameboy.loadState(state)).toThrow(/Unsupported save state version/);
+  });
+
+  it('should reject data that is not a save state', () => {
+    expect(() => gameboy.loadState(new Uint8Array(64))).toThrow(SaveStateError);
+  });
+
+  it('should leave the machine untouched when a state is truncated', () => {
+    const state = gameboy.saveState();
+    runFrames(gameboy, 1);
+    const pc = gameboy.cpu.registers.PC;
+    const cycles = gameboy.totalCycles;
+
+    expect(() => gameboy.loadState(state.subarray(0, state.length - 100))).toThrow(SaveStateError);
+    expect(gameboy.cpu.registers.PC).toBe(pc);
+    expect(gameboy.totalCycles).toBe(cycles);
+  });
+
+  it('should require a loaded cartridge', () => {
+    expect(() => new GameBoy().saveState()).toThrow(/No cartridge loaded/);
+  });
+});
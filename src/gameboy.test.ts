@@ -1,5 +1,13 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { GameBoy } from './gameboy';
+import { BootRomError } from './boot/boot-rom';
+import { CartridgeHeaderError, computeHeaderChecksum } from './cartridge/cartridge';
+import { DMG_SHADES } from './graphics/colors';
+import { COMPATIBILITY_PALETTES, PALETTE_COMBOS } from './graphics/compatibility-palettes';
+import { createTestRom } from './memory/test-roms';
+
+/** Header bytes of an SGB-enhanced cart: the SGB flag, which needs the new licensee code */
+const SGB_HEADER = { 0x0146: 0x03, 0x014B: 0x33 };
 
 describe('GameBoy Emulator', () => {
   let gameboy: GameBoy;
@@ -19,24 +27,60 @@ describe('GameBoy Emulator', () => {
       expect(gameboy.totalCycles).toBe(0);
       expect(gameboy.isRunning).toBe(false);
     });
+
+    it('should use the scanline renderer unless the pixel FIFO is requested', () => {
+      expect(gameboy.ppu.renderer).toBe('scanline');
+      expect(new GameBoy({ renderer: 'fifo' }).ppu.renderer).toBe('fifo');
+    });
   });
 
   describe('ROM loading', () => {
     it('should load ROM data', () => {
-      const testRom = new Uint8Array([0x00, 0x18, 0xFE]); // NOP, JR -2
+      const testRom = createTestRom();
+      testRom.set([0x00, 0x18, 0xFE]); // NOP, JR -2
       gameboy.loadRom(testRom);
       
       // Check ROM is loaded
       expect(gameboy.memory.read8(0x0000)).toBe(0x00);
       expect(gameboy.memory.read8(0x0001)).toBe(0x18);
       expect(gameboy.memory.read8(0x0002)).toBe(0xFE);
+      expect(gameboy.cartridge?.hardware?.name).toBe('ROM ONLY');
+    });
+
+    it('should reject ROMs without a cartridge header', () => {
+      const testRom = new Uint8Array([0x00, 0x18, 0xFE]);
+      expect(() => gameboy.loadRom(testRom)).toThrow(CartridgeHeaderError);
+      expect(gameboy.cartridge).toBeUndefined();
+    });
+
+    it('should reject ROMs with a bad header checksum', () => {
+      const testRom = createTestRom();
+      testRom[0x014D] ^= 0xFF;
+      expect(() => gameboy.loadRom(testRom)).toThrow(/Header checksum mismatch/);
+    });
+
+    it('should reject unsupported cartridge types', () => {
+      const testRom = createTestRom({ 0x0147: 0xFC }); // POCKET CAMERA
+      expect(() => gameboy.loadRom(testRom)).toThrow(/Unsupported cartridge type 0xFC/);
+    });
+
+    it('should surface rumble motor changes from MBC5 rumble carts', () => {
+      const testRom = createTestRom({ 0x0147: 0x1C }, 0x10000); // MBC5+RUMBLE
+      const onRumbleChange = vi.fn();
+      gameboy.onRumbleChange = onRumbleChange;
+      gameboy.loadRom(testRom);
+
+      gameboy.memory.write8(0x4000, 0x08);
+      gameboy.memory.write8(0x4000, 0x00);
+
+      expect(onRumbleChange.mock.calls).toEqual([[true], [false]]);
     });
   });
 
   describe('execution', () => {
     it('should execute one frame of instructions', () => {
       // Load a simple test program
-      const testRom = new Uint8Array(32768);
+      const testRom = createTestRom();
       testRom[0x100] = 0x00; // NOP at entry point
       testRom[0x101] = 0x18; // JR -2 (infinite loop)
       testRom[0x102] = 0xFE;
@@ -52,22 +96,33 @@ describe('GameBoy Emulator', () => {
     });
 
     it('should handle V-blank interrupt', () => {
-      // Set up interrupt enable register
-      gameboy.memory.write8(0xFFFF, 0x01); // Enable V-blank interrupt
-      gameboy.cpu.registers.flagC = false; // Enable interrupts (IME would be set)
-      
-      // Force PPU to trigger V-blank
-      while (!gameboy.ppu.vblankRequested) {
+      const testRom = createTestRom();
+      testRom.set([0x06, 0x42, 0xD9], 0x40); // V-blank handler: LD B,0x42; RETI
+      testRom.set([
+        0x3E, 0x01, 0xE0, 0xFF, // Enable the V-blank interrupt in IE
+        0xFB,                   // EI
+        0x76, 0x18, 0xFD,       // HALT; JR -3
+      ], 0x100);
+      gameboy.loadRom(testRom);
+
+      let steps = 0;
+      while (gameboy.cpu.registers.PC !== 0x40 && steps++ < 100000) {
         gameboy.step();
       }
-      
-      expect(gameboy.ppu.vblankRequested).toBe(true);
+      expect(gameboy.cpu.registers.PC).toBe(0x40);
+      expect(gameboy.ppu.currentLine).toBe(144);
+      expect(gameboy.memory.read8(0xFF0F) & 0x01).toBe(0); // Acknowledged on dispatch
+
+      gameboy.step();
+      gameboy.step();
+      expect(gameboy.cpu.registers.B).toBe(0x42);
+      expect(gameboy.cpu.registers.PC).toBe(0x106); // Back after the HALT
     });
   });
 
   describe('step execution', () => {
     it('should synchronize CPU and PPU timing', () => {
-      const testRom = new Uint8Array(32768);
+      const testRom = createTestRom();
       testRom[0x100] = 0x00; // NOP
       gameboy.loadRom(testRom);
       
@@ -81,4 +136,405 @@ describe('GameBoy Emulator', () => {
       expect(gameboy.totalCycles).toBeGreaterThan(initialTotalCycles);
     });
   });
+
+  describe('OAM DMA', () => {
+    // LD A,0xC1; LDH (0x46),A; LD A,40; loop: DEC A; JR NZ,loop; LD B,0x55; JR -2
+    const dmaRoutine = [0x3E, 0xC1, 0xE0, 0x46, 0x3E, 0x28, 0x3D, 0x20, 0xFD, 0x06, 0x55, 0x18, 0xFE];
+
+    function runRoutineAt(address: number): void {
+      dmaRoutine.forEach((byte, i) => gameboy.memory.write8(address + i, byte));
+      gameboy.cpu.registers.PC = address;
+      while (gameboy.totalCycles < 4 * 200) {
+        gameboy.step();
+      }
+    }
+
+    it('should run a DMA routine from High RAM while the transfer is in progress', () => {
+      for (let i = 0; i < 160; i++) {
+        gameboy.memory.write8(0xC100 + i, i + 1);
+      }
+      runRoutineAt(0xFF80);
+
+      expect(gameboy.cpu.registers.B).toBe(0x55); // Waited out the transfer and carried on
+      expect(gameboy.memory.readOam(0xFE00)).toBe(1);
+      expect(gameboy.memory.readOam(0xFE9F)).toBe(160);
+    });
+
+    it('should feed a routine in Work RAM the bytes being transferred', () => {
+      // Source bytes are zero, so once the transfer starts the CPU fetches NOPs instead of the wait loop
+      runRoutineAt(0xC000);
+
+      expect(gameboy.cpu.registers.A).toBe(0xC1); // LD A,40 was never seen
+      expect(gameboy.cpu.registers.B).not.toBe(0x55);
+      expect(gameboy.cpu.registers.PC).toBeGreaterThan(0xC000 + dmaRoutine.length);
+    });
+  });
+
+  describe('DMG colorization', () => {
+    function screenColors(): Set<number> {
+      for (let line = 0; line < 154; line++) {
+        gameboy.ppu.step(456);
+      }
+      return new Set(gameboy.getScreenData());
+    }
+
+    it('should keep the green DMG shades by default', () => {
+      gameboy.loadRom(createTestRom({ 0x0134: 'POKEMON RED', 0x014B: 0x01 }));
+      expect(gameboy.dmgColorization).toBe('off');
+      expect(screenColors()).toEqual(new Set([DMG_SHADES[0]]));
+    });
+
+    it('should pick the palette from the title checksum when automatic', () => {
+      gameboy.dmgColorization = 'auto';
+      gameboy.loadRom(createTestRom({ 0x0134: 'TENNIS', 0x014B: 0x01 }));
+      expect(screenColors()).toEqual(new Set([COMPATIBILITY_PALETTES[34].bg[0]]));
+
+      gameboy.loadRom(createTestRom({ 0x0134: 'TENNIS', 0x014B: 0x02 }));
+      expect(screenColors()).toEqual(new Set([PALETTE_COMBOS['right+a'].palette.bg[0]]));
+    });
+
+    it('should use a chosen button combo palette for any game', () => {
+      gameboy.loadRom(createTestRom({ 0x0134: 'POKEMON RED', 0x014B: 0x01 }));
+      gameboy.dmgColorization = 'right+b';
+      expect(screenColors()).toEqual(new Set([PALETTE_COMBOS['right+b'].palette.bg[0]]));
+    });
+
+    it('should report whether the screen is colorized', () => {
+      gameboy.loadRom(createTestRom({ 0x0134: 'POKEMON RED', 0x014B: 0x01 }));
+      expect(gameboy.colorized).toBe(false);
+      gameboy.dmgColorization = 'auto';
+      expect(gameboy.colorized).toBe(true);
+
+      gameboy = new GameBoy({ model: 'CGB' });
+      gameboy.loadRom(createTestRom({ 0x0134: 'POKEMON RED', 0x014B: 0x01 }));
+      expect(gameboy.dmgColorization).toBe('off');
+      expect(gameboy.colorized).toBe(true);
+    });
+  });
+
+  describe('Super Game Boy', () => {
+    /**
+     * Send MLT_REQ for the given player count code through P1, one packet
+     */
+    function requestMultiplayer(players: number): void {
+      const packet = [(0x11 << 3) | 1, players];
+      gameboy.memory.write8(0xFF00, 0x00);
+      gameboy.memory.write8(0xFF00, 0x30);
+      for (let bit = 0; bit < 128; bit++) {
+        gameboy.memory.write8(0xFF00, ((packet[bit >> 3] ?? 0) >> (bit & 7)) & 1 ? 0x10 : 0x20);
+        gameboy.memory.write8(0xFF00, 0x30);
+      }
+      gameboy.memory.write8(0xFF00, 0x20);
+      gameboy.memory.write8(0xFF00, 0x30);
+    }
+
+    it('should leave the registers the SGB boot ROM does', () => {
+      gameboy.loadRom(createTestRom(SGB_HEADER));
+      expect(gameboy.cpu.registers.AF).toBe(0x0100);
+      expect(gameboy.cpu.registers.BC).toBe(0x0014);
+      expect(gameboy.cpu.registers.HL).toBe(0xC060);
+    });
+
+    it('should run SGB carts on a Super Game Boy with a 256x224 screen', () => {
+      gameboy.loadRom(createTestRom(SGB_HEADER));
+      expect(gameboy.sgbMode).toBe(true);
+      expect(gameboy.screenWidth).toBe(256);
+      expect(gameboy.screenHeight).toBe(224);
+      expect(gameboy.getScreenData()).toHaveLength(256 * 224);
+
+      gameboy.loadRom(createTestRom({ ...SGB_HEADER, 0x0143: 0x80 }));
+      expect(gameboy.sgbMode).toBe(false);
+      gameboy.loadRom(createTestRom());
+      expect(gameboy.sgbMode).toBe(false);
+      expect(gameboy.getScreenData()).toHaveLength(160 * 144);
+    });
+
+    it('should let games detect the SGB by switching joypads after MLT_REQ', () => {
+      gameboy.loadRom(createTestRom(SGB_HEADER));
+      expect(gameboy.memory.read8(0xFF00) & 0x0F).toBe(0x0F);
+      requestMultiplayer(1);
+      gameboy.memory.write8(0xFF00, 0x10);
+      gameboy.memory.write8(0xFF00, 0x30);
+      expect(gameboy.memory.read8(0xFF00) & 0x0F).toBe(0x0E);
+    });
+
+    it('should draw the colored game screen inside the border each frame', () => {
+      gameboy.loadRom(createTestRom(SGB_HEADER));
+      for (let i = 0; i < 2; i++) {
+        gameboy.runFrame();
+      }
+      const screen = gameboy.getScreenData();
+      expect(screen[(40 * 256) + 48]).toBe(0x67BF); // Lightest color of palette 1-A
+      expect(screen[0]).toBe(0x67BF); // No border sent yet, so color 0 shows through
+    });
+
+    it('should save and restore the SGB state', () => {
+      gameboy.loadRom(createTestRom(SGB_HEADER));
+      requestMultiplayer(3);
+      const state = gameboy.saveState();
+      requestMultiplayer(0);
+
+      gameboy.loadState(state);
+      expect(gameboy.sgb.playerCount).toBe(4);
+    });
+  });
+
+  describe('Game Boy Color mode', () => {
+    it('should run DMG carts as a DMG', () => {
+      gameboy.loadRom(createTestRom());
+      expect(gameboy.cgbMode).toBe(false);
+      expect(gameboy.cpu.registers.A).toBe(0x01);
+    });
+
+    it('should run CGB-enhanced and CGB-only carts as a CGB', () => {
+      for (const cgbFlag of [0x80, 0xC0]) {
+        gameboy.loadRom(createTestRom({ 0x0143: cgbFlag }));
+        expect(gameboy.cgbMode).toBe(true);
+        expect(gameboy.cpu.registers.A).toBe(0x11);
+        expect(gameboy.memory.read8(0xFF70)).toBe(0xF9);
+      }
+    });
+
+    it('should give the PPU half the cycles in double speed mode', () => {
+      const rom = createTestRom({ 0x0143: 0x80 });
+      rom.set([0x3E, 0x01, 0xE0, 0x4D, 0x10, 0x00, 0x00, 0x18, 0xFD], 0x100); // Arm KEY1, STOP, then NOP loop
+      gameboy.loadRom(rom);
+      for (let i = 0; i < 3; i++) {
+        gameboy.step();
+      }
+      expect(gameboy.memory.doubleSpeed).toBe(true);
+
+      const cpuCycles = gameboy.cpu.totalCycles;
+      const totalCycles = gameboy.totalCycles;
+      gameboy.step(); // NOP
+      expect(gameboy.cpu.totalCycles - cpuCycles).toBe(4);
+      expect(gameboy.totalCycles - totalCycles).toBe(2);
+    });
+
+    it('should stop the CPU while a general-purpose DMA copies', () => {
+      const rom = createTestRom({ 0x0143: 0x80 });
+      rom.set([0x3E, 0x01, 0xE0, 0x55, 0x00, 0x18, 0xFD], 0x100); // Copy 2 blocks, then NOP loop
+      gameboy.loadRom(rom);
+      gameboy.step();
+      gameboy.step();
+      expect(gameboy.memory.read8(0xFF55)).toBe(0xFF);
+
+      const pc = gameboy.cpu.registers.PC;
+      const totalCycles = gameboy.totalCycles;
+      gameboy.step();
+      expect(gameboy.cpu.registers.PC).toBe(pc);
+      expect(gameboy.totalCycles - totalCycles).toBe(64);
+      gameboy.step();
+      expect(gameboy.cpu.registers.PC).toBe(pc + 1);
+    });
+  });
+
+  describe('boot ROM', () => {
+    /** A boot ROM of NOPs that unmaps itself with its last instruction, like the real ones do */
+    function createBootRom(size = 0x100): Uint8Array {
+      const bootRom = new Uint8Array(size);
+      bootRom.set([0x3E, 0x01, 0xE0, 0x50], 0xFC); // LD A,1; LDH (0x50),A
+      return bootRom;
+    }
+
+    it('should fast-boot to the cartridge when no boot ROM is supplied', () => {
+      gameboy.loadRom(createTestRom());
+      expect(gameboy.cpu.registers.PC).toBe(0x0100);
+      expect(gameboy.memory.bootRomMapped).toBe(false);
+      expect(gameboy.memory.read8(0xFF40)).toBe(0x91);
+    });
+
+    it('should start at 0x0000 with the LCD off and run into the cartridge', () => {
+      const rom = createTestRom();
+      rom[0x0000] = 0xAA;
+      gameboy.setBootRom('DMG', createBootRom());
+      gameboy.loadRom(rom);
+      expect(gameboy.cpu.registers.PC).toBe(0x0000);
+      expect(gameboy.cpu.registers.SP).toBe(0x0000);
+      expect(gameboy.memory.read8(0xFF40)).toBe(0x00);
+      expect(gameboy.memory.read8(0x0000)).toBe(0x00);
+
+      while (gameboy.cpu.registers.PC < 0x0100) {
+        gameboy.step();
+      }
+      expect(gameboy.cpu.registers.PC).toBe(0x0100);
+      expect(gameboy.memory.bootRomMapped).toBe(false);
+      expect(gameboy.memory.read8(0x0000)).toBe(0xAA);
+    });
+
+    it('should only use a CGB boot ROM for Game Boy Color games', () => {
+      gameboy.setBootRom('CGB', createBootRom(0x900));
+      expect(gameboy.hasBootRom('CGB')).toBe(true);
+      expect(gameboy.hasBootRom('DMG')).toBe(false);
+
+      gameboy.loadRom(createTestRom());
+      expect(gameboy.cpu.registers.PC).toBe(0x0100);
+
+      gameboy.loadRom(createTestRom({ 0x0143: 0x80 }));
+      expect(gameboy.cpu.registers.PC).toBe(0x0000);
+    });
+
+    it('should keep a separate boot ROM for each model', () => {
+      const dmgBootRom = createBootRom();
+      const sgbBootRom = createBootRom();
+      sgbBootRom[0x0080] = 0x37; // SCF, to tell the images apart
+      gameboy.setBootRom('DMG', dmgBootRom);
+      gameboy.setBootRom('SGB', sgbBootRom);
+      expect(gameboy.hasBootRom('MGB')).toBe(false);
+
+      gameboy.modelSelection = 'DMG';
+      gameboy.loadRom(createTestRom());
+      expect(gameboy.cpu.registers.PC).toBe(0x0000);
+      expect(gameboy.memory.read8(0x0080)).toBe(0x00);
+
+      gameboy.modelSelection = 'SGB';
+      gameboy.loadRom(createTestRom());
+      expect(gameboy.cpu.registers.PC).toBe(0x0000);
+      expect(gameboy.memory.read8(0x0080)).toBe(0x37);
+
+      gameboy.modelSelection = 'MGB';
+      gameboy.loadRom(createTestRom());
+      expect(gameboy.cpu.registers.PC).toBe(0x0100);
+    });
+
+    it('should reject images of the wrong size for the model', () => {
+      expect(() => gameboy.setBootRom('DMG', new Uint8Array(0x200))).toThrow(BootRomError);
+      expect(() => gameboy.setBootRom('CGB', createBootRom())).toThrow(BootRomError);
+    });
+
+    it('should save and restore a state taken while the boot ROM runs', () => {
+      gameboy.setBootRom('DMG', createBootRom());
+      gameboy.loadRom(createTestRom());
+      gameboy.step();
+      const state = gameboy.saveState();
+
+      const restored = new GameBoy();
+      restored.loadRom(createTestRom());
+      restored.loadState(state);
+      expect(restored.memory.bootRomMapped).toBe(true);
+      while (restored.cpu.registers.PC < 0x0100) {
+        restored.step();
+      }
+      expect(restored.memory.bootRomMapped).toBe(false);
+    });
+  });
+
+  describe('post-boot state', () => {
+    it('should leave the flags of the DMG header checksum check', () => {
+      gameboy.loadRom(createTestRom());
+      expect(gameboy.cpu.registers.AF).toBe(0x01B0);
+
+      const rom = createTestRom();
+      rom[0x0134] = rom[0x014D]; // Makes the checksum come out as 0
+      rom[0x014D] = computeHeaderChecksum(rom);
+      expect(rom[0x014D]).toBe(0x00);
+      gameboy.loadRom(rom);
+      expect(gameboy.cpu.registers.AF).toBe(0x0180);
+    });
+
+    it('should leave DIV where the boot ROM finishes', () => {
+      gameboy.loadRom(createTestRom());
+      expect(gameboy.memory.read8(0xFF04)).toBe(0xAB);
+    });
+
+    it('should start in the chosen model\'s post-boot state before a ROM is loaded', () => {
+      gameboy = new GameBoy({ model: 'CGB' });
+      expect(gameboy.cpu.registers.AF).toBe(0x1180);
+      expect(gameboy.memory.read8(0xFF02)).toBe(0x7F);
+      expect(gameboy.memory.read8(0xFF40)).toBe(0x91);
+    });
+  });
+
+  describe('hardware models', () => {
+    it('should pick the model from the cartridge header by default', () => {
+      gameboy.loadRom(createTestRom());
+      expect(gameboy.modelSelection).toBe('auto');
+      expect(gameboy.model).toBe('DMG');
+      gameboy.loadRom(createTestRom({ 0x0143: 0x80 }));
+      expect(gameboy.model).toBe('CGB');
+    });
+
+    it('should leave the chosen model\'s registers for games to detect it by', () => {
+      gameboy = new GameBoy({ model: 'MGB' });
+      gameboy.loadRom(createTestRom());
+      expect(gameboy.cpu.registers.A).toBe(0xFF);
+
+      gameboy.modelSelection = 'AGB';
+      gameboy.loadRom(createTestRom({ 0x0143: 0x80 }));
+      expect(gameboy.model).toBe('AGB');
+      expect(gameboy.cgbMode).toBe(true);
+      expect(gameboy.cpu.registers.B).toBe(0x01);
+    });
+
+    it('should run color games without the CGB registers on monochrome models', () => {
+      gameboy = new GameBoy({ model: 'DMG' });
+      gameboy.loadRom(createTestRom({ 0x0143: 0x80 }));
+      expect(gameboy.cgbMode).toBe(false);
+      expect(gameboy.cpu.registers.A).toBe(0x01);
+      expect(gameboy.memory.read8(0xFF4F)).toBe(0xFF);
+    });
+
+    it('should give any game the Super Game Boy border on an SGB', () => {
+      gameboy = new GameBoy({ model: 'SGB2' });
+      gameboy.loadRom(createTestRom());
+      expect(gameboy.sgbMode).toBe(true);
+      expect(gameboy.screenWidth).toBe(256);
+    });
+
+    it('should colorize monochrome games on a CGB', () => {
+      gameboy = new GameBoy({ model: 'CGB' });
+      gameboy.loadRom(createTestRom());
+      expect(gameboy.cgbMode).toBe(false);
+      expect(gameboy.cpu.registers.A).toBe(0x11);
+      gameboy.runFrame();
+      expect(gameboy.ppu.getColorFramebuffer()[0]).not.toBe(DMG_SHADES[0]);
+    });
+
+    it('should reject save states made on another model', () => {
+      gameboy.loadRom(createTestRom());
+      const state = gameboy.saveState();
+
+      const other = new GameBoy({ model: 'MGB' });
+      other.loadRom(createTestRom());
+      expect(() => other.loadState(state)).toThrow(/made on a Game Boy, not a Game Boy Pocket/);
+    });
+  });
+
+  describe('CPU memory timing', () => {
+    it('should run the rest of the machine up to each access of an instruction', () => {
+      const rom = createTestRom();
+      rom.set([0x21, 0x00, 0xC0, 0x36, 0x42], 0x100); // LD HL,0xC000; LD (HL),0x42
+      gameboy.loadRom(rom);
+      gameboy.step();
+
+      const start = gameboy.totalCycles;
+      const writes: number[] = [];
+      const write8 = gameboy.memory.write8.bind(gameboy.memory);
+      vi.spyOn(gameboy.memory, 'write8').mockImplementation((address, value) => {
+        if (address === 0xC000) {
+          writes.push(gameboy.totalCycles - start);
+        }
+        write8(address, value);
+      });
+      gameboy.step();
+
+      expect(writes).toEqual([12]);
+      expect(gameboy.totalCycles - start).toBe(12);
+    });
+
+    it('should wake a halted CPU for an enabled interrupt', () => {
+      const rom = createTestRom();
+      rom.set([0x3E, 0x04, 0xE0, 0xFF, 0xFB, 0x76, 0x00], 0x100); // Enable the timer interrupt; EI; HALT
+      gameboy.loadRom(rom);
+      for (let i = 0; i < 4; i++) {
+        gameboy.step();
+      }
+      expect(gameboy.cpu.isHalted).toBe(true);
+
+      gameboy.memory.write8(0xFF0F, 0x04);
+      gameboy.step();
+      expect(gameboy.cpu.isHalted).toBe(false);
+      expect(gameboy.cpu.registers.PC).toBe(0x50);
+    });
+  });
 });
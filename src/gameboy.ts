@@ -1,7 +1,34 @@
 import { CPU } from './cpu/cpu';
 import { MemoryBus } from './memory/memory-bus';
-import { PPU } from './graphics/ppu';
+import { PPU, PPURenderer } from './graphics/ppu';
+import { DMG_PALETTE, PALETTE_COMBOS, PaletteCombo, selectCompatibilityPalette } from './graphics/compatibility-palettes';
 import { SoundChip } from './audio/soundchip';
+import { SGB_SCREEN_HEIGHT, SGB_SCREEN_WIDTH, SuperGameBoy } from './sgb/super-game-boy';
+import { validateBootRom } from './boot/boot-rom';
+import { HARDWARE_MODELS, HardwareModel, ModelSelection, isColorModel, isSuperGameBoy, selectModel } from './boot/hardware-model';
+import { postBootDivider, postBootIoRegisters, postBootRegisters } from './boot/post-boot';
+import { Cartridge } from './cartridge/cartridge';
+import { SaveStateError, StateReader, StateWriter } from './state/state-buffer';
+import { readSaveStateHeader, writeSaveStateHeader } from './state/save-state';
+import { RewindBuffer, RewindOptions } from './state/rewind-buffer';
+
+/**
+ * Options fixed when the emulator is created
+ */
+export interface GameBoyOptions {
+  /** PPU renderer: fast 'scanline' (default) or dot-accurate 'fifo' */
+  renderer?: PPURenderer;
+  /** Block CPU access to VRAM/OAM while the PPU uses them, as hardware does (default true) */
+  accessRestrictions?: boolean;
+  /** Game Boy model to emulate, or 'auto' (default) to pick one per cartridge */
+  model?: ModelSelection;
+}
+
+/**
+ * How monochrome games are colored: 'off' keeps the DMG's green shades, 'auto' picks
+ * the palette the CGB boot ROM would, and a button combo forces that combo's palette
+ */
+export type DmgColorization = 'off' | 'auto' | PaletteCombo;
 
 /**
  * Main Game Boy Emulator Class
@@ -12,19 +39,94 @@ export class GameBoy {
   public readonly memory: MemoryBus;
   public readonly ppu: PPU;
   public readonly soundChip: SoundChip;
+  public readonly sgb: SuperGameBoy;
+
+  /** Called when a rumble cartridge switches its motor on or off */
+  public onRumbleChange?: (active: boolean) => void;
   
+  private _cartridge?: Cartridge;
   private _totalCycles = 0;
+  private _frameCount = 0;
   private _isRunning = false;
+  private _rewindBuffer?: RewindBuffer;
+  private _dmgColorization: DmgColorization = 'off';
+  private _bootRoms: Partial<Record<HardwareModel, Uint8Array>> = {};
+  private _modelSelection: ModelSelection;
+  private _model: HardwareModel = 'DMG';
   
   // Target cycles per frame (Game Boy runs at ~60 FPS)
   private static readonly CYCLES_PER_FRAME = 70224; // 4.194304 MHz / 59.73 Hz
 
-  constructor() {
-    this.memory = new MemoryBus();
+  constructor(options: GameBoyOptions = {}) {
+    this._modelSelection = options.model ?? 'auto';
+    if (this._modelSelection !== 'auto') {
+      this._model = this._modelSelection;
+    }
+    this.memory = new MemoryBus(this._model);
     this.soundChip = new SoundChip();
     this.memory.soundChip = this.soundChip;
-    this.cpu = new CPU(this.memory);
-    this.ppu = new PPU(this.memory);
+    this.cpu = new CPU(this.memory, this._model);
+    this.cpu.onTick = (cycles) => this.advance(cycles);
+    this.ppu = new PPU(this.memory, { renderer: options.renderer });
+    this.memory.ppu = this.ppu;
+    this.memory.accessRestrictions = options.accessRestrictions ?? true;
+    this.sgb = new SuperGameBoy();
+  }
+
+  /** The model the loaded cartridge runs on */
+  get model(): HardwareModel {
+    return this._model;
+  }
+
+  /** The model to emulate, or 'auto'; takes effect when the next ROM is loaded */
+  get modelSelection(): ModelSelection {
+    return this._modelSelection;
+  }
+
+  set modelSelection(selection: ModelSelection) {
+    this._modelSelection = selection;
+  }
+
+  /** Running in Game Boy Color mode: a color game on the CGB or GBA model */
+  get cgbMode(): boolean {
+    return this.memory.cgbMode;
+  }
+
+  /** The screen is in color: a Game Boy Color game, or a monochrome game under a colorization palette */
+  get colorized(): boolean {
+    return this.cgbMode || this.activeDmgColorization() !== 'off';
+  }
+
+  /** Running on a Super Game Boy (for SGB games without CGB support) */
+  get sgbMode(): boolean {
+    return this.memory.joypad.sgb !== undefined;
+  }
+
+  get dmgColorization(): DmgColorization {
+    return this._dmgColorization;
+  }
+
+  set dmgColorization(colorization: DmgColorization) {
+    this._dmgColorization = colorization;
+    this.applyDmgPalette();
+  }
+
+  get cartridge(): Cartridge | undefined {
+    return this._cartridge;
+  }
+
+  /** Whether the loaded cartridge keeps its RAM (or clock) alive with a battery */
+  get hasBatterySave(): boolean {
+    return this._cartridge?.hardware?.battery ?? false;
+  }
+
+  /** Battery-backed state changed since it was last persisted or imported */
+  get saveDataDirty(): boolean {
+    return this.hasBatterySave && this.memory.saveDirty;
+  }
+
+  set saveDataDirty(dirty: boolean) {
+    this.memory.saveDirty = dirty;
   }
 
   get totalCycles(): number {
@@ -35,78 +137,295 @@ export class GameBoy {
     return this._isRunning;
   }
 
+  /** Frames completed by runFrame */
+  get frameCount(): number {
+    return this._frameCount;
+  }
+
+  get rewindBuffer(): RewindBuffer | undefined {
+    return this._rewindBuffer;
+  }
+
   /**
    * Load ROM data into memory
+   * @throws CartridgeHeaderError if the header is invalid or the cartridge type is unsupported
    */
   loadRom(romData: Uint8Array): void {
-    this.memory.loadRom(romData);
-    
-    // Set up proper Game Boy post-boot state (as left by boot ROM)
-    this.memory.write8(0xFF05, 0x00); // TIMA
-    this.memory.write8(0xFF06, 0x00); // TMA 
-    this.memory.write8(0xFF07, 0x00); // TAC
-    this.memory.write8(0xFF10, 0x80); // NR10
-    this.memory.write8(0xFF11, 0xBF); // NR11
-    this.memory.write8(0xFF12, 0xF3); // NR12
-    this.memory.write8(0xFF14, 0xBF); // NR14
-    this.memory.write8(0xFF16, 0x3F); // NR21
-    this.memory.write8(0xFF17, 0x00); // NR22
-    this.memory.write8(0xFF19, 0xBF); // NR24
-    this.memory.write8(0xFF1A, 0x7F); // NR30
-    this.memory.write8(0xFF1B, 0xFF); // NR31
-    this.memory.write8(0xFF1C, 0x9F); // NR32
-    this.memory.write8(0xFF1E, 0xBF); // NR33
-    this.memory.write8(0xFF20, 0xFF); // NR41
-    this.memory.write8(0xFF21, 0x00); // NR42
-    this.memory.write8(0xFF22, 0x00); // NR43
-    this.memory.write8(0xFF23, 0xBF); // NR30
-    this.memory.write8(0xFF24, 0x77); // NR50
-    this.memory.write8(0xFF25, 0xF3); // NR51
-    this.memory.write8(0xFF26, 0xF1); // NR52
-    this.memory.write8(0xFF40, 0x93); // LCD Control: LCD on, BG on, sprites on, BG tile map 0x9800
-    this.memory.write8(0xFF42, 0x00); // SCY
-    this.memory.write8(0xFF43, 0x00); // SCX
-    this.memory.write8(0xFF45, 0x00); // LYC
-    this.memory.write8(0xFF47, 0xFC); // Background palette: 11 11 11 00
-    this.memory.write8(0xFF48, 0xFF); // Object palette 0
-    this.memory.write8(0xFF49, 0xFF); // Object palette 1
-    this.memory.write8(0xFF4A, 0x00); // WY
-    this.memory.write8(0xFF4B, 0x00); // WX
-    this.memory.write8(0xFFFF, 0x00); // IE
-    
-    // Initialize CPU registers to post-boot state
-    this.cpu.registers.AF = 0x01B0;
-    this.cpu.registers.BC = 0x0013;
-    this.cpu.registers.DE = 0x00D8;
-    this.cpu.registers.HL = 0x014D;
-    this.cpu.registers.SP = 0xFFFE;
+    const cartridge = new Cartridge(romData);
+    cartridge.validate();
+    this._cartridge = cartridge;
+
+    const mbc = cartridge.createMemoryBankController({
+      onRumble: (active) => this.onRumbleChange?.(active),
+    });
+    const model = this._modelSelection === 'auto' ? selectModel(cartridge) : this._modelSelection;
+    this._model = model;
+    this.memory.cgbMode = isColorModel(model) && cartridge.supportsCgb; // Monochrome games get no CGB registers
+    this.memory.joypad.sgb = isSuperGameBoy(model) ? this.sgb : undefined;
+    this.sgb.reset();
+    this.memory.loadCartridge(cartridge, mbc);
+    this.applyDmgPalette();
+    this._rewindBuffer?.clear();
+
+    // The CGB boot ROM's compatibility mode for monochrome games isn't emulated, so those fast-boot
+    const bootRom = isColorModel(model) && !this.cgbMode ? undefined : this._bootRoms[model];
+    if (bootRom) {
+      this.startBootRom(bootRom);
+    } else {
+      this.fastBoot(cartridge);
+    }
+  }
+
+  /**
+   * Supply a model's boot ROM image to run on the next loadRom on that model instead of
+   * skipping straight to the cartridge. Each model keeps its own image; a model without
+   * one still fast-boots, and so do monochrome games on the CGB and GBA.
+   * @throws BootRomError if the image has the wrong size for the model
+   */
+  setBootRom(model: HardwareModel, data: Uint8Array): void {
+    validateBootRom(model, data);
+    this._bootRoms[model] = data.slice();
+  }
+
+  /**
+   * Whether a boot ROM has been supplied for the given model
+   */
+  hasBootRom(model: HardwareModel): boolean {
+    return this._bootRoms[model] !== undefined;
+  }
+
+  /**
+   * Power on into a boot ROM: map it over the cartridge and start at 0x0000 with the
+   * LCD off, leaving the boot ROM to set up the hardware and jump to 0x0100
+   */
+  private startBootRom(bootRom: Uint8Array): void {
+    this.memory.write8(0xFF40, 0x00);
+    this.memory.mapBootRom(bootRom);
+
+    this.cpu.registers.AF = 0x0000;
+    this.cpu.registers.BC = 0x0000;
+    this.cpu.registers.DE = 0x0000;
+    this.cpu.registers.HL = 0x0000;
+    this.cpu.registers.SP = 0x0000;
+    this.cpu.registers.PC = 0x0000;
+  }
+
+  /**
+   * Skip the boot ROM: set up the hardware the way it leaves it and start at the cartridge entry point
+   */
+  private fastBoot(cartridge: Cartridge): void {
+    // Set up the I/O registers as the boot ROM leaves them
+    for (const [address, value] of postBootIoRegisters(this._model)) {
+      this.memory.write8(address, value);
+    }
+    this.memory.setDivider(postBootDivider(this._model));
+
+    // Initialize CPU registers to what this model's boot ROM leaves
+    const registers = postBootRegisters(this._model, cartridge.header);
+    this.cpu.registers.AF = registers.AF;
+    this.cpu.registers.BC = registers.BC;
+    this.cpu.registers.DE = registers.DE;
+    this.cpu.registers.HL = registers.HL;
+    this.cpu.registers.SP = registers.SP;
     this.cpu.registers.PC = 0x0100; // Start at ROM entry point
   }
 
   /**
-   * Execute one emulation step (one CPU instruction)
+   * Give the PPU the colors for DMG shades
+   */
+  private applyDmgPalette(): void {
+    const colorization = this.activeDmgColorization();
+    if (colorization === 'off') {
+      this.ppu.setDmgPalette(DMG_PALETTE);
+    } else if (colorization === 'auto') {
+      this.ppu.setDmgPalette(this._cartridge ? selectCompatibilityPalette(this._cartridge.header) : DMG_PALETTE);
+    } else {
+      this.ppu.setDmgPalette(PALETTE_COMBOS[colorization].palette);
+    }
+  }
+
+  /**
+   * The colorization DMG shades get; 'auto' depends on the loaded cartridge's header, so it's
+   * 'off' until one is loaded. A CGB or GBA always colorizes monochrome games, so 'off' acts
+   * as 'auto' on those models.
+   */
+  private activeDmgColorization(): DmgColorization {
+    if (!this._cartridge) {
+      return this._dmgColorization === 'auto' ? 'off' : this._dmgColorization;
+    }
+    const colorsDmgGames = isColorModel(this._model) && !this.cgbMode;
+    return this._dmgColorization === 'off' && colorsDmgGames ? 'auto' : this._dmgColorization;
+  }
+
+  /**
+   * Export battery-backed cartridge RAM as a .sav image
+   * @returns undefined when the cartridge has no battery
+   */
+  exportSaveData(): Uint8Array | undefined {
+    if (!this.hasBatterySave) {
+      return undefined;
+    }
+    return this.memory.exportSaveData();
+  }
+
+  /**
+   * Restore battery-backed cartridge RAM from a .sav image
+   */
+  importSaveData(data: Uint8Array): void {
+    if (!this.hasBatterySave) {
+      return;
+    }
+    this.memory.importSaveData(data);
+  }
+
+  /**
+   * Snapshot the whole machine (CPU, memory, cartridge, PPU, APU, joypad) as a save state
+   * @throws SaveStateError if no cartridge is loaded
+   */
+  saveState(): Uint8Array {
+    const cartridge = this._cartridge;
+    if (!cartridge) {
+      throw new SaveStateError('No cartridge loaded');
+    }
+
+    const writer = new StateWriter();
+    writeSaveStateHeader(writer, {
+      title: cartridge.title,
+      globalChecksum: cartridge.header.globalChecksum,
+      createdAt: Date.now(),
+      thumbnail: this.ppu.getColorFramebuffer().slice(),
+    });
+    writer.section('GB  ', () => {
+      writer.string(this._model);
+      writer.f64(this._totalCycles);
+    });
+    this.cpu.saveState(writer);
+    this.memory.saveState(writer);
+    this.ppu.saveState(writer);
+    this.soundChip.saveState(writer);
+    if (this.sgbMode) {
+      this.sgb.saveState(writer);
+    }
+    return writer.toUint8Array();
+  }
+
+  /**
+   * Restore a save state made with the currently loaded cartridge.
+   * If the state is rejected part-way, the machine is left as it was.
+   * @throws SaveStateError if the state is corrupt, from another version or for another cartridge
+   */
+  loadState(data: Uint8Array): void {
+    const cartridge = this._cartridge;
+    if (!cartridge) {
+      throw new SaveStateError('No cartridge loaded');
+    }
+
+    const reader = new StateReader(data);
+    const info = readSaveStateHeader(reader);
+    if (info.globalChecksum !== cartridge.header.globalChecksum || info.title !== cartridge.title) {
+      throw new SaveStateError(`Save state is for "${info.title}", not "${cartridge.title}"`);
+    }
+
+    const backup = this.saveState();
+    try {
+      this.readComponents(reader);
+      if (!reader.done) {
+        throw new SaveStateError('Unexpected data after the end of the save state');
+      }
+    } catch (error) {
+      const restore = new StateReader(backup);
+      readSaveStateHeader(restore);
+      this.readComponents(restore);
+      throw error;
+    }
+  }
+
+  /**
+   * Start capturing rewind snapshots every few frames in runFrame
+   */
+  enableRewind(options: RewindOptions = {}): void {
+    this._rewindBuffer = new RewindBuffer(options);
+  }
+
+  disableRewind(): void {
+    this._rewindBuffer = undefined;
+  }
+
+  /**
+   * Step back to the previous rewind snapshot
+   * @returns false when there is no older snapshot to return to
+   */
+  rewind(): boolean {
+    const buffer = this._rewindBuffer;
+    if (!buffer) {
+      return false;
+    }
+
+    // The newest snapshot may be the current frame; step past it so every call goes back.
+    // The snapshot restored below stays in the buffer, so play can resume from it.
+    if (buffer.peek()?.frame === this._frameCount) {
+      if (buffer.length < 2) {
+        return false;
+      }
+      buffer.pop();
+    }
+
+    const snapshot = buffer.peek();
+    if (!snapshot) {
+      return false;
+    }
+    this.loadState(snapshot.state);
+    this._frameCount = snapshot.frame;
+    return true;
+  }
+
+  /**
+   * Read the component sections that follow the save state header
+   */
+  private readComponents(reader: StateReader): void {
+    this._totalCycles = reader.section('GB  ', () => {
+      const model = reader.string();
+      if (model !== this._model) {
+        const name = HARDWARE_MODELS[model as HardwareModel]?.name ?? model;
+        throw new SaveStateError(`Save state was made on a ${name}, not a ${HARDWARE_MODELS[this._model].name}`);
+      }
+      return reader.f64();
+    });
+    this.cpu.loadState(reader);
+    this.memory.loadState(reader);
+    this.ppu.loadState(reader);
+    this.soundChip.loadState(reader);
+    if (this.sgbMode) {
+      this.sgb.loadState(reader);
+      this.sgb.render(this.ppu.getFramebuffer());
+    }
+  }
+
+  /**
+   * Execute one emulation step (one CPU instruction). The CPU advances the rest of the
+   * machine through advance() on every M-cycle, so memory accesses see up-to-date hardware.
    */
   step(): void {
-    if (this.cpu.isHalted) {
-      // CPU is halted, but PPU still runs
-      const cycles = 4; // Minimum cycle step
-      this.ppu.step(cycles);
-      this.memory.updateTimers(cycles);
-      this._totalCycles += cycles;
+    const stallCycles = this.memory.takeStallCycles();
+    if (stallCycles > 0) {
+      // A VRAM DMA is copying; the CPU sits out those cycles
+      this.advance(stallCycles);
     } else {
-      // Execute one CPU instruction
-      const cyclesBefore = this.cpu.totalCycles;
+      // Execute one CPU instruction (or idle 4 cycles if halted)
       this.cpu.step();
-      const cyclesElapsed = this.cpu.totalCycles - cyclesBefore;
-      
-      // Step PPU by the same number of cycles
-      this.ppu.step(cyclesElapsed);
-      
-      // Update timers
-      this.memory.updateTimers(cyclesElapsed);
-      
-      this._totalCycles += cyclesElapsed;
     }
+  }
+
+  /**
+   * Run the PPU, timers and OAM DMA for some CPU cycles
+   */
+  private advance(cycles: number): void {
+    // Timers and OAM DMA follow the CPU clock; in double speed mode the PPU gets half as many cycles
+    const ppuCycles = this.memory.doubleSpeed ? cycles / 2 : cycles;
+    this.ppu.step(ppuCycles);
+    this.memory.updateTimers(cycles);
+    this.memory.updateDMA(cycles);
+    this._totalCycles += ppuCycles;
     
     // Update interrupt flags based on PPU state
     this.updateInterruptFlags();
@@ -129,6 +448,11 @@ export class GameBoy {
         break;
       }
     }
+
+    this._frameCount++;
+    if (this._rewindBuffer && this._cartridge && this._frameCount % this._rewindBuffer.interval === 0) {
+      this._rewindBuffer.push(this._frameCount, this.saveState());
+    }
   }
 
   /**
@@ -164,39 +488,34 @@ export class GameBoy {
       this.memory.write8(0xFF0F, interruptFlag | 0x01);
       // Clear the PPU request immediately after setting the flag
       this.ppu.clearVBlankRequest();
+      if (this.sgbMode) {
+        this.sgb.completeFrame(this.ppu.getFramebuffer());
+      }
     }
-    
-    // Ensure LCD stays properly configured for gameplay
-    this.ensureLCDConfigured();
   }
 
   /**
-   * Ensure LCD is properly configured for gameplay
+   * Get the current screen as RGB555 colors: the PPU's 160x144, or 256x224 with the
+   * border for Super Game Boy games
    */
-  private ensureLCDConfigured(): void {
-    const lcdControl = this.memory.read8(0xFF40);
-    
-    // Only intervene if LCD is completely off AND we've been running for a while
-    // This allows the game's natural boot sequence to work
-    if ((lcdControl & 0x80) === 0 && this._totalCycles > 100000) {
-      // Game has been running for a while but LCD is still off - probably stuck
-      this.memory.write8(0xFF40, 0x91); // LCD on, BG on, BG tile map 0x9800
-      this.memory.write8(0xFF47, 0xFC); // Background palette
-    }
+  getScreenData(): Uint16Array {
+    return this.sgbMode ? this.sgb.getOutput() : this.ppu.getColorFramebuffer();
   }
 
-  /**
-   * Get the current screen data from PPU
-   */
-  getScreenData(): Uint8Array {
-    return this.ppu.getFramebuffer();
+  get screenWidth(): number {
+    return this.sgbMode ? SGB_SCREEN_WIDTH : this.ppu.screenWidth;
+  }
+
+  get screenHeight(): number {
+    return this.sgbMode ? SGB_SCREEN_HEIGHT : this.ppu.screenHeight;
   }
 
   /**
    * Set joypad button state
+   * @param player Joypad 0-3 (joypads 2-4 are for SGB multiplayer)
    */
-  setJoypadButton(button: string, pressed: boolean): void {
-    this.memory.setJoypadButton(button, pressed);
+  setJoypadButton(button: string, pressed: boolean, player = 0): void {
+    this.memory.setJoypadButton(button, pressed, player);
   }
 
   /**
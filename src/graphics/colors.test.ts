@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { DMG_SHADES, createRgbTable, rgb555, rgb555ToRgb } from './colors';
+
+describe('colors', () => {
+  it('should pack channels as RGB555', () => {
+    expect(rgb555(0x1F, 0, 0)).toBe(0x001F);
+    expect(rgb555(0, 0x1F, 0)).toBe(0x03E0);
+    expect(rgb555(0, 0, 0x1F)).toBe(0x7C00);
+  });
+
+  it('should expand RGB555 to full-range RGB without color correction', () => {
+    expect(rgb555ToRgb(0x7FFF, false)).toBe(0xFFFFFF);
+    expect(rgb555ToRgb(0x0000, false)).toBe(0x000000);
+    expect(rgb555ToRgb(0x001F, false)).toBe(0xFF0000);
+    expect(rgb555ToRgb(rgb555(16, 8, 1), false)).toBe(0x844208);
+  });
+
+  it('should blend and desaturate channels with color correction', () => {
+    expect(rgb555ToRgb(0x7FFF, true)).toBe(0xF0F0F0);
+    expect(rgb555ToRgb(0x0000, true)).toBe(0x000000);
+    expect(rgb555ToRgb(0x001F, true)).toBe(0xC9002E); // Pure red bleeds into blue
+  });
+
+  it('should fill a lookup table for every color', () => {
+    const table = createRgbTable(true);
+    expect(table.length).toBe(0x8000);
+    expect(table[DMG_SHADES[0]]).toBe(rgb555ToRgb(DMG_SHADES[0], true));
+  });
+});
@@ -0,0 +1,53 @@
+// RGB555 colors as stored in CGB palette memory: bits 0-4 red, 5-9 green, 10-14 blue
+
+/**
+ * Pack 5-bit red, green and blue channels into an RGB555 color
+ */
+export function rgb555(red: number, green: number, blue: number): number {
+  return (blue << 10) | (green << 5) | red;
+}
+
+/** DMG shades 0-3 (lightest to darkest), tinted green like the original LCD */
+export const DMG_SHADES = [
+  rgb555(19, 23, 1),
+  rgb555(17, 21, 1),
+  rgb555(6, 12, 6),
+  rgb555(1, 7, 1),
+];
+
+/**
+ * Convert an RGB555 color to 8-bit RGB, packed as 0xRRGGBB.
+ * Color correction mimics the CGB's LCD, which blends the channels and
+ * can't show fully saturated colors, so games look as their artists intended.
+ */
+export function rgb555ToRgb(color: number, colorCorrection: boolean): number {
+  const red = color & 0x1F;
+  const green = (color >> 5) & 0x1F;
+  const blue = (color >> 10) & 0x1F;
+
+  if (!colorCorrection) {
+    return (expand5(red) << 16) | (expand5(green) << 8) | expand5(blue);
+  }
+  const correctedRed = Math.min(960, (red * 26) + (green * 4) + (blue * 2)) >> 2;
+  const correctedGreen = Math.min(960, (green * 24) + (blue * 8)) >> 2;
+  const correctedBlue = Math.min(960, (red * 6) + (green * 4) + (blue * 22)) >> 2;
+  return (correctedRed << 16) | (correctedGreen << 8) | correctedBlue;
+}
+
+/**
+ * Build a lookup table of rgb555ToRgb for all 32768 colors
+ */
+export function createRgbTable(colorCorrection: boolean): Uint32Array {
+  const table = new Uint32Array(0x8000);
+  for (let color = 0; color < table.length; color++) {
+    table[color] = rgb555ToRgb(color, colorCorrection);
+  }
+  return table;
+}
+
+/**
+ * Scale a 5-bit channel to 8 bits so that 0x1F maps to 0xFF
+ */
+function expand5(value: number): number {
+  return (value << 3) | (value >> 2);
+}
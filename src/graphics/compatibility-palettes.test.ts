@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { COMPATIBILITY_PALETTES, PALETTE_COMBOS, selectCompatibilityPalette } from './compatibility-palettes';
+import { CartridgeHeader, parseCartridgeHeader } from '../cartridge/cartridge';
+
+/**
+ * Parse a header with the given title and old licensee code
+ */
+function header(title: string, licensee: number): CartridgeHeader {
+  const rom = new Uint8Array(0x8000);
+  for (let i = 0; i < title.length; i++) {
+    rom[0x0134 + i] = title.charCodeAt(i);
+  }
+  rom[0x014B] = licensee;
+  return parseCartridgeHeader(rom);
+}
+
+describe('compatibility palettes', () => {
+  it('should offer 12 button combos of four colors per layer', () => {
+    const combos = Object.values(PALETTE_COMBOS);
+    expect(combos).toHaveLength(12);
+    for (const { palette } of combos) {
+      expect(palette.bg).toHaveLength(4);
+      expect(palette.obj0).toHaveLength(4);
+      expect(palette.obj1).toHaveLength(4);
+    }
+  });
+
+  it('should take every palette ID\'s colors from the boot ROM\'s table', () => {
+    expect(COMPATIBILITY_PALETTES).toHaveLength(51);
+    expect(PALETTE_COMBOS['left+b'].palette.bg).toEqual([0x7FFF, 0x5294, 0x294A, 0x0000]);
+    expect(PALETTE_COMBOS['right+b'].palette.bg[0]).toBe(0x0000);
+    expect(PALETTE_COMBOS['up+a'].palette).toBe(COMPATIBILITY_PALETTES[43]);
+  });
+
+  it('should start layers partway through a palette where the boot ROM does', () => {
+    const superMarioLand = selectCompatibilityPalette(header('SUPER MARIOLAND', 0x01));
+    expect(superMarioLand).toBe(COMPATIBILITY_PALETTES[22]);
+    expect(superMarioLand.obj0).toEqual([0x0000, 0x7FFF, 0x421F, 0x1CF2]);
+    expect(superMarioLand.bg).toEqual([0x7ED6, 0x4BFF, 0x2175, 0x0000]);
+  });
+
+  it('should look up Nintendo titles by their title checksum', () => {
+    expect(selectCompatibilityPalette(header('POKEMON RED', 0x01))).toBe(COMPATIBILITY_PALETTES[13]);
+    expect(selectCompatibilityPalette(header('POKEMON GREEN', 0x01))).toBe(COMPATIBILITY_PALETTES[14]);
+    expect(selectCompatibilityPalette(header('TETRIS', 0x01))).toBe(PALETTE_COMBOS['down+a'].palette);
+    expect(selectCompatibilityPalette(header('ZELDA', 0x01))).toBe(COMPATIBILITY_PALETTES[44]);
+    expect(selectCompatibilityPalette(header('DR.MARIO', 0x01))).toBe(COMPATIBILITY_PALETTES[15]);
+    expect(selectCompatibilityPalette(header('BALLOON KID', 0x01))).toBe(COMPATIBILITY_PALETTES[2]);
+  });
+
+  it('should tell titles with the same checksum apart by their 4th letter', () => {
+    expect(selectCompatibilityPalette(header('POKEMON BLUE', 0x01))).toBe(COMPATIBILITY_PALETTES[11]);
+    expect(selectCompatibilityPalette(header('VEGAS STAKES', 0x01))).toBe(COMPATIBILITY_PALETTES[41]);
+    expect(selectCompatibilityPalette(header('KID ICARUS', 0x01))).toBe(COMPATIBILITY_PALETTES[24]);
+    expect(selectCompatibilityPalette(header('SOCCER', 0x01))).toBe(COMPATIBILITY_PALETTES[34]);
+    expect(selectCompatibilityPalette(header('TETRIS2', 0x01))).toBe(COMPATIBILITY_PALETTES[31]);
+    expect(selectCompatibilityPalette(header('POKEBOM', 0x01))).toBe(COMPATIBILITY_PALETTES[23]);
+    // Same checksum as POKEMON BLUE, but a 4th letter the boot ROM doesn't list
+    expect(selectCompatibilityPalette(header('POKMEON BLUE', 0x01))).toBe(COMPATIBILITY_PALETTES[0]);
+  });
+
+  it('should give other games the Right+A palette', () => {
+    expect(selectCompatibilityPalette(header('POKEMON RED', 0x08))).toBe(PALETTE_COMBOS['right+a'].palette);
+    expect(selectCompatibilityPalette(header('UNKNOWN GAME', 0x01))).toBe(PALETTE_COMBOS['right+a'].palette);
+  });
+});
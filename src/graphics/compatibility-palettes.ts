@@ -0,0 +1,254 @@
+import { CartridgeHeader } from '../cartridge/cartridge';
+import { DMG_SHADES } from './colors';
+
+/**
+ * RGB555 colors for DMG shades 0-3 on each layer: what a CGB shows a monochrome game in
+ */
+export interface DmgPalette {
+  bg: readonly number[];
+  obj0: readonly number[]; // Sprites using OBP0
+  obj1: readonly number[]; // Sprites using OBP1
+}
+
+/** Button combos the CGB boot ROM reads while its logo shows */
+export type PaletteCombo =
+  | 'up' | 'up+a' | 'up+b'
+  | 'left' | 'left+a' | 'left+b'
+  | 'down' | 'down+a' | 'down+b'
+  | 'right' | 'right+a' | 'right+b';
+
+/** The original DMG's green shades on every layer (no colorization) */
+export const DMG_PALETTE: DmgPalette = { bg: DMG_SHADES, obj0: DMG_SHADES, obj1: DMG_SHADES };
+
+/**
+ * The CGB boot ROM's colors: 30 palettes of four RGB555 shades. Some palette IDs
+ * start a layer partway through a palette, so they're addressed by color index.
+ */
+const BOOT_ROM_COLORS: readonly number[] = [
+  0x7FFF, 0x32BF, 0x00D0, 0x0000, // 0
+  0x639F, 0x4279, 0x15B0, 0x04CB, // 1
+  0x7FFF, 0x6E31, 0x454A, 0x0000, // 2
+  0x7FFF, 0x1BEF, 0x0200, 0x0000, // 3
+  0x7FFF, 0x421F, 0x1CF2, 0x0000, // 4
+  0x7FFF, 0x5294, 0x294A, 0x0000, // 5
+  0x7FFF, 0x03FF, 0x012F, 0x0000, // 6
+  0x7FFF, 0x03EF, 0x01D6, 0x0000, // 7
+  0x7FFF, 0x42B5, 0x3DC8, 0x0000, // 8
+  0x7E74, 0x03FF, 0x0180, 0x0000, // 9
+  0x67FF, 0x77AC, 0x1A13, 0x2D6B, // 10
+  0x7ED6, 0x4BFF, 0x2175, 0x0000, // 11
+  0x53FF, 0x4A5F, 0x7E52, 0x0000, // 12
+  0x4FFF, 0x7ED2, 0x3A4C, 0x1CE0, // 13
+  0x03ED, 0x7FFF, 0x255F, 0x0000, // 14
+  0x036A, 0x021F, 0x03FF, 0x7FFF, // 15
+  0x7FFF, 0x01DF, 0x0112, 0x0000, // 16
+  0x231F, 0x035F, 0x00F2, 0x0009, // 17
+  0x7FFF, 0x03EA, 0x011F, 0x0000, // 18
+  0x299F, 0x001A, 0x000C, 0x0000, // 19
+  0x7FFF, 0x027F, 0x001F, 0x0000, // 20
+  0x7FFF, 0x03E0, 0x0206, 0x0120, // 21
+  0x7FFF, 0x7EEB, 0x001F, 0x7C00, // 22
+  0x7FFF, 0x3FFF, 0x7E00, 0x001F, // 23
+  0x7FFF, 0x03FF, 0x001F, 0x0000, // 24
+  0x03FF, 0x001F, 0x000C, 0x0000, // 25
+  0x7FFF, 0x033F, 0x0193, 0x0000, // 26
+  0x0000, 0x4200, 0x037F, 0x7FFF, // 27
+  0x7FFF, 0x7E8C, 0x7C00, 0x0000, // 28
+  0x7FFF, 0x1BEF, 0x6180, 0x0000, // 29
+];
+
+/**
+ * Build a palette ID's layers from the color indexes its sprite and background shades start at
+ */
+function layers(obj0: number, obj1: number, bg: number): DmgPalette {
+  const colors = (start: number) => BOOT_ROM_COLORS.slice(start, start + 4);
+  return { bg: colors(bg), obj0: colors(obj0), obj1: colors(obj1) };
+}
+
+/**
+ * Color index of a palette's first shade
+ */
+function p(palette: number): number {
+  return palette * 4;
+}
+
+/**
+ * Every palette the CGB boot ROM can give a monochrome game, indexed by palette ID.
+ * The button combos pick 12 of them; the rest only go to the titles in the checksum table.
+ */
+export const COMPATIBILITY_PALETTES: readonly DmgPalette[] = [
+  layers(p(4), p(4), p(29)), // 0: Right+A, and the default
+  layers(p(18), p(18), p(18)), // 1: Right
+  layers(p(20), p(20), p(20)), // 2
+  layers(p(24), p(24), p(24)), // 3: Down+A
+  layers(p(9), p(9), p(9)), // 4
+  layers(p(0), p(0), p(0)), // 5: Up
+  layers(p(27), p(27), p(27)), // 6: Right+B
+  layers(p(5), p(5), p(5)), // 7: Left+B
+  layers(p(12), p(12), p(12)), // 8: Down
+  layers(p(26), p(26), p(26)), // 9
+  layers(p(16), p(8), p(8)), // 10
+  layers(p(4), p(28), p(28)), // 11
+  layers(p(4), p(2), p(2)), // 12
+  layers(p(3), p(4), p(4)), // 13
+  layers(p(4), p(29), p(29)), // 14
+  layers(p(28), p(4), p(28)), // 15
+  layers(p(2), p(17), p(2)), // 16
+  layers(p(16), p(16), p(8)), // 17
+  layers(p(4), p(4), p(7)), // 18
+  layers(p(4), p(4), p(18)), // 19
+  layers(p(4), p(4), p(20)), // 20
+  layers(p(19), p(19), p(9)), // 21
+  layers(p(4) - 1, p(4) - 1, p(11)), // 22: sprites start on the black of palette 3
+  layers(p(17), p(17), p(2)), // 23
+  layers(p(4), p(4), p(2)), // 24
+  layers(p(4), p(4), p(3)), // 25
+  layers(p(28), p(28), p(0)), // 26
+  layers(p(3), p(3), p(0)), // 27
+  layers(p(0), p(0), p(1)), // 28: Up+B
+  layers(p(18), p(22), p(18)), // 29
+  layers(p(20), p(22), p(20)), // 30
+  layers(p(24), p(22), p(24)), // 31
+  layers(p(16), p(22), p(8)), // 32
+  layers(p(17), p(4), p(13)), // 33
+  layers(p(28) - 1, p(0), p(14)), // 34: OBP0 starts on the white of palette 27
+  layers(p(28) - 1, p(4), p(15)), // 35
+  layers(p(19), p(22), p(9)), // 36
+  layers(p(16), p(28), p(10)), // 37
+  layers(p(4), p(23), p(28)), // 38
+  layers(p(17), p(22), p(2)), // 39
+  layers(p(4), p(0), p(2)), // 40: Left+A
+  layers(p(4), p(28), p(3)), // 41
+  layers(p(28), p(3), p(0)), // 42
+  layers(p(3), p(28), p(4)), // 43: Up+A
+  layers(p(21), p(28), p(4)), // 44
+  layers(p(3), p(28), p(0)), // 45
+  layers(p(25), p(3), p(28)), // 46
+  layers(p(0), p(28), p(8)), // 47
+  layers(p(4), p(3), p(28)), // 48: Left
+  layers(p(28), p(3), p(6)), // 49: Down+B
+  layers(p(4), p(28), p(29)), // 50
+];
+
+/**
+ * Palettes picked by holding a direction (and optionally A or B) during the boot animation
+ */
+export const PALETTE_COMBOS: Record<PaletteCombo, { name: string; palette: DmgPalette }> = {
+  'up': { name: 'Brown', palette: COMPATIBILITY_PALETTES[5] },
+  'up+a': { name: 'Red', palette: COMPATIBILITY_PALETTES[43] },
+  'up+b': { name: 'Dark Brown', palette: COMPATIBILITY_PALETTES[28] },
+  'left': { name: 'Blue', palette: COMPATIBILITY_PALETTES[48] },
+  'left+a': { name: 'Dark Blue', palette: COMPATIBILITY_PALETTES[40] },
+  'left+b': { name: 'Grayscale', palette: COMPATIBILITY_PALETTES[7] },
+  'down': { name: 'Pastel Mix', palette: COMPATIBILITY_PALETTES[8] },
+  'down+a': { name: 'Orange', palette: COMPATIBILITY_PALETTES[3] },
+  'down+b': { name: 'Yellow', palette: COMPATIBILITY_PALETTES[49] },
+  'right': { name: 'Green', palette: COMPATIBILITY_PALETTES[1] },
+  'right+a': { name: 'Dark Green', palette: COMPATIBILITY_PALETTES[0] },
+  'right+b': { name: 'Reverse', palette: COMPATIBILITY_PALETTES[6] },
+};
+
+/**
+ * Palette IDs for the Nintendo titles the boot ROM recognises by their title checksum
+ */
+const TITLE_PALETTES: Record<number, number> = {
+  0x88: 4, // ALLEY WAY
+  0x16: 5, // YAKUMAN
+  0x36: 35, // BASEBALL
+  0xD1: 34, // TENNIS
+  0xDB: 3, // TETRIS
+  0xF2: 31, // QIX
+  0x3C: 15, // DR.MARIO
+  0x8C: 10, // RADARMISSION
+  0x92: 5, // F1RACE
+  0x3D: 19, // YOSSY NO TAMAGO
+  0x5C: 36,
+  0x58: 7, // X
+  0xC9: 37, // MARIOLAND2
+  0x3E: 30, // YOSSY NO COOKIE
+  0x70: 44, // ZELDA
+  0x1D: 21,
+  0x59: 32,
+  0x69: 31, // TETRIS FLASH
+  0x19: 20, // DONKEY KONG
+  0x35: 5, // MARIO'S PICROSS
+  0xA8: 33,
+  0x14: 13, // POKEMON RED
+  0xAA: 14, // POKEMON GREEN
+  0x75: 5, // PICROSS 2
+  0x95: 29, // YOSSY NO PANEPON
+  0x99: 5, // KIRAKIRA KIDS
+  0x34: 18, // GAMEBOY GALLERY
+  0x6F: 9, // POCKETCAMERA
+  0x15: 3,
+  0xFF: 2, // BALLOON KID
+  0x97: 26, // KINGOFTHEZOO
+  0x4B: 25, // DMG FOOTBALL
+  0x90: 25, // WORLD CUP
+  0x17: 41, // OTHELLO
+  0x10: 42, // SUPER RC PRO-AM
+  0x39: 26, // DYNABLASTER
+  0xF7: 45, // BOY AND BLOB GB2
+  0xF6: 42, // MEGAMAN
+  0xA2: 45, // STAR WARS-NOA
+  0x49: 36,
+  0x4E: 38, // WAVERACE
+  0x43: 26,
+  0x68: 42, // LOLO2
+  0xE0: 30, // YOSHI'S COOKIE
+  0x8B: 41, // MYSTIC QUEST
+  0xF0: 34,
+  0xCE: 34, // TOPRANKINGTENNIS
+  0x0C: 5, // MANSELL
+  0x29: 42, // MEGAMAN3
+  0xE8: 6, // SPACE INVADERS
+  0xB7: 5, // GAME&WATCH
+  0x86: 33, // DONKEYKONGLAND95
+  0x9A: 25, // ASTEROIDS/MISCMD
+  0x52: 42, // STREET FIGHTER 2
+  0x01: 42, // DEFENDER/JOUST
+  0x9D: 40, // KILLERINSTINCT95
+  0x71: 2, // TETRIS BLAST
+  0x9C: 16, // PINOCCHIO
+  0xBD: 25,
+  0x5D: 42, // BA.TOSHINDEN
+  0x6D: 42, // NETTOU KOF 95
+  0x67: 5,
+  0x3F: 0, // TETRIS PLUS
+  0x6B: 39, // DONKEYKONGLAND 3
+};
+
+/**
+ * Palette IDs for checksums several titles share, which the boot ROM tells apart by the
+ * 4th letter of the title. A title matching none of the letters gets the default palette.
+ */
+const SHARED_CHECKSUM_PALETTES: Record<number, Record<string, number>> = {
+  0xB3: { 'B': 36, 'U': 17, 'R': 29 }, // MOGURANYA, TETRIS ATTACK
+  0x46: { 'E': 22, 'R': 46 }, // SUPER MARIOLAND
+  0x28: { 'F': 25, 'A': 6 }, // GOLF
+  0xA5: { 'A': 6, 'R': 27 }, // SOLARSTRIKER, BT2RAGNAROKWORLD
+  0xC6: { 'A': 32, ' ': 0 }, // GBWARS, KEN GRIFFEY JR
+  0xD3: { 'R': 12, 'I': 47 }, // KAERUNOTAMENI
+  0x27: { 'B': 36, 'N': 41 }, // MAGNETIC SOCCER
+  0x61: { 'E': 11, 'A': 41 }, // POKEMON BLUE, VEGAS STAKES
+  0x18: { 'K': 39, 'I': 0 }, // DONKEYKONGLAND
+  0x66: { 'E': 18, 'L': 0 }, // GAMEBOY GALLERY2, MILLI/CENTI/PEDE
+  0x6A: { 'K': 39, 'I': 19 }, // DONKEYKONGLAND 2, MARIO & YOSHI
+  0xBF: { ' ': 24, 'C': 34 }, // KID ICARUS, SOCCER
+  0x0D: { 'R': 31, 'E': 23 }, // TETRIS2, POKEBOM
+  0xF4: { '-': 50, ' ': 18 }, // G&W GALLERY
+};
+
+/**
+ * Pick the palette the CGB boot ROM gives a monochrome game: games licensed by Nintendo
+ * are looked up by title checksum (and 4th title letter, for shared checksums), and
+ * everything else gets the Right+A palette
+ */
+export function selectCompatibilityPalette(header: CartridgeHeader): DmgPalette {
+  let paletteId: number | undefined;
+  if (header.licenseeCode === '01') {
+    const checksum = header.titleChecksum;
+    paletteId = TITLE_PALETTES[checksum] ?? SHARED_CHECKSUM_PALETTES[checksum]?.[header.title.charAt(3)];
+  }
+  return COMPATIBILITY_PALETTES[paletteId ?? 0];
+}
@@ -0,0 +1,69 @@
+import { MemoryBus } from '../memory/memory-bus';
+import { StateReader, StateWriter } from '../state/state-buffer';
+
+/**
+ * A sprite picked by the OAM scan, with screen coordinates already offset
+ */
+export interface OamSprite {
+  x: number;          // OAM X - 8
+  y: number;          // OAM Y - 16
+  tileIndex: number;
+  attributes: number; // Bit 7 behind BG, bit 6 Y flip, bit 5 X flip, bit 4 OBP1
+  oamIndex: number;
+}
+
+// Sprites the PPU can select per scanline
+export const MAX_SPRITES_PER_LINE = 10;
+
+/**
+ * OAM scan (mode 2): the first 10 sprites in OAM order that overlap the line
+ */
+export function scanOam(memory: MemoryBus, line: number, spriteHeight: number): OamSprite[] {
+  const sprites: OamSprite[] = [];
+
+  // Check all 40 sprites in OAM (0xFE00-0xFE9F)
+  for (let oamIndex = 0; oamIndex < 40 && sprites.length < MAX_SPRITES_PER_LINE; oamIndex++) {
+    const oamAddress = 0xFE00 + (oamIndex * 4);
+    const y = memory.readOam(oamAddress) - 16;
+    if (line >= y && line < y + spriteHeight) {
+      sprites.push({
+        x: memory.readOam(oamAddress + 1) - 8,
+        y,
+        tileIndex: memory.readOam(oamAddress + 2),
+        attributes: memory.readOam(oamAddress + 3),
+        oamIndex,
+      });
+    }
+  }
+
+  return sprites;
+}
+
+/**
+ * Save the sprites picked by an OAM scan (in their raw OAM form)
+ */
+export function writeOamSprites(writer: StateWriter, sprites: OamSprite[]): void {
+  writer.u8(sprites.length);
+  for (const sprite of sprites) {
+    writer.u8(sprite.y + 16);
+    writer.u8(sprite.x + 8);
+    writer.u8(sprite.tileIndex);
+    writer.u8(sprite.attributes);
+    writer.u8(sprite.oamIndex);
+  }
+}
+
+export function readOamSprites(reader: StateReader): OamSprite[] {
+  const sprites: OamSprite[] = [];
+  const count = reader.u8();
+  for (let i = 0; i < count; i++) {
+    sprites.push({
+      y: reader.u8() - 16,
+      x: reader.u8() - 8,
+      tileIndex: reader.u8(),
+      attributes: reader.u8(),
+      oamIndex: reader.u8(),
+    });
+  }
+  return sprites;
+}
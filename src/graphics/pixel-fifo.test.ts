@@ -0,0 +1,447 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PPU } from './ppu';
+import { MemoryBus } from '../memory/memory-bus';
+import { StateReader, StateWriter } from '../state/state-buffer';
+
+const FRAME_CYCLES = 70224;
+
+/**
+ * Fill a tile (at 0x8000 + index * 16) with a single color
+ */
+function writeSolidTile(memory: MemoryBus, index: number, color: number): void {
+  for (let row = 0; row < 8; row++) {
+    memory.write8(0x8000 + (index * 16) + (row * 2), (color & 1) ? 0xFF : 0x00);
+    memory.write8(0x8000 + (index * 16) + (row * 2) + 1, (color & 2) ? 0xFF : 0x00);
+  }
+}
+
+/**
+ * Fill a tile with the same two bitplane bytes on every row (one color per column)
+ */
+function writeColumnTile(memory: MemoryBus, index: number, low: number, high: number): void {
+  for (let row = 0; row < 8; row++) {
+    memory.write8(0x8000 + (index * 16) + (row * 2), low);
+    memory.write8(0x8000 + (index * 16) + (row * 2) + 1, high);
+  }
+}
+
+function writeSprite(memory: MemoryBus, oamIndex: number, x: number, y: number, tileIndex: number, attributes: number): void {
+  const address = 0xFE00 + (oamIndex * 4);
+  memory.write8(address, y + 16);
+  memory.write8(address + 1, x + 8);
+  memory.write8(address + 2, tileIndex);
+  memory.write8(address + 3, attributes);
+}
+
+/**
+ * Build a dmg-acid2 style test scene: patterned tiles in both tile data areas, both
+ * tile maps filled, scrolled background, window, and sprites exercising flips, both
+ * object palettes, BG priority, overlaps and the left/right screen edges
+ */
+function buildScene(memory: MemoryBus, lcdControl: number): void {
+  for (let i = 0; i < 0x1800; i++) {
+    memory.write8(0x8000 + i, ((i * 37) ^ (i >> 3) * 11) & 0xFF);
+  }
+  for (let i = 0; i < 0x800; i++) {
+    memory.write8(0x9800 + i, (i * 7 + (i >> 5)) & 0xFF);
+  }
+  writeSolidTile(memory, 0, 0);
+  for (let i = 0; i < 40; i++) {
+    writeSprite(memory, i, 0, -16, 0, 0); // Off screen
+  }
+
+  writeSprite(memory, 0, 20, 10, 5, 0x00);
+  writeSprite(memory, 1, 24, 14, 6, 0x20);  // X flip, overlaps sprite 0
+  writeSprite(memory, 2, 40, 20, 7, 0x40);  // Y flip
+  writeSprite(memory, 3, 60, 20, 8, 0x10);  // OBP1
+  writeSprite(memory, 4, 80, 30, 9, 0x80);  // Behind BG
+  writeSprite(memory, 5, -4, 40, 10, 0x00); // Partly off the left edge
+  writeSprite(memory, 6, 156, 40, 11, 0x00); // Partly off the right edge
+  writeSprite(memory, 7, 100, 60, 12, 0x00);
+  writeSprite(memory, 8, 100, 60, 13, 0x30); // Same X as sprite 7, loses to it
+  writeSprite(memory, 9, 30, 100, 0, 0x00);  // Transparent sprite
+  for (let i = 0; i < 12; i++) {
+    writeSprite(memory, 10 + i, i * 12, 120, 14 + i, 0x00); // More than 10 on a line
+  }
+
+  memory.write8(0xFF42, 5);   // SCY
+  memory.write8(0xFF43, 3);   // SCX
+  memory.write8(0xFF47, 0xE4);
+  memory.write8(0xFF48, 0xD2);
+  memory.write8(0xFF49, 0x1B);
+  memory.write8(0xFF4A, 70);  // WY
+  memory.write8(0xFF4B, 47);  // WX
+  memory.write8(0xFF40, lcdControl);
+}
+
+function renderFrame(ppu: PPU): void {
+  for (let cycles = 0; cycles < FRAME_CYCLES; cycles += 4) {
+    ppu.step(4);
+  }
+}
+
+/**
+ * Render the scene with both renderers; the scanline renderer is the reference
+ */
+function renderBoth(lcdControl: number, setup?: (memory: MemoryBus) => void): [Uint8Array, Uint8Array] {
+  const frames = (['scanline', 'fifo'] as const).map((renderer) => {
+    const memory = new MemoryBus();
+    const ppu = new PPU(memory, { renderer });
+    buildScene(memory, lcdControl);
+    setup?.(memory);
+    renderFrame(ppu);
+    return ppu.getFramebuffer();
+  });
+  return [frames[0], frames[1]];
+}
+
+/**
+ * Render a plain scene with the given renderer: blank tile 0 in both maps, palettes that
+ * map colors straight to shades and no sprites, plus whatever the setup draws
+ */
+function renderPlainScene(renderer: 'scanline' | 'fifo', lcdControl: number, setup: (memory: MemoryBus) => void): Uint8Array {
+  const memory = new MemoryBus();
+  const ppu = new PPU(memory, { renderer });
+  for (let i = 0; i < 40; i++) {
+    writeSprite(memory, i, 0, -16, 0, 0);
+  }
+  memory.write8(0xFF47, 0xE4);
+  memory.write8(0xFF48, 0xE4);
+  memory.write8(0xFF49, 0xE4);
+  setup(memory);
+  memory.write8(0xFF40, lcdControl);
+  renderFrame(ppu);
+  return ppu.getFramebuffer();
+}
+
+/**
+ * The 160 shades of one line of a frame
+ */
+function frameLine(frame: Uint8Array, line: number): number[] {
+  return Array.from(frame.subarray(line * 160, (line + 1) * 160));
+}
+
+/**
+ * Spell out a line of shades from [count, shade] runs
+ */
+function runs(...spans: Array<[number, number]>): number[] {
+  return spans.flatMap(([count, shade]) => new Array<number>(count).fill(shade));
+}
+
+/**
+ * Repeat a pattern of [count, shade] runs
+ */
+function repeat(times: number, ...spans: Array<[number, number]>): Array<[number, number]> {
+  return new Array(times).fill(spans).flat();
+}
+
+/**
+ * Turn the scene into a CGB one: map attributes with every palette, bank and flip
+ * combination, bank 1 tile data, and distinct colors in all palettes
+ */
+function addCgbScene(memory: MemoryBus): void {
+  memory.cgbMode = true;
+  memory.write8(0xFF4F, 1);
+  for (let i = 0; i < 0x1800; i++) {
+    memory.write8(0x8000 + i, ((i * 53) ^ (i >> 2)) & 0xFF);
+  }
+  for (let i = 0; i < 0x800; i++) {
+    memory.write8(0x9800 + i, (i * 13 + (i >> 4)) & 0xEF); // Not bit 4 (unused)
+  }
+  memory.write8(0xFF4F, 0);
+
+  for (const specificationRegister of [0xFF68, 0xFF6A]) {
+    memory.write8(specificationRegister, 0x80);
+    for (let i = 0; i < 32; i++) {
+      const color = (i * 1021 + specificationRegister) & 0x7FFF;
+      memory.write8(specificationRegister + 1, color & 0xFF);
+      memory.write8(specificationRegister + 1, color >> 8);
+    }
+  }
+  for (let i = 0; i < 40; i++) {
+    const address = 0xFE03 + (i * 4);
+    memory.write8(address, (memory.read8(address) & 0xF0) | (i & 0x0F)); // CGB palette and bank
+  }
+}
+
+describe('PixelFifo', () => {
+  describe('reference frames', () => {
+    it('should match the scanline renderer for a static scene', () => {
+      const [reference, fifo] = renderBoth(0xF3); // Window 0x9C00, unsigned tiles, sprites, BG
+      expect(fifo).toEqual(reference);
+    });
+
+    it('should match with signed tile data and swapped tile maps', () => {
+      const [reference, fifo] = renderBoth(0xAB); // Window 0x9800, signed tiles, BG 0x9C00
+      expect(fifo).toEqual(reference);
+    });
+
+    it('should match with 8x16 sprites', () => {
+      const [reference, fifo] = renderBoth(0xF7);
+      expect(fifo).toEqual(reference);
+    });
+
+    it('should match with the window at the left edge and clipped by WX<7', () => {
+      for (const wx of [7, 3, 0]) {
+        const [reference, fifo] = renderBoth(0xF3, (memory) => memory.write8(0xFF4B, wx));
+        expect(fifo).toEqual(reference);
+      }
+    });
+
+    it('should match for overlapping sprites, including behind-BG ones and ones off the left edge', () => {
+      const [reference, fifo] = renderBoth(0xF3, (memory) => {
+        writeSprite(memory, 30, -2, 40, 15, 0x00); // Lower OAM index but right of sprite 5
+        writeSprite(memory, 31, 18, 8, 16, 0x80);  // Behind BG, left of sprite 0
+        writeSprite(memory, 32, 19, 9, 17, 0x10);
+      });
+      expect(fifo).toEqual(reference);
+    });
+
+    it('should match for a CGB scene with map attributes and color palettes', () => {
+      for (const lcdControl of [0xF3, 0xF2]) {
+        const frames = (['scanline', 'fifo'] as const).map((renderer) => {
+          const memory = new MemoryBus();
+          const ppu = new PPU(memory, { renderer });
+          buildScene(memory, lcdControl);
+          addCgbScene(memory);
+          renderFrame(ppu);
+          return ppu.getColorFramebuffer();
+        });
+        expect(new Set(frames[0]).size).toBeGreaterThan(32); // Colors from many palettes
+        expect(frames[1]).toEqual(frames[0]);
+      }
+    });
+
+    it('should match with the background and window disabled by LCDC bit 0', () => {
+      const [reference, fifo] = renderBoth(0xF2);
+      expect(fifo).toEqual(reference);
+    });
+  });
+
+  describe('expected frames', () => {
+    const renderers = ['scanline', 'fifo'] as const;
+
+    it('should draw the window from its left edge and clip it when WX<7', () => {
+      const expected: Array<[number, number[]]> = [
+        [7, runs(...repeat(20, [4, 1], [4, 2]))],
+        [3, runs([4, 2], ...repeat(19, [4, 1], [4, 2]), [4, 1])], // Window columns 0-3 are off screen
+        [0, runs([1, 2], ...repeat(19, [4, 1], [4, 2]), [4, 1], [3, 2])],
+      ];
+      for (const renderer of renderers) {
+        for (const [wx, line] of expected) {
+          const frame = renderPlainScene(renderer, 0xF1, (memory) => { // Window 0x9C00, no sprites
+            writeColumnTile(memory, 1, 0xF0, 0x0F); // Columns 0-3 color 1, 4-7 color 2
+            for (let i = 0; i < 0x400; i++) {
+              memory.write8(0x9C00 + i, 1);
+            }
+            memory.write8(0xFF4A, 0);
+            memory.write8(0xFF4B, wx);
+          });
+          expect(frameLine(frame, 0), `${renderer} WX=${wx}`).toEqual(line);
+          expect(frameLine(frame, 100), `${renderer} WX=${wx}`).toEqual(line);
+        }
+      }
+    });
+
+    it('should draw 8x16 sprites from an even/odd tile pair, flipped as a whole', () => {
+      for (const renderer of renderers) {
+        const frame = renderPlainScene(renderer, 0x97, (memory) => { // 8x16 sprites
+          writeSolidTile(memory, 2, 1);
+          writeSolidTile(memory, 3, 2);
+          writeSprite(memory, 0, 10, 20, 3, 0x00); // Bit 0 of the tile index is ignored
+          writeSprite(memory, 1, 30, 20, 2, 0x40); // Y flip puts tile 3 on top
+        });
+        expect(frameLine(frame, 20), renderer).toEqual(runs([10, 0], [8, 1], [12, 0], [8, 2], [122, 0]));
+        expect(frameLine(frame, 27), renderer).toEqual(runs([10, 0], [8, 1], [12, 0], [8, 2], [122, 0]));
+        expect(frameLine(frame, 28), renderer).toEqual(runs([10, 0], [8, 2], [12, 0], [8, 1], [122, 0]));
+        expect(frameLine(frame, 35), renderer).toEqual(runs([10, 0], [8, 2], [12, 0], [8, 1], [122, 0]));
+        expect(frameLine(frame, 36), renderer).toEqual(runs([160, 0]));
+      }
+    });
+
+    it('should only show behind-BG sprites over BG color 0', () => {
+      for (const renderer of renderers) {
+        const frame = renderPlainScene(renderer, 0x93, (memory) => {
+          writeSolidTile(memory, 1, 2);
+          writeSolidTile(memory, 4, 1);
+          memory.write8(0x9802, 1); // BG color 2 at x 16-31
+          memory.write8(0x9803, 1);
+          writeSprite(memory, 0, 12, 0, 4, 0x80); // Behind BG: hidden at x 16-19
+          writeSprite(memory, 1, 28, 0, 4, 0x00); // In front: covers x 28-31
+        });
+        expect(frameLine(frame, 0), renderer).toEqual(runs([12, 0], [4, 1], [12, 2], [8, 1], [124, 0]));
+        expect(frameLine(frame, 8), renderer).toEqual(runs([160, 0]));
+      }
+    });
+
+    it('should draw only the first 10 sprites on a line in OAM order', () => {
+      for (const renderer of renderers) {
+        const frame = renderPlainScene(renderer, 0x93, (memory) => {
+          writeSolidTile(memory, 4, 3);
+          for (let i = 0; i < 10; i++) {
+            writeSprite(memory, i, 40 + (i * 12), 50, 4, 0x00);
+          }
+          writeSprite(memory, 10, 0, 50, 4, 0x00);  // Leftmost, but 11th in OAM
+          writeSprite(memory, 11, 12, 50, 4, 0x00);
+        });
+        expect(frameLine(frame, 50), renderer).toEqual(runs([40, 0], ...repeat(10, [8, 3], [4, 0])));
+      }
+    });
+  });
+
+  describe('mid-scanline effects', () => {
+    let memory: MemoryBus;
+    let ppu: PPU;
+
+    function pixel(x: number, y: number): number {
+      return ppu.getFramebuffer()[(y * 160) + x];
+    }
+
+    beforeEach(() => {
+      memory = new MemoryBus();
+      ppu = new PPU(memory, { renderer: 'fifo' });
+      writeSolidTile(memory, 1, 1);
+      writeSolidTile(memory, 2, 2);
+      for (let i = 0; i < 0x400; i++) {
+        memory.write8(0x9800 + i, (i & 1) + 1); // Alternating color 1 and 2 columns
+      }
+      memory.write8(0xFF47, 0xE4);
+      memory.write8(0xFF40, 0x91);
+    });
+
+    it('should apply an SCX write during mode 3 to the rest of the line', () => {
+      ppu.step(80 + 12 + 80); // Mode 3, about 80 pixels in
+      memory.write8(0xFF43, 8);
+      ppu.step(456 - 172 + 456);
+
+      expect(pixel(8, 0)).toBe(2);   // Column 1, before the write
+      expect(pixel(120, 0)).toBe(1); // Column 15 scrolled to column 16
+      expect(pixel(8, 1)).toBe(1);   // Whole next line scrolled
+    });
+
+    it('should apply a BGP write during mode 3 to the pixels output after it', () => {
+      ppu.step(80 + 12 + 80);
+      memory.write8(0xFF47, 0x1B); // Inverted
+      ppu.step(456 - 172);
+
+      expect(pixel(0, 0)).toBe(1);
+      expect(pixel(79, 0)).toBe(2);  // Color 2 before the write
+      expect(pixel(81, 0)).toBe(2);  // Color 1 inverted after it
+      expect(pixel(159, 0)).toBe(1); // Color 2 inverted
+    });
+
+    it('should apply an LCDC write during mode 3 to the rest of the line', () => {
+      ppu.step(80 + 12 + 80);
+      memory.write8(0xFF40, 0x90); // Background off
+      ppu.step(456 - 172);
+
+      expect(pixel(40, 0)).toBe(2);
+      expect(pixel(120, 0)).toBe(0);
+    });
+
+    it('should only pick up writes on the next line with the scanline renderer', () => {
+      ppu = new PPU(memory, { renderer: 'scanline' });
+      ppu.step(80 + 12 + 80);
+      memory.write8(0xFF47, 0x1B);
+      ppu.step(456 - 172);
+
+      expect(pixel(0, 0)).toBe(2);
+      expect(pixel(159, 0)).toBe(1);
+    });
+  });
+
+  describe('mode 3 length', () => {
+    let memory: MemoryBus;
+    let ppu: PPU;
+
+    /**
+     * Dots from the start of the line until H-blank
+     */
+    function measureMode3End(): number {
+      let dots = 0;
+      while (ppu.mode !== 3) {
+        ppu.step(1);
+        dots++;
+      }
+      while (ppu.mode === 3) {
+        ppu.step(1);
+        dots++;
+      }
+      return dots;
+    }
+
+    beforeEach(() => {
+      memory = new MemoryBus();
+      ppu = new PPU(memory, { renderer: 'fifo' });
+      memory.write8(0xFF40, 0x93);
+      memory.write8(0xFF4A, 0);
+      memory.write8(0xFF4B, 0xFF);
+    });
+
+    it('should last 172 dots for a plain background', () => {
+      expect(measureMode3End()).toBe(80 + 172);
+    });
+
+    it('should add SCX fine scroll', () => {
+      memory.write8(0xFF43, 3);
+      expect(measureMode3End()).toBe(80 + 172 + 3);
+    });
+
+    it('should add 6 dots for the window', () => {
+      memory.write8(0xFF40, 0xB3);
+      memory.write8(0xFF4B, 87);
+      expect(measureMode3End()).toBe(80 + 172 + 6);
+    });
+
+    it('should add 11 dots for a sprite at the start of a tile', () => {
+      writeSprite(memory, 0, 0, 0, 0, 0);
+      expect(measureMode3End()).toBe(80 + 172 + 11);
+    });
+
+    it('should add less for a sprite later in the tile', () => {
+      writeSprite(memory, 0, 5, 0, 0, 0);
+      expect(measureMode3End()).toBe(80 + 172 + 6);
+    });
+
+    it('should add 6 dots for each further sprite at the same X', () => {
+      writeSprite(memory, 0, 0, 0, 0, 0);
+      writeSprite(memory, 1, 0, 0, 0, 0);
+      expect(measureMode3End()).toBe(80 + 172 + 11 + 6);
+    });
+
+    it('should not fetch sprites when they are disabled', () => {
+      writeSprite(memory, 0, 0, 0, 0, 0);
+      memory.write8(0xFF40, 0x91);
+      expect(measureMode3End()).toBe(80 + 172);
+    });
+  });
+
+  describe('save states', () => {
+    it('should resume mid-line from a saved state', () => {
+      const [reference] = renderBoth(0xF3);
+
+      const memory = new MemoryBus();
+      const ppu = new PPU(memory, { renderer: 'fifo' });
+      buildScene(memory, 0xF3);
+      ppu.step(456 * 40 + 150); // Mid mode 3
+      const writer = new StateWriter();
+      ppu.saveState(writer);
+
+      const restored = new PPU(memory, { renderer: 'fifo' });
+      buildScene(memory, 0xF3); // The constructor resets LCD registers
+      restored.loadState(new StateReader(writer.toUint8Array()));
+      renderFrame(restored);
+
+      expect(restored.getFramebuffer()).toEqual(reference);
+    });
+
+    it('should reject a state made with the other renderer', () => {
+      const memory = new MemoryBus();
+      const writer = new StateWriter();
+      new PPU(memory, { renderer: 'scanline' }).saveState(writer);
+
+      const fifo = new PPU(memory, { renderer: 'fifo' });
+      expect(() => fifo.loadState(new StateReader(writer.toUint8Array()))).toThrow(/scanline renderer/);
+    });
+  });
+});
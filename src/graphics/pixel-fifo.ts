@@ -0,0 +1,458 @@
+import { MemoryBus } from '../memory/memory-bus';
+import { StateReader, StateWriter } from '../state/state-buffer';
+import { OamSprite, readOamSprites, writeOamSprites } from './oam';
+import { applyPalette, getTileDataAddress, readSpriteRow, tilePixel } from './tiles';
+
+// Background fetcher steps: the first three take 2 dots each, the push is retried every dot
+const FETCH_TILE = 0;
+const FETCH_DATA_LOW = 1;
+const FETCH_DATA_HIGH = 2;
+const FETCH_PUSH = 3;
+
+// Dots lost at the start of mode 3 to the first tile fetch, which the hardware throws away
+const STARTUP_DOTS = 6;
+// Dots to fetch a sprite's row, plus up to MAX_SPRITE_WAIT_DOTS waiting for the
+// background fetcher to finish the tile it is on (6-11 dots per sprite)
+const SPRITE_FETCH_DOTS = 6;
+const MAX_SPRITE_WAIT_DOTS = 5;
+
+/**
+ * Per-line inputs the PPU hands the FIFO at the start of mode 3
+ */
+export interface PixelFifoLine {
+  line: number;
+  sprites: OamSprite[];     // Result of the OAM scan
+  windowTriggered: boolean; // LY has matched WY this frame
+  windowLine: number;       // Window internal line counter
+  draw: boolean;            // False runs the timing without touching the framebuffer
+}
+
+/**
+ * Pixel FIFO renderer
+ * Runs mode 3 one dot at a time like the DMG PPU: a fetcher fills an 8-pixel background
+ * FIFO from the BG or window tile map, sprites are fetched into a second FIFO when the
+ * output reaches their X, and each dot shifts one pixel out to the LCD.
+ *
+ * Registers are read as pixels are fetched and output, so SCX/SCY/LCDC/palette writes
+ * made during mode 3 take effect mid-line, and the length of mode 3 follows SCX fine
+ * scroll, the window and sprites instead of being fixed.
+ *
+ * In CGB mode the fetcher also reads each tile's map attributes from VRAM bank 1,
+ * sprites overlap by OAM index, and pixels are output as RGB555 palette colors.
+ */
+export class PixelFifo {
+  private memory: MemoryBus;
+  private framebuffer: Uint8Array;
+  private colorFramebuffer: Uint16Array;
+  private dmgColors: Uint16Array;
+
+  // Line being drawn
+  private line = 0;
+  private sprites: OamSprite[] = [];
+  private windowTriggered = false;
+  private windowLine = 0;
+  private draw = true;
+  private _x = 0; // Pixels output so far
+  private _usedWindow = false;
+
+  private startupDots = 0;
+  private discard = 0; // Pixels still to drop for SCX fine scroll or a window at WX<7
+
+  // Background/window fetcher
+  private fetcherStep = FETCH_TILE;
+  private fetcherTicks = 0;
+  private fetcherTileX = 0;
+  private tileIndex = 0;
+  private tileAttributes = 0; // CGB map attributes (0 on DMG)
+  private tileDataLow = 0;
+  private tileDataHigh = 0;
+
+  // Background FIFO: raw color indices and CGB map attributes; the fetcher only pushes when it is empty
+  private bgFifo = new Uint8Array(8);
+  private bgAttributes = new Uint8Array(8);
+  private bgHead = 0;
+  private bgLength = 0;
+
+  // Sprite FIFO: ring of color indices, OAM attributes and OAM indices in step with the background
+  private spriteColors = new Uint8Array(8);
+  private spriteAttributes = new Uint8Array(8);
+  private spriteOamIndices = new Uint8Array(8);
+  private spriteHead = 0;
+  private spriteLength = 0;
+  private spritesFetched = 0;    // Bitmask over `sprites`
+  private pendingSprite = -1;    // Index into `sprites` being fetched, or -1
+  private spriteFetchDots = 0;  // Dots left before the pending sprite is merged
+
+  private static readonly LCD_CONTROL = 0xFF40;
+  private static readonly SCROLL_Y = 0xFF42;
+  private static readonly SCROLL_X = 0xFF43;
+  private static readonly BG_PALETTE = 0xFF47;
+  private static readonly OBJ_PALETTE_0 = 0xFF48;
+  private static readonly OBJ_PALETTE_1 = 0xFF49;
+  private static readonly WINDOW_X = 0xFF4B;
+  private static readonly SCREEN_WIDTH = 160;
+
+  /**
+   * @param framebuffer DMG shades (0-3) are written here
+   * @param colorFramebuffer RGB555 colors are written here
+   * @param dmgColors RGB555 colors of the DMG shades for the background, then OBP0 and OBP1 sprites
+   */
+  constructor(memory: MemoryBus, framebuffer: Uint8Array, colorFramebuffer: Uint16Array, dmgColors: Uint16Array) {
+    this.memory = memory;
+    this.framebuffer = framebuffer;
+    this.colorFramebuffer = colorFramebuffer;
+    this.dmgColors = dmgColors;
+  }
+
+  /** Pixels output on the current line */
+  get x(): number {
+    return this._x;
+  }
+
+  /** All 160 pixels of the line have been output (mode 3 is over) */
+  get done(): boolean {
+    return this._x >= PixelFifo.SCREEN_WIDTH;
+  }
+
+  /** The window was drawn on this line, so its line counter advances */
+  get usedWindow(): boolean {
+    return this._usedWindow;
+  }
+
+  /**
+   * Reset the fetcher and FIFOs for a new line (start of mode 3)
+   */
+  startLine(params: PixelFifoLine): void {
+    this.line = params.line;
+    this.sprites = params.sprites;
+    this.windowTriggered = params.windowTriggered;
+    this.windowLine = params.windowLine;
+    this.draw = params.draw;
+    this._x = 0;
+    this._usedWindow = false;
+
+    this.startupDots = STARTUP_DOTS;
+    this.discard = this.memory.read8(PixelFifo.SCROLL_X) & 7; // Fine scroll is latched here
+
+    this.fetcherStep = FETCH_TILE;
+    this.fetcherTicks = 0;
+    this.fetcherTileX = 0;
+    this.bgHead = 0;
+    this.bgLength = 0;
+
+    this.spriteColors.fill(0);
+    this.spriteAttributes.fill(0);
+    this.spriteOamIndices.fill(0);
+    this.spriteHead = 0;
+    this.spriteLength = 0;
+    this.spritesFetched = 0;
+    this.pendingSprite = -1;
+    this.spriteFetchDots = 0;
+  }
+
+  /**
+   * Advance mode 3 by one dot
+   */
+  tick(): void {
+    if (this.done) {
+      return;
+    }
+    if (this.startupDots > 0) {
+      this.startupDots--;
+      return;
+    }
+    if (this.pendingSprite >= 0) {
+      this.stepSpriteFetch();
+      return;
+    }
+
+    this.stepFetcher();
+    if (this.bgLength === 0) {
+      return; // Output stalls until the fetcher pushes a tile
+    }
+
+    if (!this._usedWindow && this.windowStartsHere()) {
+      this.startWindow();
+      this.stepFetcher(); // The window's first fetch starts on this dot
+      return;
+    }
+
+    if (this.discard > 0) {
+      this.shiftBackground();
+      this.discard--;
+      return;
+    }
+
+    if (this.memory.read8(PixelFifo.LCD_CONTROL) & 0x02) {
+      const sprite = this.findSpriteAt(this._x);
+      if (sprite >= 0) {
+        // No wait once the background tile is fetched, e.g. for a second sprite at the same X
+        const tilePixelsOut = 8 - this.bgLength;
+        const wait = this.fetcherStep === FETCH_PUSH ? 0 : MAX_SPRITE_WAIT_DOTS - Math.min(MAX_SPRITE_WAIT_DOTS, tilePixelsOut);
+        this.pendingSprite = sprite;
+        this.spriteFetchDots = SPRITE_FETCH_DOTS + wait - 1; // This dot is the first
+        return;
+      }
+    }
+
+    this.outputPixel();
+  }
+
+  /**
+   * Advance the background/window fetcher by one dot
+   */
+  private stepFetcher(): void {
+    if (this.fetcherStep === FETCH_PUSH) {
+      if (this.bgLength === 0) {
+        const flipX = (this.tileAttributes & 0x20) !== 0;
+        for (let i = 0; i < 8; i++) {
+          this.bgFifo[i] = tilePixel(this.tileDataLow, this.tileDataHigh, flipX ? i : 7 - i);
+        }
+        this.bgAttributes.fill(this.tileAttributes);
+        this.bgHead = 0;
+        this.bgLength = 8;
+        this.fetcherTileX++;
+        this.fetcherStep = FETCH_TILE;
+      }
+      return;
+    }
+
+    if (++this.fetcherTicks < 2) {
+      return;
+    }
+    this.fetcherTicks = 0;
+
+    const lcdControl = this.memory.read8(PixelFifo.LCD_CONTROL);
+    const backgroundY = (this.line + this.memory.read8(PixelFifo.SCROLL_Y)) & 0xFF;
+    if (this.fetcherStep === FETCH_TILE) {
+      let tileMapAddress;
+      if (this._usedWindow) {
+        const tileMapBase = (lcdControl & 0x40) ? 0x9C00 : 0x9800;
+        tileMapAddress = tileMapBase + ((this.windowLine >> 3) * 32) + (this.fetcherTileX & 31);
+      } else {
+        const tileMapBase = (lcdControl & 0x08) ? 0x9C00 : 0x9800;
+        const tileCol = ((this.memory.read8(PixelFifo.SCROLL_X) >> 3) + this.fetcherTileX) & 31;
+        tileMapAddress = tileMapBase + ((backgroundY >> 3) * 32) + tileCol;
+      }
+      this.tileIndex = this.memory.readVram(tileMapAddress);
+      this.tileAttributes = this.memory.cgbMode ? this.memory.readVram(tileMapAddress, 1) : 0;
+      this.fetcherStep = FETCH_DATA_LOW;
+    } else {
+      let tileRowOffset = this._usedWindow ? (this.windowLine & 7) : (backgroundY & 7);
+      if (this.tileAttributes & 0x40) {
+        tileRowOffset = 7 - tileRowOffset; // CGB Y flip
+      }
+      const address = getTileDataAddress(this.tileIndex, (lcdControl & 0x10) !== 0) + (tileRowOffset * 2);
+      const bank = (this.tileAttributes >> 3) & 1;
+      if (this.fetcherStep === FETCH_DATA_LOW) {
+        this.tileDataLow = this.memory.readVram(address, bank);
+        this.fetcherStep = FETCH_DATA_HIGH;
+      } else {
+        this.tileDataHigh = this.memory.readVram(address + 1, bank);
+        this.fetcherStep = FETCH_PUSH;
+      }
+    }
+  }
+
+  /**
+   * The window starts when the output reaches WX-7 (or the left edge for WX<7)
+   * on a frame where LY has matched WY
+   */
+  private windowStartsHere(): boolean {
+    if (!this.windowTriggered || (this.memory.read8(PixelFifo.LCD_CONTROL) & 0x20) === 0) {
+      return false;
+    }
+    return this._x === Math.max(0, this.memory.read8(PixelFifo.WINDOW_X) - 7);
+  }
+
+  /**
+   * Switch the fetcher to the window: the background FIFO is flushed and refilled
+   * from the window tile map, costing a full tile fetch
+   */
+  private startWindow(): void {
+    this._usedWindow = true;
+    this.bgLength = 0;
+    this.fetcherStep = FETCH_TILE;
+    this.fetcherTicks = 0;
+    this.fetcherTileX = 0;
+    // WX<7 hides the window's first 7-WX columns instead of any remaining fine scroll
+    this.discard = Math.max(0, 7 - this.memory.read8(PixelFifo.WINDOW_X));
+  }
+
+  /**
+   * Find the next unfetched sprite starting at this X; sprites partly off the
+   * left edge are fetched at X=0, leftmost first. Ties go to the lower OAM index.
+   */
+  private findSpriteAt(x: number): number {
+    let found = -1;
+    for (let i = 0; i < this.sprites.length; i++) {
+      const spriteX = this.sprites[i].x;
+      if ((this.spritesFetched & (1 << i)) !== 0 || !(spriteX === x || (x === 0 && spriteX < 0 && spriteX > -8))) {
+        continue;
+      }
+      if (found < 0 || spriteX < this.sprites[found].x) {
+        found = i; // `sprites` is in OAM order, so equal X keeps the first
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Advance a sprite fetch by one dot, merging the sprite's row into the sprite FIFO on the last
+   */
+  private stepSpriteFetch(): void {
+    this.stepFetcher(); // The background fetcher finishes its tile meanwhile
+    if (--this.spriteFetchDots > 0) {
+      return;
+    }
+
+    const sprite = this.sprites[this.pendingSprite];
+    const spriteHeight = (this.memory.read8(PixelFifo.LCD_CONTROL) & 0x04) ? 16 : 8;
+    const [low, high] = readSpriteRow(this.memory, sprite, this.line, spriteHeight);
+    const flipX = (sprite.attributes & 0x20) !== 0;
+    const skip = sprite.x < 0 ? -sprite.x : 0;
+
+    // Only transparent slots are filled, so sprites fetched earlier keep priority;
+    // on CGB a sprite with a lower OAM index takes over the slot anyway
+    const cgb = this.memory.cgbMode;
+    for (let pixelX = skip; pixelX < 8; pixelX++) {
+      const slot = (this.spriteHead + pixelX - skip) & 7;
+      const color = tilePixel(low, high, flipX ? pixelX : 7 - pixelX);
+      if (this.spriteColors[slot] === 0 || (cgb && color !== 0 && sprite.oamIndex < this.spriteOamIndices[slot])) {
+        this.spriteColors[slot] = color;
+        this.spriteAttributes[slot] = sprite.attributes;
+        this.spriteOamIndices[slot] = sprite.oamIndex;
+      }
+    }
+    this.spriteLength = Math.max(this.spriteLength, 8 - skip);
+
+    this.spritesFetched |= 1 << this.pendingSprite;
+    this.pendingSprite = -1;
+  }
+
+  private shiftBackground(): number {
+    this.bgLength--;
+    return this.bgFifo[this.bgHead++];
+  }
+
+  /**
+   * Map attributes of the pixel last shifted out of the background FIFO
+   */
+  private lastBackgroundAttributes(): number {
+    return this.bgAttributes[this.bgHead - 1];
+  }
+
+  /**
+   * Shift one pixel out of both FIFOs, mix them and write the shade (or CGB color) to the framebuffer
+   */
+  private outputPixel(): void {
+    const lcdControl = this.memory.read8(PixelFifo.LCD_CONTROL);
+    const cgb = this.memory.cgbMode;
+    let bgColor = this.shiftBackground();
+    const bgAttributes = this.lastBackgroundAttributes();
+    if ((lcdControl & 0x01) === 0 && !cgb) {
+      bgColor = 0; // LCDC bit 0 blanks the background and window on DMG
+    }
+
+    let spriteColor = 0;
+    let spriteAttributes = 0;
+    if (this.spriteLength > 0) {
+      spriteColor = this.spriteColors[this.spriteHead];
+      spriteAttributes = this.spriteAttributes[this.spriteHead];
+      this.spriteColors[this.spriteHead] = 0;
+      this.spriteHead = (this.spriteHead + 1) & 7;
+      this.spriteLength--;
+    }
+
+    // On CGB the BG map attributes can also claim priority, unless LCDC bit 0 is clear
+    const bgPriority = cgb
+      ? (lcdControl & 0x01) !== 0 && ((spriteAttributes | bgAttributes) & 0x80) !== 0
+      : (spriteAttributes & 0x80) !== 0;
+    const spriteWins = spriteColor !== 0 && (lcdControl & 0x02) !== 0 && (!bgPriority || bgColor === 0);
+
+    if (this.draw) {
+      const index = (this.line * PixelFifo.SCREEN_WIDTH) + this._x;
+      if (cgb) {
+        this.colorFramebuffer[index] = spriteWins
+          ? this.memory.readObjPaletteColor(spriteAttributes & 7, spriteColor)
+          : this.memory.readBgPaletteColor(bgAttributes & 7, bgColor);
+      } else if (spriteWins) {
+        const palette = (spriteAttributes & 0x10) ? 1 : 0;
+        const shade = applyPalette(this.memory.read8(palette ? PixelFifo.OBJ_PALETTE_1 : PixelFifo.OBJ_PALETTE_0), spriteColor);
+        this.framebuffer[index] = shade;
+        this.colorFramebuffer[index] = this.dmgColors[4 + (palette * 4) + shade];
+      } else {
+        const shade = applyPalette(this.memory.read8(PixelFifo.BG_PALETTE), bgColor);
+        this.framebuffer[index] = shade;
+        this.colorFramebuffer[index] = this.dmgColors[shade];
+      }
+    }
+    this._x++;
+  }
+
+  saveState(writer: StateWriter): void {
+    writer.section('FIFO', () => {
+      writer.u8(this.line);
+      writeOamSprites(writer, this.sprites);
+      writer.bool(this.windowTriggered);
+      writer.u8(this.windowLine);
+      writer.bool(this.draw);
+      writer.u8(this._x);
+      writer.bool(this._usedWindow);
+      writer.u8(this.startupDots);
+      writer.u8(this.discard);
+      writer.u8(this.fetcherStep);
+      writer.u8(this.fetcherTicks);
+      writer.u8(this.fetcherTileX);
+      writer.u8(this.tileIndex);
+      writer.u8(this.tileAttributes);
+      writer.u8(this.tileDataLow);
+      writer.u8(this.tileDataHigh);
+      writer.bytes(this.bgFifo);
+      writer.bytes(this.bgAttributes);
+      writer.u8(this.bgHead);
+      writer.u8(this.bgLength);
+      writer.bytes(this.spriteColors);
+      writer.bytes(this.spriteAttributes);
+      writer.bytes(this.spriteOamIndices);
+      writer.u8(this.spriteHead);
+      writer.u8(this.spriteLength);
+      writer.u16(this.spritesFetched);
+      writer.u8(this.pendingSprite + 1);
+      writer.u8(this.spriteFetchDots);
+    });
+  }
+
+  loadState(reader: StateReader): void {
+    reader.section('FIFO', () => {
+      this.line = reader.u8();
+      this.sprites = readOamSprites(reader);
+      this.windowTriggered = reader.bool();
+      this.windowLine = reader.u8();
+      this.draw = reader.bool();
+      this._x = reader.u8();
+      this._usedWindow = reader.bool();
+      this.startupDots = reader.u8();
+      this.discard = reader.u8();
+      this.fetcherStep = reader.u8();
+      this.fetcherTicks = reader.u8();
+      this.fetcherTileX = reader.u8();
+      this.tileIndex = reader.u8();
+      this.tileAttributes = reader.u8();
+      this.tileDataLow = reader.u8();
+      this.tileDataHigh = reader.u8();
+      reader.bytesInto(this.bgFifo);
+      reader.bytesInto(this.bgAttributes);
+      this.bgHead = reader.u8();
+      this.bgLength = reader.u8();
+      reader.bytesInto(this.spriteColors);
+      reader.bytesInto(this.spriteAttributes);
+      reader.bytesInto(this.spriteOamIndices);
+      this.spriteHead = reader.u8();
+      this.spriteLength = reader.u8();
+      this.spritesFetched = reader.u16();
+      this.pendingSprite = reader.u8() - 1;
+      this.spriteFetchDots = reader.u8();
+    });
+  }
+}
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { PPU } from './ppu';
 import { MemoryBus } from '../memory/memory-bus';
+import { DMG_SHADES, rgb555 } from './colors';
+import { PALETTE_COMBOS } from './compatibility-palettes';
 
 describe('PPU', () => {
   let ppu: PPU;
@@ -111,4 +113,918 @@ describe('PPU', () => {
       expect(framebuffer.length).toBe(160 * 144); // One value per pixel
     });
   });
+
+  describe('window rendering', () => {
+    /**
+     * Fill a tile (at 0x8000 + index * 16) with a single color
+     */
+    function writeSolidTile(index: number, color: number): void {
+      for (let row = 0; row < 8; row++) {
+        memory.write8(0x8000 + (index * 16) + (row * 2), (color & 1) ? 0xFF : 0x00);
+        memory.write8(0x8000 + (index * 16) + (row * 2) + 1, (color & 2) ? 0xFF : 0x00);
+      }
+    }
+
+    /**
+     * Render scanlines by running the PPU one full line at a time
+     */
+    function renderLines(count: number): void {
+      for (let i = 0; i < count; i++) {
+        ppu.step(456);
+      }
+    }
+
+    function pixel(x: number, y: number): number {
+      return ppu.getFramebuffer()[(y * 160) + x];
+    }
+
+    beforeEach(() => {
+      writeSolidTile(0, 0); // Background (map 0x9800 is all tile 0)
+      writeSolidTile(1, 1);
+      writeSolidTile(2, 2);
+      writeSolidTile(3, 3);
+      memory.write8(0xFF47, 0xE4); // Identity palette
+      for (let i = 0; i < 0x400; i++) {
+        memory.write8(0x9C00 + i, 1); // Window map: tile 1 everywhere
+      }
+      memory.write8(0xFF40, 0xF1); // LCD, window (map 0x9C00), unsigned tile data, BG on
+      memory.write8(0xFF4A, 0x00); // WY
+      memory.write8(0xFF4B, 0x07); // WX
+    });
+
+    it('should not draw the window when LCDC bit 5 is clear', () => {
+      memory.write8(0xFF40, 0xD1);
+      renderLines(1);
+      expect(pixel(0, 0)).toBe(0);
+    });
+
+    it('should cover the whole line from the left edge when WX is 7', () => {
+      renderLines(1);
+      expect(pixel(0, 0)).toBe(1);
+      expect(pixel(159, 0)).toBe(1);
+    });
+
+    it('should place the window at (WX-7, WY)', () => {
+      memory.write8(0xFF4A, 72);
+      memory.write8(0xFF4B, 87);
+      renderLines(144);
+
+      expect(pixel(80, 71)).toBe(0);
+      expect(pixel(79, 72)).toBe(0);
+      expect(pixel(80, 72)).toBe(1);
+      expect(pixel(159, 143)).toBe(1);
+    });
+
+    it('should use the tile map selected by LCDC bit 6', () => {
+      memory.write8(0x9800, 2);
+      memory.write8(0xFF40, 0xB1); // Window map 0x9800
+      renderLines(1);
+      expect(pixel(0, 0)).toBe(2); // Window tile from 0x9800
+      expect(pixel(8, 0)).toBe(0);
+    });
+
+    it('should clip the first 7-WX window columns when WX is below 7', () => {
+      // Tile 4: left half color 2, right half color 3
+      for (let row = 0; row < 8; row++) {
+        memory.write8(0x8040 + (row * 2), 0x0F);
+        memory.write8(0x8041 + (row * 2), 0xFF);
+      }
+      memory.write8(0x9C00, 4);
+      memory.write8(0xFF4B, 3); // Window starts 4 pixels left of the screen
+      renderLines(1);
+
+      expect(pixel(0, 0)).toBe(3); // Window column 4
+      expect(pixel(3, 0)).toBe(3); // Window column 7
+      expect(pixel(4, 0)).toBe(1); // Window column 8 (second tile)
+    });
+
+    it('should hide the window when WX is past the right edge', () => {
+      memory.write8(0xFF4B, 167);
+      renderLines(1);
+      expect(pixel(159, 0)).toBe(0);
+
+      memory.write8(0xFF4B, 166);
+      renderLines(1);
+      expect(pixel(158, 1)).toBe(0);
+      expect(pixel(159, 1)).toBe(1);
+    });
+
+    it('should hide the window along with the background when LCDC bit 0 is clear', () => {
+      memory.write8(0xFF40, 0xF0);
+      renderLines(1);
+      expect(pixel(0, 0)).toBe(0);
+    });
+
+    it('should only advance the window line counter on lines where the window is drawn', () => {
+      // Window map rows: row 0 tile 1, row 1 tile 2, row 2 tile 3
+      for (let x = 0; x < 32; x++) {
+        memory.write8(0x9C00 + x, 1);
+        memory.write8(0x9C20 + x, 2);
+        memory.write8(0x9C40 + x, 3);
+      }
+
+      renderLines(4);                // Window lines 0-3
+      memory.write8(0xFF40, 0xD1);   // Disable the window for 10 lines
+      renderLines(10);
+      memory.write8(0xFF40, 0xF1);
+      renderLines(6);                // Lines 14-19 show window lines 4-9
+
+      expect(pixel(0, 3)).toBe(1);
+      expect(pixel(0, 10)).toBe(0);
+      expect(pixel(0, 17)).toBe(1); // Window line 7, still the first tile row
+      expect(pixel(0, 18)).toBe(2); // Window line 8
+    });
+
+    it('should not advance the window line counter while WX hides the window', () => {
+      for (let x = 0; x < 32; x++) {
+        memory.write8(0x9C20 + x, 2);
+      }
+      memory.write8(0xFF4B, 200);
+      renderLines(8);
+      memory.write8(0xFF4B, 7);
+      renderLines(1);
+      expect(pixel(0, 8)).toBe(1); // Window line 0, not 8
+    });
+
+    it('should show the window from the line where LY matches a mid-frame WY', () => {
+      memory.write8(0xFF4A, 200); // Never matches
+      renderLines(50);
+      memory.write8(0xFF4A, 60);
+      renderLines(20);
+
+      expect(pixel(0, 59)).toBe(0);
+      expect(pixel(0, 60)).toBe(1);
+    });
+
+    it('should keep the window visible when WY moves below LY after triggering', () => {
+      memory.write8(0xFF4A, 10);
+      renderLines(20);
+      memory.write8(0xFF4A, 100);
+      renderLines(10);
+
+      expect(pixel(0, 9)).toBe(0);
+      expect(pixel(0, 25)).toBe(1);
+    });
+
+    it('should reset the window at the start of each frame', () => {
+      memory.write8(0xFF4A, 10);
+      renderLines(154);               // Full frame, window triggered at line 10
+      memory.write8(0xFF4A, 200);
+      renderLines(20);
+      expect(pixel(0, 15)).toBe(0);
+    });
+  });
+
+  describe('palettes', () => {
+    /**
+     * Fill a tile (at 0x8000 + index * 16) with a single color
+     */
+    function writeSolidTile(index: number, color: number): void {
+      for (let row = 0; row < 8; row++) {
+        memory.write8(0x8000 + (index * 16) + (row * 2), (color & 1) ? 0xFF : 0x00);
+        memory.write8(0x8000 + (index * 16) + (row * 2) + 1, (color & 2) ? 0xFF : 0x00);
+      }
+    }
+
+    /**
+     * Place an 8x8 sprite at the top-left of the screen
+     */
+    function writeSprite(oamIndex: number, x: number, tileIndex: number, attributes: number): void {
+      const address = 0xFE00 + (oamIndex * 4);
+      memory.write8(address, 16);
+      memory.write8(address + 1, x + 8);
+      memory.write8(address + 2, tileIndex);
+      memory.write8(address + 3, attributes);
+    }
+
+    function pixel(x: number, y: number): number {
+      return ppu.getFramebuffer()[(y * 160) + x];
+    }
+
+    beforeEach(() => {
+      writeSolidTile(0, 0);
+      writeSolidTile(1, 1);
+      writeSolidTile(2, 2);
+      writeSolidTile(3, 3);
+      memory.write8(0xFF40, 0x93); // LCD, sprites, unsigned tile data, BG on
+      memory.write8(0xFF47, 0xE4);
+      memory.write8(0xFF48, 0xE4);
+      memory.write8(0xFF49, 0xE4);
+    });
+
+    it('should map background colors through BGP', () => {
+      memory.write8(0x9800, 1);
+      memory.write8(0x9801, 2);
+      memory.write8(0x9802, 3);
+      memory.write8(0xFF47, 0x1B); // Inverted: 0->3, 1->2, 2->1, 3->0
+      ppu.step(456);
+
+      expect(pixel(0, 0)).toBe(2);
+      expect(pixel(8, 0)).toBe(1);
+      expect(pixel(16, 0)).toBe(0);
+      expect(pixel(24, 0)).toBe(3);
+    });
+
+    it('should pick up BGP changes on the next line', () => {
+      memory.write8(0x9800, 3);
+      ppu.step(456);
+      memory.write8(0xFF47, 0x00); // Faded to white
+      ppu.step(456);
+
+      expect(pixel(0, 0)).toBe(3);
+      expect(pixel(0, 1)).toBe(0);
+    });
+
+    it('should map window colors through BGP', () => {
+      memory.write8(0x9C00, 3);
+      memory.write8(0xFF40, 0xF3); // Window on, map 0x9C00
+      memory.write8(0xFF4A, 0);
+      memory.write8(0xFF4B, 7);
+      memory.write8(0xFF47, 0x40); // Color 3 -> shade 1
+      ppu.step(456);
+
+      expect(pixel(0, 0)).toBe(1);
+    });
+
+    it('should map sprite colors through OBP0 or OBP1 selected by attribute bit 4', () => {
+      writeSprite(0, 0, 3, 0x00);
+      writeSprite(1, 8, 3, 0x10);
+      memory.write8(0xFF48, 0x40); // Color 3 -> shade 1
+      memory.write8(0xFF49, 0x80); // Color 3 -> shade 2
+      ppu.step(456);
+
+      expect(pixel(0, 0)).toBe(1);
+      expect(pixel(8, 0)).toBe(2);
+    });
+
+    it('should keep sprite color 0 transparent whatever the palette maps it to', () => {
+      memory.write8(0x9800, 2);
+      writeSprite(0, 0, 0, 0x00);
+      memory.write8(0xFF48, 0xFF); // Color 0 -> shade 3
+      ppu.step(456);
+
+      expect(pixel(0, 0)).toBe(2);
+    });
+
+    it('should draw behind-BG sprites over BG color 0 even when BGP maps it to a dark shade', () => {
+      writeSprite(0, 0, 1, 0x80);
+      memory.write8(0xFF47, 0xFF); // Every BG color -> shade 3
+      memory.write8(0xFF48, 0x00); // Sprite color 1 -> shade 0
+      ppu.step(456);
+
+      expect(pixel(0, 0)).toBe(0);
+    });
+
+    it('should hide behind-BG sprites under BG colors 1-3 even when BGP maps them to white', () => {
+      memory.write8(0x9800, 1);
+      writeSprite(0, 0, 3, 0x80);
+      memory.write8(0xFF47, 0x00); // Every BG color -> shade 0
+      ppu.step(456);
+
+      expect(pixel(0, 0)).toBe(0);
+    });
+
+    it('should treat the background as color 0 for sprite priority when LCDC bit 0 is clear', () => {
+      memory.write8(0x9800, 3);
+      writeSprite(0, 0, 2, 0x80);
+      memory.write8(0xFF40, 0x92);
+      ppu.step(456);
+
+      expect(pixel(0, 0)).toBe(2);
+    });
+  });
+
+  describe('STAT interrupt', () => {
+    function statInterruptRequested(): boolean {
+      return (memory.read8(0xFF0F) & 0x02) !== 0;
+    }
+
+    function clearInterrupts(): void {
+      memory.write8(0xFF0F, 0x00);
+    }
+
+    /**
+     * Step 4 cycles at a time (like short CPU instructions) until the given line and mode
+     */
+    function stepUntil(line: number, mode: number): void {
+      for (let i = 0; i < 70224 * 2 && !(ppu.currentLine === line && ppu.mode === mode); i++) {
+        ppu.step(4);
+      }
+    }
+
+    beforeEach(() => {
+      memory.write8(0xFF45, 0xFF); // LYC never matches
+      ppu.step(4);
+      clearInterrupts();
+    });
+
+    it('should not request the interrupt when no source is enabled', () => {
+      memory.write8(0xFF45, 2);
+      stepUntil(144, 1);
+      expect(statInterruptRequested()).toBe(false);
+    });
+
+    it('should request the interrupt on entering H-blank when STAT bit 3 is set', () => {
+      memory.write8(0xFF41, 0x08);
+      stepUntil(0, 3);
+      expect(statInterruptRequested()).toBe(false);
+      stepUntil(0, 0);
+      expect(statInterruptRequested()).toBe(true);
+    });
+
+    it('should request the interrupt on entering V-blank when STAT bit 4 is set', () => {
+      memory.write8(0xFF41, 0x10);
+      stepUntil(143, 0);
+      expect(statInterruptRequested()).toBe(false);
+      stepUntil(144, 1);
+      expect(statInterruptRequested()).toBe(true);
+    });
+
+    it('should request the interrupt on entering OAM search when STAT bit 5 is set', () => {
+      memory.write8(0xFF41, 0x20);
+      stepUntil(0, 0);
+      clearInterrupts();
+      stepUntil(1, 2);
+      expect(statInterruptRequested()).toBe(true);
+    });
+
+    it('should request the interrupt once when LY matches LYC and STAT bit 6 is set', () => {
+      memory.write8(0xFF41, 0x40);
+      memory.write8(0xFF45, 5);
+      stepUntil(4, 0);
+      expect(statInterruptRequested()).toBe(false);
+
+      stepUntil(5, 2);
+      expect(statInterruptRequested()).toBe(true);
+      expect(memory.read8(0xFF41) & 0x04).toBe(0x04);
+
+      clearInterrupts();
+      stepUntil(5, 0);
+      expect(statInterruptRequested()).toBe(false);
+    });
+
+    it('should clear the coincidence flag once LY moves past LYC', () => {
+      memory.write8(0xFF45, 5);
+      stepUntil(5, 2);
+      expect(memory.read8(0xFF41) & 0x04).toBe(0x04);
+      stepUntil(6, 2);
+      expect(memory.read8(0xFF41) & 0x04).toBe(0);
+    });
+
+    it('should keep the mode bits in STAT up to date', () => {
+      stepUntil(0, 3);
+      expect(memory.read8(0xFF41) & 0x03).toBe(3);
+      stepUntil(144, 1);
+      expect(memory.read8(0xFF41) & 0x03).toBe(1);
+    });
+
+    it('should block a new source while another holds the STAT line high', () => {
+      // H-blank of line 0 holds the line high into the LY=LYC match of line 1
+      memory.write8(0xFF41, 0x48);
+      memory.write8(0xFF45, 1);
+      stepUntil(0, 0);
+      expect(statInterruptRequested()).toBe(true);
+
+      clearInterrupts();
+      stepUntil(1, 3);
+      expect(statInterruptRequested()).toBe(false);
+    });
+
+    it('should fire for the LYC match when the line was low before it', () => {
+      memory.write8(0xFF41, 0x40);
+      memory.write8(0xFF45, 1);
+      stepUntil(0, 0);
+      expect(statInterruptRequested()).toBe(false);
+      stepUntil(1, 3);
+      expect(statInterruptRequested()).toBe(true);
+    });
+
+    it('should fire once per H-blank across consecutive lines', () => {
+      memory.write8(0xFF41, 0x08);
+      let count = 0;
+      for (let i = 0; i < (456 * 3) / 4; i++) {
+        ppu.step(4);
+        if (statInterruptRequested()) {
+          count++;
+          clearInterrupts();
+        }
+      }
+      expect(count).toBe(3);
+    });
+  });
+
+  describe('LCD off', () => {
+    function stepLines(count: number): void {
+      for (let i = 0; i < count; i++) {
+        ppu.step(456);
+      }
+    }
+
+    beforeEach(() => {
+      // Solid color 3 background
+      for (let i = 0; i < 16; i++) {
+        memory.write8(0x8000 + i, 0xFF);
+      }
+      memory.write8(0xFF47, 0xE4);
+    });
+
+    it('should reset LY and the STAT mode when LCDC bit 7 is cleared mid-frame', () => {
+      stepLines(50);
+      ppu.step(100); // Mode 3
+      memory.write8(0xFF40, 0x11);
+      ppu.step(4);
+
+      expect(ppu.currentLine).toBe(0);
+      expect(ppu.mode).toBe(0);
+      expect(memory.read8(0xFF44)).toBe(0);
+      expect(memory.read8(0xFF41) & 0x03).toBe(0);
+    });
+
+    it('should stop the PPU clock while the LCD is off', () => {
+      memory.write8(0xFF41, 0x78); // All STAT sources
+      memory.write8(0xFF40, 0x11);
+      ppu.step(4);
+      memory.write8(0xFF0F, 0x00);
+
+      stepLines(200);
+
+      expect(ppu.currentLine).toBe(0);
+      expect(ppu.vblankRequested).toBe(false);
+      expect(memory.read8(0xFF0F)).toBe(0);
+    });
+
+    it('should present a blank frame while the LCD is off', () => {
+      stepLines(154);
+      expect(ppu.getFramebuffer()[0]).toBe(3);
+
+      memory.write8(0xFF40, 0x11);
+      ppu.step(4);
+      expect(ppu.getFramebuffer().every((shade) => shade === 0)).toBe(true);
+    });
+
+    it('should stay off without being switched back on', () => {
+      memory.write8(0xFF40, 0x11);
+      for (let i = 0; i < 200000; i += 456) {
+        ppu.step(456);
+      }
+      expect(memory.read8(0xFF40)).toBe(0x11);
+    });
+
+    it('should restart from line 0 reporting mode 0 instead of OAM search', () => {
+      stepLines(50);
+      memory.write8(0xFF40, 0x11);
+      ppu.step(4);
+      memory.write8(0xFF40, 0x91);
+      ppu.step(4);
+
+      expect(ppu.currentLine).toBe(0);
+      expect(ppu.mode).toBe(0);
+      ppu.step(80);
+      expect(ppu.mode).toBe(3);
+
+      // Later lines go through OAM search as usual
+      ppu.step(456 - 84);
+      expect(ppu.currentLine).toBe(1);
+      ppu.step(4);
+      expect(ppu.mode).toBe(2);
+    });
+
+    it('should not show the first frame after the LCD is switched back on', () => {
+      memory.write8(0xFF40, 0x11);
+      ppu.step(4);
+      memory.write8(0xFF40, 0x91);
+
+      stepLines(144);
+      expect(ppu.vblankRequested).toBe(true);
+      expect(ppu.getFramebuffer()[0]).toBe(0);
+
+      stepLines(10);
+      stepLines(144);
+      expect(ppu.getFramebuffer()[0]).toBe(3);
+    });
+  });
+
+  describe('mode 3 length', () => {
+    /**
+     * Dots from the start of the first line until H-blank
+     */
+    function measureHBlankStart(target: PPU): number {
+      let dots = 0;
+      while (target.mode !== 0) {
+        target.step(1);
+        dots++;
+      }
+      return dots;
+    }
+
+    function writeSprite(oamIndex: number, x: number): void {
+      memory.write8(0xFE00 + (oamIndex * 4), 16);
+      memory.write8(0xFE00 + (oamIndex * 4) + 1, x + 8);
+    }
+
+    beforeEach(() => {
+      memory.write8(0xFF40, 0x93); // Sprites on, window off
+      memory.write8(0xFF4A, 0);
+    });
+
+    it('should start H-blank after 172 dots of mode 3 on a plain line', () => {
+      expect(measureHBlankStart(ppu)).toBe(80 + 172);
+    });
+
+    it('should lengthen mode 3 by SCX fine scroll', () => {
+      memory.write8(0xFF43, 0x0D); // SCX & 7 = 5
+      expect(measureHBlankStart(ppu)).toBe(80 + 172 + 5);
+    });
+
+    it('should lengthen mode 3 when the window starts on the line', () => {
+      memory.write8(0xFF40, 0xB3);
+      memory.write8(0xFF4B, 87);
+      expect(measureHBlankStart(ppu)).toBe(80 + 172 + 6);
+    });
+
+    it('should lengthen mode 3 for each sprite on the line', () => {
+      writeSprite(0, 0);  // Start of a tile: 11 dots
+      writeSprite(1, 4);  // Same tile: 6 dots
+      writeSprite(2, 42); // Two pixels into a tile: 9 dots
+      expect(measureHBlankStart(ppu)).toBe(80 + 172 + 11 + 6 + 9);
+    });
+
+    it('should not count sprites when they are disabled', () => {
+      writeSprite(0, 0);
+      memory.write8(0xFF40, 0x91);
+      expect(measureHBlankStart(ppu)).toBe(80 + 172);
+    });
+
+    it('should raise the H-blank STAT interrupt when mode 3 actually ends', () => {
+      writeSprite(0, 0);
+      memory.write8(0xFF41, 0x08);
+      memory.write8(0xFF0F, 0x00);
+      ppu.step(80 + 172 + 10);
+      expect(memory.read8(0xFF0F) & 0x02).toBe(0);
+      ppu.step(1);
+      expect(memory.read8(0xFF0F) & 0x02).toBe(0x02);
+    });
+
+    it('should agree with the pixel FIFO renderer', () => {
+      const configurations = [
+        { scx: 3, wx: 255, sprites: [] },
+        { scx: 6, wx: 255, sprites: [0, 1, 2, 3] },
+        { scx: 2, wx: 40, sprites: [10, 35, 36, 60, 150] },
+        { scx: 7, wx: 7, sprites: [0, 20, 21, 22] },
+        { scx: 5, wx: 3, sprites: [-3, 9, 80, 81, 82, 83, 84, 85, 86, 159] },
+        { scx: 1, wx: 166, sprites: [158, 159, 100] },
+      ];
+
+      for (const { scx, wx, sprites } of configurations) {
+        const measured = (['scanline', 'fifo'] as const).map((renderer) => {
+          memory = new MemoryBus();
+          const target = new PPU(memory, { renderer });
+          memory.write8(0xFF40, 0xB3);
+          memory.write8(0xFF43, scx);
+          memory.write8(0xFF4A, 0);
+          memory.write8(0xFF4B, wx);
+          sprites.forEach((x, i) => writeSprite(i, x));
+          return measureHBlankStart(target);
+        });
+        expect(measured[0], `SCX=${scx} WX=${wx} sprites=${sprites}`).toBe(measured[1]);
+      }
+    });
+  });
+
+  describe('sprite priority', () => {
+    /**
+     * Fill a tile (at 0x8000 + index * 16) with a single color
+     */
+    function writeSolidTile(index: number, color: number): void {
+      for (let row = 0; row < 8; row++) {
+        memory.write8(0x8000 + (index * 16) + (row * 2), (color & 1) ? 0xFF : 0x00);
+        memory.write8(0x8000 + (index * 16) + (row * 2) + 1, (color & 2) ? 0xFF : 0x00);
+      }
+    }
+
+    function writeSprite(oamIndex: number, x: number, y: number, tileIndex: number, attributes = 0): void {
+      const address = 0xFE00 + (oamIndex * 4);
+      memory.write8(address, y + 16);
+      memory.write8(address + 1, x + 8);
+      memory.write8(address + 2, tileIndex);
+      memory.write8(address + 3, attributes);
+    }
+
+    function pixel(x: number, y: number): number {
+      return ppu.getFramebuffer()[(y * 160) + x];
+    }
+
+    beforeEach(() => {
+      writeSolidTile(0, 0);
+      writeSolidTile(1, 1);
+      writeSolidTile(2, 2);
+      writeSolidTile(3, 3);
+      // Tile 4: left half transparent, right half color 3
+      for (let row = 0; row < 8; row++) {
+        memory.write8(0x8040 + (row * 2), 0x0F);
+        memory.write8(0x8041 + (row * 2), 0x0F);
+      }
+      for (let i = 0; i < 40; i++) {
+        writeSprite(i, 0, -16, 0); // Off screen
+      }
+      memory.write8(0xFF40, 0x93);
+      memory.write8(0xFF47, 0xE4);
+      memory.write8(0xFF48, 0xE4);
+      memory.write8(0xFF49, 0xE4);
+    });
+
+    it('should give overlapping pixels to the sprite with the lower X', () => {
+      writeSprite(0, 10, 0, 2);
+      writeSprite(1, 6, 0, 1);
+      ppu.step(456);
+
+      expect(pixel(6, 0)).toBe(1);
+      expect(pixel(13, 0)).toBe(1); // Overlap: sprite 1 is further left
+      expect(pixel(14, 0)).toBe(2);
+    });
+
+    it('should give overlapping pixels to the lower OAM index when X is equal', () => {
+      writeSprite(0, 10, 0, 2);
+      writeSprite(1, 10, 0, 1);
+      ppu.step(456);
+
+      expect(pixel(10, 0)).toBe(2);
+    });
+
+    it('should show a lower priority sprite through transparent pixels', () => {
+      writeSprite(0, 0, 0, 4);
+      writeSprite(1, 0, 0, 1);
+      ppu.step(456);
+
+      expect(pixel(0, 0)).toBe(1); // Transparent in sprite 0
+      expect(pixel(4, 0)).toBe(3);
+    });
+
+    it('should hide lower priority sprites under a behind-BG sprite that loses to the background', () => {
+      memory.write8(0x9800, 1); // BG color 1 under the sprites
+      writeSprite(0, 0, 0, 2, 0x80);
+      writeSprite(1, 2, 0, 3);
+      ppu.step(456);
+
+      expect(pixel(0, 0)).toBe(1);  // BG wins over sprite 0
+      expect(pixel(4, 0)).toBe(1);  // Sprite 0 owns the pixel, so sprite 1 is hidden too
+      expect(pixel(9, 0)).toBe(3);  // Only sprite 1 here (BG tile 1 at 0x9801 is color 0)
+    });
+
+    it('should compare behind-BG sprites against the raw BG color, not the shade', () => {
+      memory.write8(0x9800, 1);
+      memory.write8(0xFF47, 0xF0); // Colors 0 and 1 both map to shade 0
+      writeSprite(0, 0, 0, 2, 0x80);
+      writeSprite(1, 8, 0, 2, 0x80);
+      ppu.step(456);
+
+      expect(pixel(0, 0)).toBe(0); // BG color 1 (shade 0) still beats the sprite
+      expect(pixel(8, 0)).toBe(2); // BG color 0
+    });
+
+    it('should only draw the first 10 sprites on a line in OAM order', () => {
+      for (let i = 0; i < 10; i++) {
+        writeSprite(i, 20 + (i * 12), 0, 1);
+      }
+      writeSprite(10, 0, 0, 3); // Leftmost, but the 11th in OAM
+      ppu.step(456);
+
+      expect(pixel(20, 0)).toBe(1);
+      expect(pixel(128, 0)).toBe(1);
+      expect(pixel(0, 0)).toBe(0);
+    });
+
+    it('should count off-screen sprites toward the limit', () => {
+      for (let i = 0; i < 5; i++) {
+        writeSprite(i, -8, 0, 3);  // OAM X=0
+        writeSprite(i + 5, 160, 0, 3); // OAM X=168
+      }
+      writeSprite(10, 40, 0, 3);
+      ppu.step(456);
+
+      expect(pixel(40, 0)).toBe(0);
+    });
+
+    it('should not count sprites on other lines toward the limit', () => {
+      for (let i = 0; i < 10; i++) {
+        writeSprite(i, 0, 20, 3);
+      }
+      writeSprite(10, 40, 0, 3);
+      ppu.step(456);
+
+      expect(pixel(40, 0)).toBe(3);
+    });
+
+    it('should use the sprites picked during OAM search even if OAM changes later in the line', () => {
+      writeSprite(0, 40, 0, 3);
+      ppu.step(100); // Mode 3
+      writeSprite(0, 40, -16, 3);
+      ppu.step(356);
+
+      expect(pixel(40, 0)).toBe(3);
+    });
+  });
+
+  describe('CGB mode', () => {
+    const RED = rgb555(31, 0, 0);
+    const GREEN = rgb555(0, 31, 0);
+    const BLUE = rgb555(0, 0, 31);
+    const WHITE = rgb555(31, 31, 31);
+
+    function writeSolidTile(index: number, color: number, bank = 0): void {
+      memory.write8(0xFF4F, bank);
+      for (let row = 0; row < 8; row++) {
+        memory.write8(0x8000 + (index * 16) + (row * 2), (color & 1) ? 0xFF : 0x00);
+        memory.write8(0x8000 + (index * 16) + (row * 2) + 1, (color & 2) ? 0xFF : 0x00);
+      }
+      memory.write8(0xFF4F, 0);
+    }
+
+    function writeMapEntry(address: number, tileIndex: number, attributes: number): void {
+      memory.write8(address, tileIndex);
+      memory.write8(0xFF4F, 1);
+      memory.write8(address, attributes);
+      memory.write8(0xFF4F, 0);
+    }
+
+    /**
+     * Write four RGB555 colors to a palette through BCPS/BCPD or OCPS/OCPD with auto-increment
+     */
+    function writePalette(specificationRegister: number, palette: number, colors: number[]): void {
+      memory.write8(specificationRegister, 0x80 | (palette * 8));
+      for (const color of colors) {
+        memory.write8(specificationRegister + 1, color & 0xFF);
+        memory.write8(specificationRegister + 1, color >> 8);
+      }
+    }
+
+    function writeSprite(oamIndex: number, x: number, y: number, tileIndex: number, attributes = 0): void {
+      const address = 0xFE00 + (oamIndex * 4);
+      memory.write8(address, y + 16);
+      memory.write8(address + 1, x + 8);
+      memory.write8(address + 2, tileIndex);
+      memory.write8(address + 3, attributes);
+    }
+
+    function pixel(x: number, y: number): number {
+      return ppu.getColorFramebuffer()[(y * 160) + x];
+    }
+
+    beforeEach(() => {
+      memory.cgbMode = true;
+      writeSolidTile(1, 1);
+      writeSolidTile(2, 2);
+      writeSolidTile(3, 3);
+      for (let i = 0; i < 40; i++) {
+        writeSprite(i, 0, -16, 0); // Off screen
+      }
+      for (let palette = 0; palette < 8; palette++) {
+        writePalette(0xFF68, palette, [WHITE, WHITE, WHITE, WHITE]);
+      }
+      writePalette(0xFF68, 2, [WHITE, RED, GREEN, BLUE]);
+      writePalette(0xFF6A, 3, [WHITE, RED, GREEN, BLUE]);
+      writePalette(0xFF6A, 4, [WHITE, BLUE, BLUE, BLUE]);
+      memory.write8(0xFF40, 0x93);
+    });
+
+    it('should color background tiles with the palette in their map attributes', () => {
+      writeMapEntry(0x9800, 1, 0x02);
+      writeMapEntry(0x9801, 3, 0x02);
+      writeMapEntry(0x9802, 3, 0x01);
+      ppu.step(456);
+
+      expect(pixel(0, 0)).toBe(RED);
+      expect(pixel(8, 0)).toBe(BLUE);
+      expect(pixel(16, 0)).toBe(WHITE); // Palette 1
+    });
+
+    it('should fetch tile data from the VRAM bank in the map attributes', () => {
+      writeSolidTile(1, 2, 1);
+      writeMapEntry(0x9800, 1, 0x02);
+      writeMapEntry(0x9801, 1, 0x0A);
+      ppu.step(456);
+
+      expect(pixel(0, 0)).toBe(RED);
+      expect(pixel(8, 0)).toBe(GREEN);
+    });
+
+    it('should flip background tiles with the map attributes', () => {
+      memory.write8(0x8040, 0x80); // Tile 4: only the top-left pixel is color 1
+      writeMapEntry(0x9800, 4, 0x02);
+      writeMapEntry(0x9801, 4, 0x22);
+      writeMapEntry(0x9802, 4, 0x42);
+      for (let line = 0; line < 8; line++) {
+        ppu.step(456);
+      }
+
+      expect(pixel(0, 0)).toBe(RED);
+      expect(pixel(15, 0)).toBe(RED); // X flip
+      expect(pixel(8, 0)).toBe(WHITE);
+      expect(pixel(16, 7)).toBe(RED); // Y flip
+      expect(pixel(16, 0)).toBe(WHITE);
+    });
+
+    it('should color sprites with their OAM palette and VRAM bank', () => {
+      writeSolidTile(5, 1, 1);
+      writeSprite(0, 0, 0, 2, 0x03);
+      writeSprite(1, 8, 0, 5, 0x0B);
+      ppu.step(456);
+
+      expect(pixel(0, 0)).toBe(GREEN);
+      expect(pixel(8, 0)).toBe(RED);
+    });
+
+    it('should give overlapping sprites to the lower OAM index regardless of X', () => {
+      writeSprite(0, 10, 0, 1, 0x03);
+      writeSprite(1, 6, 0, 1, 0x04);
+      ppu.step(456);
+
+      expect(pixel(6, 0)).toBe(BLUE);
+      expect(pixel(10, 0)).toBe(RED); // Sprite 0 wins despite being further right
+    });
+
+    it('should put the background in front when its map attributes claim priority', () => {
+      writeMapEntry(0x9800, 1, 0x82);
+      writeMapEntry(0x9801, 0, 0x82);
+      writeSprite(0, 0, 0, 3, 0x03);
+      writeSprite(1, 8, 0, 3, 0x03);
+      ppu.step(456);
+
+      expect(pixel(0, 0)).toBe(RED);  // BG color 1 in front
+      expect(pixel(8, 0)).toBe(BLUE); // BG color 0 never hides sprites
+    });
+
+    it('should put sprites in front of everything when LCDC bit 0 is clear', () => {
+      memory.write8(0xFF40, 0x92);
+      writeMapEntry(0x9800, 1, 0x82);
+      writeMapEntry(0x9801, 1, 0x02);
+      writeSprite(0, 0, 0, 3, 0x03);
+      ppu.step(456);
+
+      expect(pixel(0, 0)).toBe(BLUE);
+      expect(pixel(8, 0)).toBe(RED); // The background is still drawn
+    });
+
+    it('should run one H-blank DMA block per visible line with either renderer', () => {
+      for (const renderer of ['scanline', 'fifo'] as const) {
+        memory = new MemoryBus();
+        memory.cgbMode = true;
+        ppu = new PPU(memory, { renderer });
+        for (let i = 0; i < 0x20; i++) {
+          memory.write8(0xC000 + i, 0xA0 + i);
+        }
+        memory.write8(0xFF51, 0xC0);
+        memory.write8(0xFF52, 0x00);
+        memory.write8(0xFF53, 0x10);
+        memory.write8(0xFF54, 0x00);
+        memory.write8(0xFF55, 0x81);
+
+        ppu.step(200); // Not yet in H-blank
+        expect(memory.read8(0xFF55), renderer).toBe(0x01);
+        ppu.step(100);
+        expect(memory.read8(0xFF55), renderer).toBe(0x00);
+        ppu.step(156);
+        ppu.step(456);
+        expect(memory.read8(0xFF55), renderer).toBe(0xFF);
+        expect(memory.read8(0x901F), renderer).toBe(0xBF);
+      }
+    });
+
+    it('should colorize DMG shades per layer with either renderer', () => {
+      const palette = PALETTE_COMBOS['up+a'].palette;
+      for (const renderer of ['scanline', 'fifo'] as const) {
+        memory = new MemoryBus();
+        ppu = new PPU(memory, { renderer });
+        ppu.setDmgPalette(palette);
+        writeSolidTile(1, 1);
+        writeSolidTile(2, 2);
+        for (let i = 0; i < 40; i++) {
+          writeSprite(i, 0, -16, 0);
+        }
+        memory.write8(0xFF47, 0xE4);
+        memory.write8(0xFF48, 0xE4);
+        memory.write8(0xFF49, 0x1B); // Reversed
+        memory.write8(0x9800, 1);
+        writeSprite(0, 8, 0, 2);
+        writeSprite(1, 16, 0, 2, 0x10);
+        memory.write8(0xFF40, 0x93);
+        ppu.step(456);
+
+        expect(pixel(0, 0), renderer).toBe(palette.bg[1]);
+        expect(pixel(8, 0), renderer).toBe(palette.obj0[2]);
+        expect(pixel(16, 0), renderer).toBe(palette.obj1[1]);
+        expect(pixel(24, 0), renderer).toBe(palette.bg[0]);
+      }
+    });
+
+    it('should tint DMG shades when not in CGB mode', () => {
+      memory.cgbMode = false;
+      memory.write8(0xFF47, 0xE4);
+      memory.write8(0x9800, 3);
+      ppu.step(456);
+
+      expect(pixel(0, 0)).toBe(DMG_SHADES[3]);
+      expect(pixel(8, 0)).toBe(DMG_SHADES[0]);
+    });
+  });
 });
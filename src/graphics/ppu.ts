@@ -1,4 +1,23 @@
 import { MemoryBus } from '../memory/memory-bus';
+import { SaveStateError, StateReader, StateWriter } from '../state/state-buffer';
+import { OamSprite, readOamSprites, scanOam, writeOamSprites } from './oam';
+import { PixelFifo } from './pixel-fifo';
+import { DMG_SHADES } from './colors';
+import { DMG_PALETTE, DmgPalette } from './compatibility-palettes';
+import { applyPalette, readBgTileRow, readSpriteRow, tilePixel } from './tiles';
+
+/**
+ * How pixels are produced:
+ * - 'scanline' draws each line in one go at the end of the line (fast)
+ * - 'fifo' runs the pixel FIFO dot by dot during mode 3, so register writes
+ *   made mid-line take effect and mode 3 length varies
+ */
+export type PPURenderer = 'scanline' | 'fifo';
+
+export interface PPUOptions {
+  /** Renderer to use (default 'scanline') */
+  renderer?: PPURenderer;
+}
 
 /**
  * Game Boy Picture Processing Unit (PPU)
@@ -10,16 +29,47 @@ export class PPU {
   
   private memory: MemoryBus;
   private framebuffer: Uint8Array; // Pixel data (0-3 for 4 shades)
+  private colorFramebuffer: Uint16Array; // RGB555 pixels: CGB palette colors, or the DMG shades colorized
+  // RGB555 colors of the DMG shades for the background, then OBP0 and OBP1 sprites (4 each)
+  private dmgColors = new Uint16Array(12);
+  // Raw BG/window color index (before BGP) and CGB map attributes of each pixel on the current line, for sprite priority
+  private bgColorIndices: Uint8Array;
+  private bgAttributes: Uint8Array;
+  // Winning sprite color index and attributes of each pixel on the current line
+  private spriteColorIndices: Uint8Array;
+  private spriteAttributes: Uint8Array;
+  private readonly fifo?: PixelFifo; // Set when using the pixel FIFO renderer
   
   // PPU state
   private _currentLine = 0;
   private _mode = 2; // Start in OAM search
   private _cycles = 0;
   private _vblankRequested = false;
+
+  // Window state: the window keeps its own line counter, which only advances on
+  // lines where the window was drawn, and only appears once LY has matched WY this frame
+  private windowLine = 0;
+  private windowTriggered = false;
+
+  // STAT interrupt line: the OR of all enabled sources. The interrupt only fires on a rising
+  // edge, so a source that becomes true while another holds the line high is blocked
+  private statLine = false;
+
+  // LCD power (LCDC bit 7) as last seen by step(). While off the PPU clock is stopped;
+  // the first frame after switching it back on is not shown
+  private lcdEnabled = true;
+  private blankFrame = false;
+
+  // Length of mode 3 on the current line, worked out when it starts (0 until then),
+  // and the sprites the OAM scan picked for it
+  private mode3Cycles = 0;
+  private lineSprites: OamSprite[] = [];
   
   // PPU timing constants (in cycles)
   private static readonly OAM_SEARCH_CYCLES = 80;
-  private static readonly PIXEL_TRANSFER_CYCLES = 172;
+  private static readonly PIXEL_TRANSFER_CYCLES = 172; // Minimum, without fine scroll, window or sprites
+  private static readonly WINDOW_CYCLES = 6; // Fetch restarted for the window
+  private static readonly SPRITE_FETCH_CYCLES = 6; // Per sprite, plus up to 5 waiting for the BG fetch
   // private static readonly HBLANK_CYCLES = 204;
   private static readonly SCANLINE_CYCLES = 456; // Total per scanline
   // private static readonly VBLANK_LINES = 10; // Lines 144-153
@@ -31,19 +81,32 @@ export class PPU {
   private static readonly SCROLL_X = 0xFF43;
   private static readonly LY = 0xFF44; // Current scanline
   private static readonly LYC = 0xFF45; // Scanline compare
+  private static readonly BG_PALETTE = 0xFF47; // BGP
+  private static readonly OBJ_PALETTE_0 = 0xFF48; // OBP0
+  private static readonly OBJ_PALETTE_1 = 0xFF49; // OBP1
+  private static readonly WINDOW_Y = 0xFF4A;
+  private static readonly WINDOW_X = 0xFF4B; // Window X position + 7
   
   // VRAM addresses
-  private static readonly TILE_DATA_0 = 0x8000; // Tiles 0-127
-  // private static readonly TILE_DATA_1 = 0x8800; // Tiles 128-255 (signed)
   private static readonly TILE_MAP_0 = 0x9800; // Background map 0
   private static readonly TILE_MAP_1 = 0x9C00; // Background map 1
 
-  constructor(memory: MemoryBus) {
+  constructor(memory: MemoryBus, options: PPUOptions = {}) {
     this.memory = memory;
     this.framebuffer = new Uint8Array(this.screenWidth * this.screenHeight);
+    this.colorFramebuffer = new Uint16Array(this.screenWidth * this.screenHeight);
+    this.bgColorIndices = new Uint8Array(this.screenWidth);
+    this.bgAttributes = new Uint8Array(this.screenWidth);
+    this.spriteColorIndices = new Uint8Array(this.screenWidth);
+    this.spriteAttributes = new Uint8Array(this.screenWidth);
+    this.setDmgPalette(DMG_PALETTE);
+    if (options.renderer === 'fifo') {
+      this.fifo = new PixelFifo(memory, this.framebuffer, this.colorFramebuffer, this.dmgColors);
+    }
     
     // Initialize framebuffer to black (value 3 = darkest)
     this.framebuffer.fill(3);
+    this.colorFramebuffer.fill(DMG_SHADES[3]);
     
     // Initialize LCD registers to post-boot state
     this.memory.write8(PPU.LCD_CONTROL, 0x91); // LCD on, background on
@@ -54,6 +117,10 @@ export class PPU {
     this.memory.write8(PPU.LYC, 0x00);
   }
 
+  get renderer(): PPURenderer {
+    return this.fifo ? 'fifo' : 'scanline';
+  }
+
   get currentLine(): number {
     return this._currentLine;
   }
@@ -70,10 +137,27 @@ export class PPU {
    * Step the PPU forward by the given number of cycles
    */
   step(cycles: number): void {
-    this._cycles += cycles;
-    
+    const lcdOn = (this.memory.read8(PPU.LCD_CONTROL) & 0x80) !== 0;
+    if (lcdOn !== this.lcdEnabled) {
+      if (lcdOn) {
+        this.switchLCDOn();
+      } else {
+        this.switchLCDOff();
+      }
+    }
+    if (!lcdOn) {
+      return;
+    }
+
     // Update LY register
     this.memory.write8(PPU.LY, this._currentLine);
+
+    if (this.fifo && this._currentLine < 144) {
+      this.stepVisibleDots(this.fifo, cycles);
+      return;
+    }
+
+    this._cycles += cycles;
     
     if (this._currentLine < 144) {
       // Visible scanlines (0-143)
@@ -91,22 +175,39 @@ export class PPU {
     if (this._cycles >= PPU.SCANLINE_CYCLES) {
       // Complete scanline, move to next
       this._cycles -= PPU.SCANLINE_CYCLES;
-      this.renderScanline();
+      if (this.mode3Cycles === 0) {
+        this.startPixelTransfer(); // Whole line in one step
+        this.memory.stepHBlankDMA();
+      } else if (this._mode !== 0) {
+        this.memory.stepHBlankDMA(); // H-blank started within this step
+      }
+      if (!this.blankFrame) {
+        this.renderScanline();
+      }
       this._currentLine++;
+      this.mode3Cycles = 0;
       
       if (this._currentLine === 144) {
         // Entering V-blank - trigger interrupt for each frame
         this._mode = 1;
         this._vblankRequested = true;
+        this.blankFrame = false;
       }
     } else {
       // Determine current mode based on cycle position
       if (this._cycles < PPU.OAM_SEARCH_CYCLES) {
-        this._mode = 2; // OAM search
-      } else if (this._cycles < PPU.OAM_SEARCH_CYCLES + PPU.PIXEL_TRANSFER_CYCLES) {
-        this._mode = 3; // Pixel transfer
+        // The first line after the LCD is switched on skips OAM search and reports mode 0
+        this._mode = (this.blankFrame && this._currentLine === 0) ? 0 : 2; // OAM search
       } else {
-        this._mode = 0; // H-blank
+        if (this.mode3Cycles === 0) {
+          this.startPixelTransfer();
+        }
+        // Pixel transfer, then H-blank for the rest of the line
+        const previousMode = this._mode;
+        this._mode = this._cycles < PPU.OAM_SEARCH_CYCLES + this.mode3Cycles ? 3 : 0;
+        if (this._mode === 0 && previousMode !== 0) {
+          this.memory.stepHBlankDMA();
+        }
       }
     }
     
@@ -114,6 +215,112 @@ export class PPU {
     this.updateLCDStatus();
   }
 
+  /**
+   * End of OAM search: latch the sprites picked for this line and work out how long mode 3 lasts
+   */
+  private startPixelTransfer(): void {
+    const lcdControl = this.memory.read8(PPU.LCD_CONTROL);
+    this.lineSprites = scanOam(this.memory, this._currentLine, (lcdControl & 0x04) ? 16 : 8);
+    this.mode3Cycles = this.computeMode3Cycles();
+  }
+
+  /**
+   * Work out how long mode 3 lasts on this line with the same timing model as the
+   * pixel FIFO: 172 dots, plus SCX fine scroll, 6 if the window starts, and 6-11 per
+   * sprite (the first sprite on a background tile waits for that tile's fetch)
+   */
+  private computeMode3Cycles(): number {
+    const lcdControl = this.memory.read8(PPU.LCD_CONTROL);
+    const fineScroll = this.memory.read8(PPU.SCROLL_X) & 7;
+    const windowX = this.memory.read8(PPU.WINDOW_X) - 7;
+    const windowActive = (lcdControl & 0x20) !== 0 && windowX < this.screenWidth
+      && (this.windowTriggered || this._currentLine === this.memory.read8(PPU.WINDOW_Y));
+
+    // Pixels dropped at the left edge: SCX fine scroll, or the clipped columns of a window at WX<=7
+    let cycles = PPU.PIXEL_TRANSFER_CYCLES + (windowActive && windowX <= 0 ? -windowX : fineScroll);
+    if (windowActive) {
+      cycles += PPU.WINDOW_CYCLES;
+    }
+
+    if (lcdControl & 0x02) {
+      const sprites = this.lineSprites
+        .filter((sprite) => sprite.x > -8 && sprite.x < this.screenWidth)
+        .sort((a, b) => a.x - b.x);
+      let previousTile = -1;
+      for (const sprite of sprites) {
+        // Position within the background or window tile being output at the sprite's X
+        const x = Math.max(0, sprite.x);
+        const inWindow = windowActive && x >= Math.max(0, windowX);
+        const position = inWindow ? x - windowX : x + fineScroll;
+        const tile = inWindow ? 0x100 + (position >> 3) : position >> 3;
+        const wait = tile === previousTile ? 0 : 5 - Math.min(5, position & 7);
+        cycles += PPU.SPRITE_FETCH_CYCLES + wait;
+        previousTile = tile;
+      }
+    }
+
+    return cycles;
+  }
+
+  /**
+   * Run visible scanlines dot by dot through the pixel FIFO. Mode 3 lasts until
+   * the FIFO has output all 160 pixels, and H-blank takes the rest of the line.
+   */
+  private stepVisibleDots(fifo: PixelFifo, cycles: number): void {
+    for (let dot = 0; dot < cycles; dot++) {
+      const previousMode = this._mode;
+
+      if (this._cycles < PPU.OAM_SEARCH_CYCLES) {
+        // The first line after the LCD is switched on skips OAM search and reports mode 0
+        this._mode = (this.blankFrame && this._currentLine === 0) ? 0 : 2; // OAM search
+      }
+      if (this._cycles === PPU.OAM_SEARCH_CYCLES) {
+        if (this._currentLine === this.memory.read8(PPU.WINDOW_Y)) {
+          this.windowTriggered = true;
+        }
+        const lcdControl = this.memory.read8(PPU.LCD_CONTROL);
+        fifo.startLine({
+          line: this._currentLine,
+          sprites: scanOam(this.memory, this._currentLine, (lcdControl & 0x04) ? 16 : 8),
+          windowTriggered: this.windowTriggered,
+          windowLine: this.windowLine,
+          draw: !this.blankFrame,
+        });
+        this._mode = 3; // Pixel transfer
+      }
+      if (this._mode === 3) {
+        fifo.tick();
+        if (fifo.done) {
+          this._mode = 0; // H-blank
+          this.memory.stepHBlankDMA();
+          if (fifo.usedWindow) {
+            this.windowLine++;
+          }
+        }
+      }
+
+      this._cycles++;
+      if (this._cycles === PPU.SCANLINE_CYCLES) {
+        this._cycles = 0;
+        this._currentLine++;
+        if (this._currentLine === 144) {
+          // Entering V-blank; the rest of the cycles run in the V-blank period
+          this._mode = 1;
+          this._vblankRequested = true;
+          this.blankFrame = false;
+          this._cycles = cycles - dot - 1;
+          break;
+        }
+      }
+
+      if (this._mode !== previousMode) {
+        this.updateLCDStatus();
+      }
+    }
+
+    this.updateLCDStatus();
+  }
+
   /**
    * Handle V-blank period timing
    */
@@ -126,6 +333,9 @@ export class PPU {
         // End of V-blank, restart at line 0
         this._currentLine = 0;
         this._mode = 2; // Start with OAM search
+        this.mode3Cycles = 0;
+        this.windowLine = 0;
+        this.windowTriggered = false;
       }
     }
     
@@ -133,18 +343,59 @@ export class PPU {
   }
 
   /**
-   * Update the LCD status register
+   * LCD switched off: LY and the mode drop to 0, the clock stops and the screen goes blank
+   */
+  private switchLCDOff(): void {
+    this.lcdEnabled = false;
+    this._currentLine = 0;
+    this._mode = 0;
+    this._cycles = 0;
+    this.mode3Cycles = 0;
+    this.windowLine = 0;
+    this.windowTriggered = false;
+    this.statLine = false;
+    this.memory.write8(PPU.LY, 0);
+    this.memory.write8(PPU.LCD_STATUS, this.memory.read8(PPU.LCD_STATUS) & 0xFC);
+    this.framebuffer.fill(0);
+    this.colorFramebuffer.fill(this.memory.cgbMode ? 0x7FFF : this.dmgColors[0]); // CGB screens go white
+  }
+
+  /**
+   * LCD switched on: restart at the top of a frame, which is rendered but not shown
+   */
+  private switchLCDOn(): void {
+    this.lcdEnabled = true;
+    this.blankFrame = true;
+    this._currentLine = 0;
+    this._mode = 0;
+    this._cycles = 0;
+    this.mode3Cycles = 0;
+  }
+
+  /**
+   * Update the LCD status register and raise the STAT interrupt on a rising edge of its line
    */
   private updateLCDStatus(): void {
-    let status = this.memory.read8(PPU.LCD_STATUS) & 0xFC; // Keep upper bits
+    let status = this.memory.read8(PPU.LCD_STATUS) & 0xF8; // Keep enable bits
     status |= this._mode; // Set mode bits
     
     // Set LYC=LY flag if they match
-    if (this._currentLine === this.memory.read8(PPU.LYC)) {
+    const lycMatch = this._currentLine === this.memory.read8(PPU.LYC);
+    if (lycMatch) {
       status |= 0x04;
     }
     
     this.memory.write8(PPU.LCD_STATUS, status);
+
+    // Sources: bit 3 H-blank, bit 4 V-blank, bit 5 OAM search, bit 6 LY=LYC
+    const statLine = ((status & 0x08) !== 0 && this._mode === 0)
+      || ((status & 0x10) !== 0 && this._mode === 1)
+      || ((status & 0x20) !== 0 && this._mode === 2)
+      || ((status & 0x40) !== 0 && lycMatch);
+    if (statLine && !this.statLine) {
+      this.memory.requestInterrupt(1); // LCD STAT interrupt bit 1
+    }
+    this.statLine = statLine;
   }
 
   /**
@@ -152,6 +403,7 @@ export class PPU {
    */
   renderScanline(): void {
     const lcdControl = this.memory.read8(PPU.LCD_CONTROL);
+    const cgb = this.memory.cgbMode;
     
     // Check if LCD is enabled
     if ((lcdControl & 0x80) === 0) {
@@ -160,12 +412,23 @@ export class PPU {
       return;
     }
     
-    // Check if background is enabled
-    if ((lcdControl & 0x01) === 0) {
+    // The window appears once LY has matched WY this frame, even if WY changes afterwards
+    if (this._currentLine === this.memory.read8(PPU.WINDOW_Y)) {
+      this.windowTriggered = true;
+    }
+
+    // Check if background is enabled (on DMG this bit also hides the window;
+    // on CGB it only takes away the background's priority over sprites)
+    if ((lcdControl & 0x01) === 0 && !cgb) {
       // Background off - fill with white
       this.fillScanlineWithColor(0);
+      this.bgColorIndices.fill(0);
+      this.bgAttributes.fill(0);
     } else {
       this.renderBackgroundScanline();
+      if ((lcdControl & 0x20) !== 0) {
+        this.renderWindowScanline();
+      }
     }
     
     // Check if sprites are enabled
@@ -181,159 +444,131 @@ export class PPU {
     const lcdControl = this.memory.read8(PPU.LCD_CONTROL);
     const scrollY = this.memory.read8(PPU.SCROLL_Y);
     const scrollX = this.memory.read8(PPU.SCROLL_X);
+    const palette = this.memory.read8(PPU.BG_PALETTE);
     const tileMapBase = (lcdControl & 0x08) ? PPU.TILE_MAP_1 : PPU.TILE_MAP_0;
     const unsignedTileData = (lcdControl & 0x10) !== 0;
     const backgroundY = (this._currentLine + scrollY) & 0xFF;
     const tileRow = backgroundY >> 3;
     const tileRowOffset = backgroundY & 7;
+    const lineStart = this._currentLine * this.screenWidth;
     let tileCol = scrollX >> 3;
     let tileColOffset = scrollX & 7;
-    let tileMapAddress = tileMapBase + (tileRow * 32) + tileCol;
-    let tileIndex = this.memory.read8(tileMapAddress);
-    let tileDataAddress = unsignedTileData
-      ? PPU.TILE_DATA_0 + (tileIndex * 16)
-      : 0x9000 + (((tileIndex > 127 ? tileIndex - 256 : tileIndex)) * 16);
-    let byte1 = this.memory.read8(tileDataAddress + (tileRowOffset * 2));
-    let byte2 = this.memory.read8(tileDataAddress + (tileRowOffset * 2) + 1);
+    let row = readBgTileRow(this.memory, tileMapBase + (tileRow * 32) + tileCol, tileRowOffset, unsignedTileData);
     for (let screenX = 0; screenX < this.screenWidth; screenX++) {
       if (tileColOffset === 8) {
-        tileCol++;
+        tileCol = (tileCol + 1) & 31;
         tileColOffset = 0;
-        tileMapAddress = tileMapBase + (tileRow * 32) + tileCol;
-        tileIndex = this.memory.read8(tileMapAddress);
-        tileDataAddress = unsignedTileData
-          ? PPU.TILE_DATA_0 + (tileIndex * 16)
-          : 0x9000 + (((tileIndex > 127 ? tileIndex - 256 : tileIndex)) * 16);
-        byte1 = this.memory.read8(tileDataAddress + (tileRowOffset * 2));
-        byte2 = this.memory.read8(tileDataAddress + (tileRowOffset * 2) + 1);
+        row = readBgTileRow(this.memory, tileMapBase + (tileRow * 32) + tileCol, tileRowOffset, unsignedTileData);
       }
-      const bitIndex = 7 - tileColOffset;
-      const bit1 = (byte1 >> bitIndex) & 1;
-      const bit2 = (byte2 >> bitIndex) & 1;
-      const pixelValue = (bit2 << 1) | bit1;
-      this.framebuffer[(this._currentLine * this.screenWidth) + screenX] = BG_PALETTE_LOOKUP[pixelValue];
+      const pixelValue = tilePixel(row & 0xFF, (row >> 8) & 0xFF, 7 - tileColOffset);
+      this.putBackgroundPixel(lineStart, screenX, pixelValue, row >> 16, palette);
       tileColOffset++;
     }
   }
 
   /**
-   * Render sprites for the current scanline
+   * Render the window over the background for the current scanline
    */
-  private renderSpriteScanline(): void {
+  private renderWindowScanline(): void {
+    // WX=7 puts the window at the left edge; WX<7 clips its first 7-WX columns
+    const windowX = this.memory.read8(PPU.WINDOW_X) - 7;
+    if (!this.windowTriggered || windowX >= this.screenWidth) {
+      return;
+    }
+
     const lcdControl = this.memory.read8(PPU.LCD_CONTROL);
-    const spriteHeight = (lcdControl & 0x04) ? 16 : 8; // 8x8 or 8x16 sprites
-    
-    // Game Boy can display up to 10 sprites per scanline, but we need to check all 40
-    const spritesOnLine: Array<{x: number, y: number, tileIndex: number, attributes: number, oamIndex: number}> = [];
-    
-    // Check all 40 sprites in OAM (0xFE00-0xFE9F)
-    for (let spriteIndex = 0; spriteIndex < 40; spriteIndex++) {
-      const oamAddress = 0xFE00 + (spriteIndex * 4);
-      
-      const spriteY = this.memory.read8(oamAddress);     // Y position
-      const spriteX = this.memory.read8(oamAddress + 1); // X position  
-      const tileIndex = this.memory.read8(oamAddress + 2); // Tile index
-      const attributes = this.memory.read8(oamAddress + 3); // Attributes
-      
-      // Convert coordinates (Game Boy uses offset coordinates)
-      const actualY = spriteY - 16;
-      const actualX = spriteX - 8;
-      
-      // Check if sprite is on current scanline
-      if (this._currentLine >= actualY && this._currentLine < actualY + spriteHeight) {
-        spritesOnLine.push({
-          x: actualX,
-          y: actualY,
-          tileIndex: tileIndex,
-          attributes: attributes,
-          oamIndex: spriteIndex
-        });
-      }
-      
-      // Game Boy hardware limit: max 10 sprites per scanline
-      if (spritesOnLine.length >= 10) {
-        break;
+    const palette = this.memory.read8(PPU.BG_PALETTE);
+    const tileMapBase = (lcdControl & 0x40) ? PPU.TILE_MAP_1 : PPU.TILE_MAP_0;
+    const unsignedTileData = (lcdControl & 0x10) !== 0;
+    const tileRow = this.windowLine >> 3;
+    const tileRowOffset = this.windowLine & 7;
+    const lineStart = this._currentLine * this.screenWidth;
+
+    let row = 0;
+    for (let screenX = Math.max(0, windowX); screenX < this.screenWidth; screenX++) {
+      const windowPixelX = screenX - windowX;
+      if ((windowPixelX & 7) === 0 || screenX === 0) {
+        row = readBgTileRow(this.memory, tileMapBase + (tileRow * 32) + (windowPixelX >> 3), tileRowOffset, unsignedTileData);
       }
+      const pixelValue = tilePixel(row & 0xFF, (row >> 8) & 0xFF, 7 - (windowPixelX & 7));
+      this.putBackgroundPixel(lineStart, screenX, pixelValue, row >> 16, palette);
     }
-     // Sort sprites by X position (leftmost first, then by OAM index for priority)
-    spritesOnLine.sort((a, b) => {
-      if (a.x === b.x) {
-        return a.oamIndex - b.oamIndex; // Lower OAM index = higher priority
-      }
-      return a.x - b.x;
-    });
 
-    // Render sprites from lowest priority to highest (reverse order for proper layering)
-    for (let i = spritesOnLine.length - 1; i >= 0; i--) {
-      this.renderSprite(spritesOnLine[i], spriteHeight);
+    this.windowLine++;
+  }
+
+  /**
+   * Write a BG/window pixel, through BGP on DMG or its map attributes' palette on CGB
+   */
+  private putBackgroundPixel(lineStart: number, screenX: number, colorIndex: number, attributes: number, palette: number): void {
+    this.bgColorIndices[screenX] = colorIndex;
+    this.bgAttributes[screenX] = attributes;
+    if (this.memory.cgbMode) {
+      this.colorFramebuffer[lineStart + screenX] = this.memory.readBgPaletteColor(attributes & 7, colorIndex);
+    } else {
+      const shade = applyPalette(palette, colorIndex);
+      this.framebuffer[lineStart + screenX] = shade;
+      this.colorFramebuffer[lineStart + screenX] = this.dmgColors[shade];
     }
   }
 
   /**
-   * Render a single sprite on the current scanline
+   * Render sprites for the current scanline like the DMG: where sprites overlap, the first
+   * non-transparent pixel by lowest X (then lowest OAM index) wins, so a transparent pixel
+   * leaves the pixel to lower-priority sprites. Only the winner's BG priority bit is then
+   * checked against the raw BG color, even if a lower-priority sprite would have been in front.
+   * On CGB the lowest OAM index wins regardless of X, and the BG map attributes can
+   * also put the background in front.
    */
-  private renderSprite(sprite: {x: number, y: number, tileIndex: number, attributes: number, oamIndex: number}, spriteHeight: number): void {
-    // Calculate which row of the sprite we're rendering
-    const spriteRow = this._currentLine - sprite.y;
-    
-    // Extract sprite attributes
-    const flipX = (sprite.attributes & 0x20) !== 0;
-    const flipY = (sprite.attributes & 0x40) !== 0;
-    const belowBG = (sprite.attributes & 0x80) !== 0; // Sprite priority (behind background)
-    
-    // Calculate which row of the sprite to render
-    let tileRow = flipY ? (spriteHeight - 1 - spriteRow) : spriteRow;
-    
-    // For 8x16 sprites, handle tile index differently
-    let actualTileIndex = sprite.tileIndex;
-    if (spriteHeight === 16) {
-      if (tileRow >= 8) {
-        actualTileIndex = sprite.tileIndex | 0x01; // Bottom tile (odd index)
-        tileRow -= 8;
-      } else {
-        actualTileIndex = sprite.tileIndex & 0xFE; // Top tile (even index)
+  private renderSpriteScanline(): void {
+    const lcdControl = this.memory.read8(PPU.LCD_CONTROL);
+    const spriteHeight = (lcdControl & 0x04) ? 16 : 8; // 8x8 or 8x16 sprites
+    const cgb = this.memory.cgbMode;
+
+    // Highest priority first (the OAM scan already returns OAM order)
+    const sprites = cgb ? this.lineSprites : [...this.lineSprites].sort((a, b) => (a.x - b.x) || (a.oamIndex - b.oamIndex));
+
+    this.spriteColorIndices.fill(0);
+    for (const sprite of sprites) {
+      const flipX = (sprite.attributes & 0x20) !== 0;
+      const [byte1, byte2] = readSpriteRow(this.memory, sprite, this._currentLine, spriteHeight);
+      for (let pixelX = 0; pixelX < 8; pixelX++) {
+        const screenX = sprite.x + pixelX;
+        // Skip pixels off screen or already owned by a higher priority sprite
+        if (screenX < 0 || screenX >= this.screenWidth || this.spriteColorIndices[screenX] !== 0) {
+          continue;
+        }
+        // Transparent pixels (color 0) leave the pixel to lower priority sprites
+        const pixelValue = tilePixel(byte1, byte2, flipX ? pixelX : (7 - pixelX));
+        this.spriteColorIndices[screenX] = pixelValue;
+        this.spriteAttributes[screenX] = sprite.attributes;
       }
     }
-    
-    // Get tile data address (sprites always use 0x8000-0x8FFF region)
-    const tileDataAddress = 0x8000 + (actualTileIndex * 16);
-    
-    // Get the two bytes for this row of the sprite tile
-    const byte1 = this.memory.read8(tileDataAddress + (tileRow * 2));
-    const byte2 = this.memory.read8(tileDataAddress + (tileRow * 2) + 1);
-    
-    // Render each pixel of the sprite
-    for (let pixelX = 0; pixelX < 8; pixelX++) {
-      const screenX = sprite.x + pixelX;
-      
-      // Skip pixels outside screen bounds
-      if (screenX < 0 || screenX >= this.screenWidth) {
+
+    const palettes = [this.memory.read8(PPU.OBJ_PALETTE_0), this.memory.read8(PPU.OBJ_PALETTE_1)];
+    const lineStart = this._currentLine * this.screenWidth;
+    for (let screenX = 0; screenX < this.screenWidth; screenX++) {
+      const colorIndex = this.spriteColorIndices[screenX];
+      if (colorIndex === 0) {
         continue;
       }
-      
-      // Calculate bit index (with horizontal flip)
-      const bitIndex = flipX ? pixelX : (7 - pixelX);
-      const bit1 = (byte1 >> bitIndex) & 1;
-      const bit2 = (byte2 >> bitIndex) & 1;
-      const pixelValue = (bit2 << 1) | bit1;
-       // Transparent pixels (color 0) are not drawn
-      if (pixelValue === 0) {
+      // Behind-BG sprites only show over BG color 0, whatever shade BGP maps it to.
+      // On CGB, LCDC bit 0 clear puts sprites in front whatever either priority bit says
+      const attributes = this.spriteAttributes[screenX];
+      const bgPriority = cgb
+        ? (lcdControl & 0x01) !== 0 && ((attributes | this.bgAttributes[screenX]) & 0x80) !== 0
+        : (attributes & 0x80) !== 0;
+      if (bgPriority && this.bgColorIndices[screenX] !== 0) {
         continue;
       }
-
-      const bufferIndex = (this._currentLine * this.screenWidth) + screenX;
-      
-      // Check sprite priority vs background
-      if (belowBG) {
-        // Sprite is behind background - only draw if background pixel is color 0
-        const bgPixel = this.framebuffer[bufferIndex];
-        if (bgPixel !== 0) {
-          continue; // Don't draw sprite pixel
-        }
+      if (cgb) {
+        this.colorFramebuffer[lineStart + screenX] = this.memory.readObjPaletteColor(attributes & 7, colorIndex);
+      } else {
+        const palette = (attributes >> 4) & 1;
+        const shade = applyPalette(palettes[palette], colorIndex);
+        this.framebuffer[lineStart + screenX] = shade;
+        this.colorFramebuffer[lineStart + screenX] = this.dmgColors[4 + (palette * 4) + shade];
       }
-      
-      // Map sprite pixel using palette (use BG_PALETTE_LOOKUP for both)
-      this.framebuffer[bufferIndex] = BG_PALETTE_LOOKUP[pixelValue & 3];
     }
   }
 
@@ -344,15 +579,76 @@ export class PPU {
     const start = this._currentLine * this.screenWidth;
     const end = start + this.screenWidth;
     this.framebuffer.fill(color, start, end);
+    this.colorFramebuffer.fill(this.dmgColors[color], start, end);
+  }
+
+  /**
+   * Set the colors DMG shades are shown in (the CGB's colorization of monochrome games).
+   * Takes effect from the next pixel drawn.
+   */
+  setDmgPalette(palette: DmgPalette): void {
+    this.dmgColors.set(palette.bg, 0);
+    this.dmgColors.set(palette.obj0, 4);
+    this.dmgColors.set(palette.obj1, 8);
   }
 
   /**
-   * Get the current framebuffer
+   * Get the current framebuffer of DMG shades (0-3); not used in CGB mode
    */
   getFramebuffer(): Uint8Array {
     return this.framebuffer;
   }
 
+  /**
+   * Get the current framebuffer of RGB555 colors, in both DMG and CGB mode
+   */
+  getColorFramebuffer(): Uint16Array {
+    return this.colorFramebuffer;
+  }
+
+  saveState(writer: StateWriter): void {
+    writer.section('PPU ', () => {
+      writer.string(this.renderer);
+      writer.u8(this._currentLine);
+      writer.u8(this._mode);
+      writer.u32(this._cycles);
+      writer.bool(this._vblankRequested);
+      writer.u8(this.windowLine);
+      writer.bool(this.windowTriggered);
+      writer.bool(this.statLine);
+      writer.bool(this.lcdEnabled);
+      writer.bool(this.blankFrame);
+      writer.u16(this.mode3Cycles);
+      writeOamSprites(writer, this.lineSprites);
+      writer.bytes(this.framebuffer);
+      writer.words(this.colorFramebuffer);
+    });
+    this.fifo?.saveState(writer);
+  }
+
+  loadState(reader: StateReader): void {
+    reader.section('PPU ', () => {
+      const renderer = reader.string();
+      if (renderer !== this.renderer) {
+        throw new SaveStateError(`Save state was made with the ${renderer} renderer, not ${this.renderer}`);
+      }
+      this._currentLine = reader.u8();
+      this._mode = reader.u8();
+      this._cycles = reader.u32();
+      this._vblankRequested = reader.bool();
+      this.windowLine = reader.u8();
+      this.windowTriggered = reader.bool();
+      this.statLine = reader.bool();
+      this.lcdEnabled = reader.bool();
+      this.blankFrame = reader.bool();
+      this.mode3Cycles = reader.u16();
+      this.lineSprites = readOamSprites(reader);
+      reader.bytesInto(this.framebuffer);
+      reader.wordsInto(this.colorFramebuffer);
+    });
+    this.fifo?.loadState(reader);
+  }
+
   /**
    * Clear V-blank request flag
    */
@@ -360,6 +656,3 @@ export class PPU {
     this._vblankRequested = false;
   }
 }
-
-// Palette lookup arrays for O(1) mapping (file-level constants)
-const BG_PALETTE_LOOKUP = [0, 1, 2, 3];
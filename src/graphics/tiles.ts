@@ -0,0 +1,83 @@
+// Pixel decoding shared by the scanline and pixel FIFO renderers
+import { MemoryBus } from '../memory/memory-bus';
+import { OamSprite } from './oam';
+
+/**
+ * Get the address of a BG/window tile, using LCDC bit 4 addressing:
+ * 0x8000 with unsigned indices, or 0x9000 with signed indices
+ */
+export function getTileDataAddress(tileIndex: number, unsignedTileData: boolean): number {
+  return unsignedTileData
+    ? 0x8000 + (tileIndex * 16)
+    : 0x9000 + (((tileIndex > 127 ? tileIndex - 256 : tileIndex)) * 16);
+}
+
+// Bit-reversed bytes, for X-flipped CGB background tiles
+const REVERSED_BITS = new Uint8Array(256).map((_, value) => {
+  let reversed = 0;
+  for (let bit = 0; bit < 8; bit++) {
+    reversed |= ((value >> bit) & 1) << (7 - bit);
+  }
+  return reversed;
+});
+
+/**
+ * Get a row of the BG/window tile at a tile map entry, packed as bits 0-7 low bitplane,
+ * 8-15 high bitplane and 16-23 CGB attributes. On CGB the attributes (from VRAM bank 1)
+ * select the tile's VRAM bank and flip it; X flip is applied to the bitplanes here
+ * @param tileRow Row 0-7 of the tile, before any Y flip
+ */
+export function readBgTileRow(memory: MemoryBus, tileMapAddress: number, tileRow: number, unsignedTileData: boolean): number {
+  const tileIndex = memory.readVram(tileMapAddress);
+  const attributes = memory.cgbMode ? memory.readVram(tileMapAddress, 1) : 0;
+  const bank = (attributes >> 3) & 1;
+  const row = (attributes & 0x40) ? 7 - tileRow : tileRow;
+  const tileDataAddress = getTileDataAddress(tileIndex, unsignedTileData) + (row * 2);
+  let low = memory.readVram(tileDataAddress, bank);
+  let high = memory.readVram(tileDataAddress + 1, bank);
+  if (attributes & 0x20) {
+    low = REVERSED_BITS[low];
+    high = REVERSED_BITS[high];
+  }
+  return (attributes << 16) | (high << 8) | low;
+}
+
+/**
+ * Get the two bitplane bytes of a sprite's row on the given line, handling
+ * Y flip, 8x16 sprites and the CGB VRAM bank bit (sprites always use 0x8000 tile addressing)
+ */
+export function readSpriteRow(memory: MemoryBus, sprite: OamSprite, line: number, spriteHeight: number): [number, number] {
+  const spriteRow = line - sprite.y;
+  const flipY = (sprite.attributes & 0x40) !== 0;
+  let tileRow = flipY ? (spriteHeight - 1 - spriteRow) : spriteRow;
+
+  // For 8x16 sprites the tile index's low bit is ignored: top tile even, bottom tile odd
+  let tileIndex = sprite.tileIndex;
+  if (spriteHeight === 16) {
+    if (tileRow >= 8) {
+      tileIndex = sprite.tileIndex | 0x01;
+      tileRow -= 8;
+    } else {
+      tileIndex = sprite.tileIndex & 0xFE;
+    }
+  }
+
+  const tileDataAddress = 0x8000 + (tileIndex * 16) + (tileRow * 2);
+  const bank = memory.cgbMode ? (sprite.attributes >> 3) & 1 : 0;
+  return [memory.readVram(tileDataAddress, bank), memory.readVram(tileDataAddress + 1, bank)];
+}
+
+/**
+ * Get the 2-bit color index of pixel `bitIndex` (7 = leftmost) from a tile row's bitplanes
+ */
+export function tilePixel(low: number, high: number, bitIndex: number): number {
+  return (((high >> bitIndex) & 1) << 1) | ((low >> bitIndex) & 1);
+}
+
+/**
+ * Map a 2-bit color index to a shade through a palette register
+ * (BGP/OBP0/OBP1: bits 1-0 give the shade of color 0, bits 3-2 color 1, ...)
+ */
+export function applyPalette(palette: number, colorIndex: number): number {
+  return (palette >> (colorIndex << 1)) & 3;
+}
@@ -1,60 +1,48 @@
+import { StateReader, StateWriter } from '../state/state-buffer';
+import { SuperGameBoy } from '../sgb/super-game-boy';
+
 /**
  * Game Boy Joypad Input Handler
  * Handles the 8-button joypad input and P1 register (0xFF00)
  */
 export class Joypad {
-  // Button states (true = pressed)
-  private buttonA = false;
-  private buttonB = false;
-  private buttonSelect = false;
-  private buttonStart = false;
-  private directionUp = false;
-  private directionDown = false;
-  private directionLeft = false;
-  private directionRight = false;
+  // Held buttons per joypad (bit set = pressed): A, B, Select, Start in bits 0-3 and
+  // Right, Left, Up, Down in bits 4-7. Joypads 2-4 only exist with SGB multiplayer
+  private buttons = new Uint8Array(4);
   
   // P1 register selection bits (written by game)
   private p1Register = 0xFF; // Start with all bits high
+
+  /** Super Game Boy listening to P1 for packets (set while an SGB game runs on one) */
+  public sgb?: SuperGameBoy;
+
+  private static readonly BUTTON_BITS: Record<string, number> = {
+    A: 0x01, B: 0x02, Select: 0x04, Start: 0x08,
+    Right: 0x10, Left: 0x20, Up: 0x40, Down: 0x80,
+  };
   
   /**
    * Set button state
+   * @param player Joypad 0-3 (only joypad 0 is read unless an SGB game enables multiplayer)
    */
-  setButton(button: string, pressed: boolean): void {
-    switch (button) {
-      case 'A':
-        this.buttonA = pressed;
-        break;
-      case 'B':
-        this.buttonB = pressed;
-        break;
-      case 'Select':
-        this.buttonSelect = pressed;
-        break;
-      case 'Start':
-        this.buttonStart = pressed;
-        break;
-      case 'Up':
-        this.directionUp = pressed;
-        break;
-      case 'Down':
-        this.directionDown = pressed;
-        break;
-      case 'Left':
-        this.directionLeft = pressed;
-        break;
-      case 'Right':
-        this.directionRight = pressed;
-        break;
+  setButton(button: string, pressed: boolean, player = 0): void {
+    const bit = Joypad.BUTTON_BITS[button] ?? 0;
+    if (pressed) {
+      this.buttons[player] |= bit;
+    } else {
+      this.buttons[player] &= ~bit;
     }
   }
   
   /**
    * Write to P1 register (0xFF00)
-   * Game writes to select which button group to read
+   * Game writes to select which button group to read; on a Super Game Boy
+   * the same writes also send command packets
    */
   writeP1(value: number): void {
     // Store the selection bits (bits 4-5)
     this.p1Register = (this.p1Register & 0x0F) | (value & 0x30);
+    this.sgb?.writeP1(value);
   }
   
   /**
@@ -66,24 +54,37 @@ export class Joypad {
     
     const selectButtons = (this.p1Register & 0x20) === 0; // Bit 5: 0 = select action buttons
     const selectDirections = (this.p1Register & 0x10) === 0; // Bit 4: 0 = select direction pad
+    const player = this.sgb?.currentPlayer ?? 0;
     
     // Start with all buttons not pressed (bits = 1)
     let buttonBits = 0x0F;
     
     if (selectButtons) {
       // Action buttons selected (A, B, Select, Start)
-      if (this.buttonA) buttonBits &= ~0x01;
-      if (this.buttonB) buttonBits &= ~0x02; 
-      if (this.buttonSelect) buttonBits &= ~0x04;
-      if (this.buttonStart) buttonBits &= ~0x08;
+      buttonBits &= ~this.buttons[player] & 0x0F;
     } else if (selectDirections) {
       // Direction pad selected (Right, Left, Up, Down)
-      if (this.directionRight) buttonBits &= ~0x01;
-      if (this.directionLeft) buttonBits &= ~0x02;
-      if (this.directionUp) buttonBits &= ~0x04;
-      if (this.directionDown) buttonBits &= ~0x08;
+      buttonBits &= ~(this.buttons[player] >> 4) & 0x0F;
+    } else if (this.sgb) {
+      // Nothing selected: the SGB reports which joypad is current (0xF for the first)
+      buttonBits = 0x0F - player;
     }
     
     return result | buttonBits;
   }
+
+  saveState(writer: StateWriter): void {
+    writer.section('JOYP', () => {
+      writer.u8(this.p1Register);
+      // Held buttons are part of the state so replays from a snapshot stay deterministic
+      writer.bytes(this.buttons);
+    });
+  }
+
+  loadState(reader: StateReader): void {
+    reader.section('JOYP', () => {
+      this.p1Register = reader.u8();
+      reader.bytesInto(this.buttons);
+    });
+  }
 }
@@ -3,13 +3,25 @@
  * Game Boy Emulator - Main Entry Point
  */
 
-import { GameBoy } from './gameboy';
+import { DmgColorization, GameBoy } from './gameboy';
+import { CartridgeHeaderError } from './cartridge/cartridge';
+import { BootRomError } from './boot/boot-rom';
+import { HARDWARE_MODELS, HardwareModel, ModelSelection } from './boot/hardware-model';
+import { SaveManager } from './storage/save-manager';
+import { createBrowserSaveStorage } from './storage/save-storage';
+import { SaveStateError } from './state/state-buffer';
+import { SaveStateInfo, readSaveStateInfo } from './state/save-state';
+import { createRgbTable } from './graphics/colors';
+import { PALETTE_COMBOS } from './graphics/compatibility-palettes';
 
 class EmulatorApp {
   private gameboy: GameBoy;
+  private saveManager: SaveManager;
+  private saveStorage = createBrowserSaveStorage();
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private isRunning = false;
+  private isRewinding = false; // Rewind key held
   private animationId?: number;
   private lastFrameTime = 0;
   
@@ -19,6 +31,19 @@ class EmulatorApp {
   private readonly SCALE = 2; // 2x scaling for better visibility
   private readonly TARGET_FPS = 60; // Close to Game Boy's 59.7 Hz
   private readonly FRAME_TIME = 1000 / this.TARGET_FPS;
+  private readonly SAVE_STATE_SLOTS = 4;
+  private readonly REWIND_MEMORY_BUDGET = 32 * 1024 * 1024;
+
+  // RGB555 to RGB lookup tables; CGB games are color corrected unless switched off
+  private readonly rgbColors = createRgbTable(false);
+  private readonly correctedRgbColors = createRgbTable(true);
+  private colorCorrection = true;
+  private bootRoms: Partial<Record<HardwareModel, Uint8Array>> = {}; // Supplied boot ROM images by model, kept across resets
+  private modelSelection: ModelSelection = 'auto';
+
+  // Save state slot thumbnails and timestamps, indexed by slot
+  private slotThumbnails: HTMLCanvasElement[] = [];
+  private slotLabels: HTMLElement[] = [];
 
   constructor() {
     this.canvas = document.getElementById('gameboy-screen') as HTMLCanvasElement;
@@ -45,7 +70,8 @@ class EmulatorApp {
     this.canvas.focus();
 
     // Initialize Game Boy
-    this.gameboy = new GameBoy();
+    this.gameboy = this.createGameBoy();
+    this.saveManager = new SaveManager(this.saveStorage, this.gameboy);
     
     this.setupUI();
     this.initializeDisplay();
@@ -53,6 +79,94 @@ class EmulatorApp {
     console.log('Game Boy Emulator initialized!');
   }
 
+  /**
+   * Create a Game Boy instance with the app's event handlers attached.
+   * `?renderer=fifo` in the page URL selects the pixel FIFO renderer.
+   */
+  private createGameBoy(): GameBoy {
+    const renderer = new URLSearchParams(window.location.search).get('renderer') === 'fifo' ? 'fifo' : 'scanline';
+    const gameboy = new GameBoy({ renderer, model: this.modelSelection });
+    gameboy.enableRewind({ memoryBudget: this.REWIND_MEMORY_BUDGET });
+    gameboy.onRumbleChange = (active) => this.setRumble(active);
+    for (const [model, bootRom] of Object.entries(this.bootRoms)) {
+      gameboy.setBootRom(model as HardwareModel, bootRom);
+    }
+    return gameboy;
+  }
+
+  /**
+   * Drive rumble feedback: vibrate the device if supported, otherwise shake the screen
+   */
+  private setRumble(active: boolean): void {
+    if (typeof navigator.vibrate === 'function') {
+      // Vibrate for up to a second; the motor-off event cancels it early
+      navigator.vibrate(active ? 1000 : 0);
+    } else {
+      this.canvas.classList.toggle('rumble', active);
+    }
+  }
+
+  /**
+   * Persist battery-backed cartridge RAM if it changed
+   */
+  private flushSave(): void {
+    this.saveManager.flush().catch((error) => console.error('Failed to write save data:', error));
+  }
+
+  /**
+   * Download the battery save as a .sav file
+   */
+  private exportSave(): void {
+    const data = this.gameboy.exportSaveData();
+    if (!data) {
+      alert('The loaded game has no battery save.');
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([data], { type: 'application/octet-stream' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${this.gameboy.cartridge?.title || 'game'}.sav`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Replace the battery save with a .sav file and persist it
+   */
+  private async importSave(file: File): Promise<void> {
+    if (!this.gameboy.hasBatterySave) {
+      alert('The loaded game has no battery save.');
+      return;
+    }
+
+    try {
+      this.gameboy.importSaveData(new Uint8Array(await file.arrayBuffer()));
+      this.gameboy.saveDataDirty = true;
+      this.flushSave();
+      console.log(`Imported save from ${file.name}`);
+    } catch (error) {
+      console.error('Failed to import save:', error);
+      alert(`Could not import ${file.name}.`);
+    }
+  }
+
+  /**
+   * Use a boot ROM image for games loaded on the given model from now on
+   */
+  private async loadBootRom(file: File, model: HardwareModel): Promise<void> {
+    try {
+      const data = new Uint8Array(await file.arrayBuffer());
+      this.gameboy.setBootRom(model, data);
+      this.bootRoms[model] = data;
+      console.log(`Loaded ${HARDWARE_MODELS[model].name} boot ROM from ${file.name}; it runs when the next game is loaded on that model`);
+    } catch (error) {
+      console.error('Failed to load boot ROM:', error);
+      const reason = error instanceof BootRomError ? error.message : 'unknown error';
+      alert(`Could not load ${file.name} as a boot ROM: ${reason}`);
+    }
+  }
+
   private setupUI(): void {
     const loadGameButton = document.getElementById('load-game') as HTMLButtonElement;
     const startButton = document.getElementById('start') as HTMLButtonElement;
@@ -60,6 +174,15 @@ class EmulatorApp {
     const resetButton = document.getElementById('reset') as HTMLButtonElement;
     const startAudioButton = document.getElementById('start-audio') as HTMLButtonElement;
     const fullscreenButton = document.getElementById('fullscreen') as HTMLButtonElement;
+    const exportSaveButton = document.getElementById('export-save') as HTMLButtonElement;
+    const importSaveButton = document.getElementById('import-save') as HTMLButtonElement;
+    const importSaveInput = document.getElementById('import-save-file') as HTMLInputElement;
+    const bootRomButton = document.getElementById('boot-rom') as HTMLButtonElement;
+    const bootRomInput = document.getElementById('boot-rom-file') as HTMLInputElement;
+    const bootRomModelSelect = document.getElementById('boot-rom-model') as HTMLSelectElement;
+    const colorCorrectionInput = document.getElementById('color-correction') as HTMLInputElement;
+    const dmgPaletteSelect = document.getElementById('dmg-palette') as HTMLSelectElement;
+    const modelSelect = document.getElementById('model') as HTMLSelectElement;
 
     // Use Vite's base URL for GitHub Pages compatibility
     loadGameButton?.addEventListener('click', () => this.loadROM(`${import.meta.env.BASE_URL}blocks.gb`, 'Block Puzzle Game'));
@@ -70,6 +193,64 @@ class EmulatorApp {
       this.gameboy.soundChip.startAudio();
     });
     fullscreenButton?.addEventListener('click', () => this.enterFullscreen());
+    exportSaveButton?.addEventListener('click', () => this.exportSave());
+    importSaveButton?.addEventListener('click', () => importSaveInput?.click());
+    importSaveInput?.addEventListener('change', () => {
+      const file = importSaveInput.files?.[0];
+      if (file) {
+        this.importSave(file);
+      }
+      importSaveInput.value = '';
+    });
+    bootRomButton?.addEventListener('click', () => bootRomInput?.click());
+    bootRomInput?.addEventListener('change', () => {
+      const file = bootRomInput.files?.[0];
+      if (file) {
+        this.loadBootRom(file, bootRomModelSelect.value as HardwareModel);
+      }
+      bootRomInput.value = '';
+    });
+    colorCorrectionInput?.addEventListener('change', () => {
+      this.colorCorrection = colorCorrectionInput.checked;
+      this.renderFrame();
+      this.refreshSaveSlots();
+    });
+    if (dmgPaletteSelect) {
+      // The 12 palettes the CGB boot ROM offers for button combos held during its logo
+      for (const [combo, { name }] of Object.entries(PALETTE_COMBOS)) {
+        dmgPaletteSelect.add(new Option(`${name} (${combo.replace(/\b\w/g, (c) => c.toUpperCase())})`, combo));
+      }
+      dmgPaletteSelect.addEventListener('change', () => {
+        this.gameboy.dmgColorization = dmgPaletteSelect.value as DmgColorization;
+      });
+    }
+
+    if (modelSelect) {
+      for (const [model, { name }] of Object.entries(HARDWARE_MODELS)) {
+        modelSelect.add(new Option(`${name} (${model})`, model));
+      }
+      modelSelect.addEventListener('change', () => {
+        this.modelSelection = modelSelect.value as ModelSelection;
+        this.gameboy.modelSelection = this.modelSelection;
+        console.log(`Model set to ${this.modelSelection}; it takes effect when the next game is loaded`);
+      });
+    }
+
+    if (bootRomModelSelect) {
+      for (const [model, { name }] of Object.entries(HARDWARE_MODELS)) {
+        bootRomModelSelect.add(new Option(`${name} (${model})`, model));
+      }
+      bootRomModelSelect.value = 'DMG';
+    }
+
+    // Persist saves when the tab is hidden, since it may never come back
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.flushSave();
+      }
+    });
+
+    this.setupSaveSlots();
 
     // Keyboard controls
     document.addEventListener('keydown', (e) => this.handleKeyDown(e));
@@ -81,6 +262,106 @@ class EmulatorApp {
     });
   }
 
+  /**
+   * Build the save state slot list: a thumbnail, timestamp and save/load buttons per slot
+   */
+  private setupSaveSlots(): void {
+    const container = document.getElementById('save-slots');
+    if (!container) return;
+
+    for (let slot = 0; slot < this.SAVE_STATE_SLOTS; slot++) {
+      const element = document.createElement('div');
+      element.className = 'save-slot';
+
+      const thumbnail = document.createElement('canvas');
+      thumbnail.width = this.SCREEN_WIDTH;
+      thumbnail.height = this.SCREEN_HEIGHT;
+
+      const label = document.createElement('span');
+      label.textContent = `Slot ${slot + 1}: empty`;
+
+      const saveButton = document.createElement('button');
+      saveButton.textContent = 'Save';
+      saveButton.addEventListener('click', () => this.saveStateToSlot(slot));
+
+      const loadButton = document.createElement('button');
+      loadButton.textContent = 'Load';
+      loadButton.addEventListener('click', () => this.loadStateFromSlot(slot));
+
+      element.append(thumbnail, label, saveButton, loadButton);
+      container.append(element);
+      this.slotThumbnails.push(thumbnail);
+      this.slotLabels.push(label);
+    }
+  }
+
+  /**
+   * Storage key for a save state slot of the loaded game
+   */
+  private slotKey(slot: number): string | undefined {
+    const cartridge = this.gameboy.cartridge;
+    return cartridge ? `${SaveManager.keyFor(cartridge)}.state${slot + 1}` : undefined;
+  }
+
+  private async saveStateToSlot(slot: number): Promise<void> {
+    const key = this.slotKey(slot);
+    if (!key) return;
+
+    try {
+      await this.saveStorage.save(key, this.gameboy.saveState());
+      console.log(`Saved state to slot ${slot + 1}`);
+    } catch (error) {
+      console.error('Failed to save state:', error);
+      alert(`Could not save state to slot ${slot + 1}.`);
+    }
+    await this.refreshSaveSlots();
+  }
+
+  private async loadStateFromSlot(slot: number): Promise<void> {
+    const key = this.slotKey(slot);
+    if (!key) return;
+
+    const data = await this.saveStorage.load(key);
+    if (!data) return;
+
+    try {
+      this.gameboy.loadState(data);
+      this.renderFrame();
+      console.log(`Loaded state from slot ${slot + 1}`);
+    } catch (error) {
+      console.error('Failed to load state:', error);
+      const reason = error instanceof SaveStateError ? error.message : 'unknown error';
+      alert(`Could not load slot ${slot + 1}: ${reason}`);
+    }
+  }
+
+  /**
+   * Redraw every slot's thumbnail and timestamp from storage
+   */
+  private async refreshSaveSlots(): Promise<void> {
+    for (let slot = 0; slot < this.SAVE_STATE_SLOTS; slot++) {
+      const key = this.slotKey(slot);
+      const data = key ? await this.saveStorage.load(key) : null;
+      const ctx = this.slotThumbnails[slot]?.getContext('2d');
+      if (!ctx) continue;
+
+      let info: SaveStateInfo | undefined;
+      try {
+        info = data ? readSaveStateInfo(data) : undefined;
+      } catch {
+        info = undefined; // Saved by an incompatible version
+      }
+
+      if (info) {
+        this.drawFramebuffer(ctx, info.thumbnail);
+        this.slotLabels[slot].textContent = `Slot ${slot + 1}: ${new Date(info.createdAt).toLocaleString()}`;
+      } else {
+        ctx.clearRect(0, 0, this.SCREEN_WIDTH, this.SCREEN_HEIGHT);
+        this.slotLabels[slot].textContent = `Slot ${slot + 1}: empty`;
+      }
+    }
+  }
+
   private initializeDisplay(): void {
     // Initialize with a Game Boy green screen
     this.ctx.fillStyle = '#9bbc0f';
@@ -103,22 +384,32 @@ class EmulatorApp {
       
       const romData = new Uint8Array(await response.arrayBuffer());
       this.gameboy.loadRom(romData);
+      this.resizeScreen();
+      if (await this.saveManager.load()) {
+        console.log('Battery save restored');
+      }
+      this.saveManager.startAutoFlush();
+      await this.refreshSaveSlots();
       
       console.log(`${romName} ROM loaded successfully!`);
       console.log(`ROM size: ${romData.length} bytes`);
       
       // Update display
       this.ctx.fillStyle = '#9bbc0f';
-      this.ctx.fillRect(0, 0, this.SCREEN_WIDTH, this.SCREEN_HEIGHT);
+      this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
       this.ctx.fillStyle = '#0f380f';
       this.ctx.font = '8px monospace';
       this.ctx.textAlign = 'center';
-      this.ctx.fillText(`${romName} ROM Loaded!`, this.SCREEN_WIDTH / 2, this.SCREEN_HEIGHT / 2 - 10);
-      this.ctx.fillText('Press "Start" to begin', this.SCREEN_WIDTH / 2, this.SCREEN_HEIGHT / 2 + 10);
+      this.ctx.fillText(`${romName} ROM Loaded!`, this.canvas.width / 2, this.canvas.height / 2 - 10);
+      this.ctx.fillText('Press "Start" to begin', this.canvas.width / 2, this.canvas.height / 2 + 10);
       
     } catch (error) {
       console.error('Failed to load ROM:', error);
-      alert(`Failed to load ${romName} ROM. Make sure ${romPath} is in the public directory.`);
+      if (error instanceof CartridgeHeaderError) {
+        alert(`${romName} is not a valid Game Boy ROM: ${error.message}`);
+      } else {
+        alert(`Failed to load ${romName} ROM. Make sure ${romPath} is in the public directory.`);
+      }
     }
   }
 
@@ -132,6 +423,8 @@ class EmulatorApp {
 
   private pause(): void {
     this.isRunning = false;
+    this.setRumble(false);
+    this.flushSave();
     if (this.animationId) {
       cancelAnimationFrame(this.animationId);
     }
@@ -140,8 +433,11 @@ class EmulatorApp {
 
   private reset(): void {
     this.pause();
-    this.gameboy = new GameBoy();
+    this.saveManager.stopAutoFlush();
+    this.gameboy = this.createGameBoy();
+    this.saveManager = new SaveManager(this.saveStorage, this.gameboy);
     this.initializeDisplay();
+    this.refreshSaveSlots();
     console.log('Emulator reset');
   }
 
@@ -156,8 +452,12 @@ class EmulatorApp {
       this.lastFrameTime = currentTime;
 
       try {
-        // Run one complete frame
-        this.gameboy.runFrame();
+        // Run one complete frame, or step back through the rewind buffer while the key is held
+        if (this.isRewinding) {
+          this.gameboy.rewind();
+        } else {
+          this.gameboy.runFrame();
+        }
 
         // Render the frame
         this.renderFrame();
@@ -175,36 +475,62 @@ class EmulatorApp {
 
   private renderFrame(): void {
     // Get the framebuffer from the PPU
-    const framebuffer = this.gameboy.getScreenData();
-    
+    this.drawFramebuffer(this.ctx, this.gameboy.getScreenData());
+  }
+
+  /**
+   * Size the canvas for the loaded game: 160x144, or 256x224 with a Super Game Boy border
+   */
+  private resizeScreen(): void {
+    this.canvas.width = this.gameboy.screenWidth;
+    this.canvas.height = this.gameboy.screenHeight;
+    this.canvas.style.width = `${this.canvas.width * this.SCALE}px`;
+    this.canvas.style.height = `${this.canvas.height * this.SCALE}px`;
+  }
+
+  /**
+   * Draw a framebuffer (screen or save state thumbnail) filling a canvas of the same size
+   */
+  private drawFramebuffer(ctx: CanvasRenderingContext2D, framebuffer: Uint16Array): void {
     // Create ImageData from the framebuffer
-    const imageData = this.ctx.createImageData(this.SCREEN_WIDTH, this.SCREEN_HEIGHT);
+    const imageData = ctx.createImageData(ctx.canvas.width, ctx.canvas.height);
     
-    // Convert grayscale framebuffer to RGBA
-    // Game Boy has 4 shades of green
-    const palette = [
-      [0x9b, 0xbc, 0x0f, 255], // Lightest
-      [0x8b, 0xac, 0x0f, 255], // Light
-      [0x30, 0x62, 0x30, 255], // Dark
-      [0x0f, 0x38, 0x0f, 255], // Darkest
-    ];
-
+    // Convert the RGB555 framebuffer to RGBA (DMG shades are already colorized)
+    const colors = this.colorCorrection && this.gameboy.colorized ? this.correctedRgbColors : this.rgbColors;
     for (let i = 0; i < framebuffer.length; i++) {
-      const pixelValue = framebuffer[i] & 0x03; // Ensure 2-bit value
-      const color = palette[pixelValue];
+      const color = colors[framebuffer[i] & 0x7FFF];
       const pixelIndex = i * 4;
       
-      imageData.data[pixelIndex] = color[0];     // R
-      imageData.data[pixelIndex + 1] = color[1]; // G
-      imageData.data[pixelIndex + 2] = color[2]; // B
-      imageData.data[pixelIndex + 3] = color[3]; // A
+      imageData.data[pixelIndex] = color >> 16;            // R
+      imageData.data[pixelIndex + 1] = (color >> 8) & 0xFF; // G
+      imageData.data[pixelIndex + 2] = color & 0xFF;        // B
+      imageData.data[pixelIndex + 3] = 255;                 // A
     }
 
     // Draw to canvas
-    this.ctx.putImageData(imageData, 0, 0);
+    ctx.putImageData(imageData, 0, 0);
   }
 
   private handleKeyDown(event: KeyboardEvent): void {
+    // Save state hotkeys: 1-4 load a slot, Shift+1-4 save to it
+    const slotMatch = /^Digit([1-9])$/.exec(event.code);
+    if (slotMatch && Number(slotMatch[1]) <= this.SAVE_STATE_SLOTS) {
+      const slot = Number(slotMatch[1]) - 1;
+      if (event.shiftKey) {
+        this.saveStateToSlot(slot);
+      } else {
+        this.loadStateFromSlot(slot);
+      }
+      event.preventDefault();
+      return;
+    }
+
+    if (event.code === 'KeyR') {
+      this.isRewinding = true;
+      event.preventDefault();
+      return;
+    }
+
     // Map keyboard to Game Boy controls
     const keyMap: { [key: string]: string } = {
       'ArrowUp': 'Up',
@@ -225,6 +551,12 @@ class EmulatorApp {
   }
 
   private handleKeyUp(event: KeyboardEvent): void {
+    if (event.code === 'KeyR') {
+      this.isRewinding = false;
+      event.preventDefault();
+      return;
+    }
+
     // Map keyboard to Game Boy controls
     const keyMap: { [key: string]: string } = {
       'ArrowUp': 'Up',
@@ -260,10 +592,10 @@ class EmulatorApp {
   private resizeCanvasForFullscreen(): void {
     const isFullscreen = document.fullscreenElement || (document as any).webkitFullscreenElement;
     if (isFullscreen) {
-      // Fit canvas to screen, preserving aspect ratio (160:144)
+      // Fit canvas to screen, preserving aspect ratio (160:144, or 256:224 with an SGB border)
       const screenW = window.innerWidth;
       const screenH = window.innerHeight;
-      const aspect = this.SCREEN_WIDTH / this.SCREEN_HEIGHT;
+      const aspect = this.canvas.width / this.canvas.height;
       let width = screenW;
       let height = Math.round(width / aspect);
       if (height > screenH) {
@@ -274,8 +606,8 @@ class EmulatorApp {
       this.canvas.style.height = height + 'px';
     } else {
       // Restore default scaling
-      this.canvas.style.width = (this.SCREEN_WIDTH * this.SCALE) + 'px';
-      this.canvas.style.height = (this.SCREEN_HEIGHT * this.SCALE) + 'px';
+      this.canvas.style.width = (this.canvas.width * this.SCALE) + 'px';
+      this.canvas.style.height = (this.canvas.height * this.SCALE) + 'px';
     }
   }
 }
@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemoryBus } from './memory-bus';
+import { StateReader, StateWriter } from '../state/state-buffer';
+
+describe('MemoryBus - CGB', () => {
+  let memory: MemoryBus;
+
+  beforeEach(() => {
+    memory = new MemoryBus();
+    memory.cgbMode = true;
+  });
+
+  describe('VRAM banking (VBK)', () => {
+    it('should switch 0x8000-0x9FFF between two banks', () => {
+      memory.write8(0x8000, 0x11);
+      memory.write8(0xFF4F, 0x01);
+      expect(memory.read8(0x8000)).toBe(0x00);
+      memory.write8(0x8000, 0x22);
+
+      memory.write8(0xFF4F, 0x00);
+      expect(memory.read8(0x8000)).toBe(0x11);
+      expect(memory.readVram(0x8000, 1)).toBe(0x22);
+    });
+
+    it('should read back the bank with the unused bits set', () => {
+      memory.write8(0xFF4F, 0xFF);
+      expect(memory.read8(0xFF4F)).toBe(0xFF);
+      memory.write8(0xFF4F, 0x00);
+      expect(memory.read8(0xFF4F)).toBe(0xFE);
+    });
+  });
+
+  describe('Work RAM banking (SVBK)', () => {
+    it('should switch 0xD000-0xDFFF between banks 1-7', () => {
+      for (let bank = 1; bank <= 7; bank++) {
+        memory.write8(0xFF70, bank);
+        memory.write8(0xD000, bank * 0x10);
+      }
+      for (let bank = 1; bank <= 7; bank++) {
+        memory.write8(0xFF70, bank);
+        expect(memory.read8(0xD000)).toBe(bank * 0x10);
+        expect(memory.read8(0xFF70)).toBe(0xF8 | bank);
+      }
+    });
+
+    it('should map bank 0 to bank 1', () => {
+      memory.write8(0xFF70, 0x01);
+      memory.write8(0xD123, 0x5A);
+      memory.write8(0xFF70, 0x00);
+      expect(memory.read8(0xD123)).toBe(0x5A);
+      expect(memory.read8(0xFF70)).toBe(0xF9);
+    });
+
+    it('should leave 0xC000-0xCFFF fixed and bank the echo of 0xD000', () => {
+      memory.write8(0xC010, 0x33);
+      memory.write8(0xFF70, 0x03);
+      memory.write8(0xD010, 0x44);
+      expect(memory.read8(0xC010)).toBe(0x33);
+      expect(memory.read8(0xF010)).toBe(0x44);
+    });
+  });
+
+  describe('speed switch (KEY1)', () => {
+    it('should only switch speed once armed', () => {
+      expect(memory.switchSpeed()).toBe(false);
+      memory.write8(0xFF4D, 0x01);
+      expect(memory.read8(0xFF4D)).toBe(0x7F);
+
+      expect(memory.switchSpeed()).toBe(true);
+      expect(memory.doubleSpeed).toBe(true);
+      expect(memory.read8(0xFF4D)).toBe(0xFE);
+    });
+
+    it('should switch back to normal speed', () => {
+      memory.write8(0xFF4D, 0x01);
+      memory.switchSpeed();
+      memory.write8(0xFF4D, 0x01);
+      memory.switchSpeed();
+      expect(memory.doubleSpeed).toBe(false);
+    });
+  });
+
+  describe('palette memory (BCPS/BCPD, OCPS/OCPD)', () => {
+    it('should write colors with auto-increment and read them back as RGB555', () => {
+      memory.write8(0xFF68, 0x80 | 0x0A); // Palette 1, color 1
+      memory.write8(0xFF69, 0x1F);
+      memory.write8(0xFF69, 0x7C);
+      expect(memory.read8(0xFF68)).toBe(0xCC); // Index advanced, bit 6 reads as set
+      expect(memory.readBgPaletteColor(1, 1)).toBe(0x7C1F);
+    });
+
+    it('should keep the index without auto-increment', () => {
+      memory.write8(0xFF6A, 0x10);
+      memory.write8(0xFF6B, 0x11);
+      memory.write8(0xFF6B, 0x22);
+      expect(memory.read8(0xFF6B)).toBe(0x22);
+      expect(memory.readObjPaletteColor(2, 0)).toBe(0x7F22); // Untouched high byte (bit 15 unused)
+    });
+
+    it('should wrap the index after the last byte', () => {
+      memory.write8(0xFF68, 0xBF);
+      memory.write8(0xFF69, 0x00);
+      expect(memory.read8(0xFF68)).toBe(0xC0);
+    });
+
+    it('should keep background and object palettes apart', () => {
+      memory.write8(0xFF68, 0x80);
+      memory.write8(0xFF69, 0x00);
+      memory.write8(0xFF69, 0x00);
+      expect(memory.readBgPaletteColor(0, 0)).toBe(0x0000);
+      expect(memory.readObjPaletteColor(0, 0)).toBe(0x7FFF);
+    });
+  });
+
+  describe('VRAM DMA (HDMA1-HDMA5)', () => {
+    beforeEach(() => {
+      for (let i = 0; i < 0x40; i++) {
+        memory.write8(0xC100 + i, i + 1);
+      }
+      // Source 0xC10F (low bits dropped to 0xC100), destination 0x8800 in VRAM
+      memory.write8(0xFF51, 0xC1);
+      memory.write8(0xFF52, 0x0F);
+      memory.write8(0xFF53, 0xE8); // Top bits ignored
+      memory.write8(0xFF54, 0x00);
+    });
+
+    it('should copy every block at once for general-purpose DMA', () => {
+      memory.write8(0xFF55, 0x02); // 3 blocks
+
+      for (let i = 0; i < 0x30; i++) {
+        expect(memory.read8(0x8800 + i)).toBe(i + 1);
+      }
+      expect(memory.read8(0x8830)).toBe(0x00);
+      expect(memory.read8(0xFF55)).toBe(0xFF);
+      expect(memory.takeStallCycles()).toBe(3 * 32);
+      expect(memory.takeStallCycles()).toBe(0);
+    });
+
+    it('should stall twice as many CPU cycles in double speed', () => {
+      memory.write8(0xFF4D, 0x01);
+      memory.switchSpeed();
+      memory.write8(0xFF55, 0x00);
+      expect(memory.takeStallCycles()).toBe(64);
+    });
+
+    it('should copy into the selected VRAM bank', () => {
+      memory.write8(0xFF4F, 0x01);
+      memory.write8(0xFF55, 0x00);
+      expect(memory.readVram(0x8800, 1)).toBe(0x01);
+      expect(memory.readVram(0x8800, 0)).toBe(0x00);
+    });
+
+    it('should copy one block per H-blank for H-blank DMA', () => {
+      memory.write8(0xFF55, 0x82); // 3 blocks
+      expect(memory.read8(0x8800)).toBe(0x00);
+      expect(memory.read8(0xFF55)).toBe(0x02);
+
+      memory.stepHBlankDMA();
+      expect(memory.read8(0x880F)).toBe(0x10);
+      expect(memory.read8(0x8810)).toBe(0x00);
+      expect(memory.read8(0xFF55)).toBe(0x01);
+      expect(memory.takeStallCycles()).toBe(32);
+
+      memory.stepHBlankDMA();
+      memory.stepHBlankDMA();
+      expect(memory.read8(0x882F)).toBe(0x30);
+      expect(memory.read8(0xFF55)).toBe(0xFF);
+
+      memory.stepHBlankDMA();
+      expect(memory.read8(0x8830)).toBe(0x00);
+    });
+
+    it('should cancel an H-blank DMA and report the blocks left', () => {
+      memory.write8(0xFF55, 0x82);
+      memory.stepHBlankDMA();
+      memory.write8(0xFF55, 0x00);
+      expect(memory.read8(0xFF55)).toBe(0x81);
+
+      memory.stepHBlankDMA();
+      expect(memory.read8(0x8810)).toBe(0x00);
+    });
+
+    it('should copy the first block at once when the LCD is off', () => {
+      memory.write8(0xFF40, 0x00);
+      memory.write8(0xFF55, 0x81);
+      expect(memory.read8(0x8800)).toBe(0x01);
+      expect(memory.read8(0x8810)).toBe(0x00);
+      expect(memory.read8(0xFF55)).toBe(0x00);
+    });
+  });
+
+  describe('DMG mode', () => {
+    beforeEach(() => {
+      memory.cgbMode = false;
+    });
+
+    it('should ignore the CGB registers and read them as 0xFF', () => {
+      memory.write8(0x8000, 0x11);
+      memory.write8(0xD000, 0x22);
+      memory.write8(0xFF4F, 0x01);
+      memory.write8(0xFF70, 0x02);
+      memory.write8(0xFF4D, 0x01);
+      memory.write8(0xFF55, 0x00);
+
+      expect(memory.read8(0x8000)).toBe(0x11);
+      expect(memory.read8(0xD000)).toBe(0x22);
+      expect(memory.read8(0xFF4F)).toBe(0xFF);
+      expect(memory.read8(0xFF70)).toBe(0xFF);
+      expect(memory.read8(0xFF4D)).toBe(0xFF);
+      expect(memory.read8(0xFF68)).toBe(0xFF);
+      expect(memory.read8(0xFF69)).toBe(0xFF);
+      expect(memory.read8(0xFF55)).toBe(0xFF);
+      expect(memory.takeStallCycles()).toBe(0);
+      expect(memory.switchSpeed()).toBe(false);
+    });
+  });
+
+  it('should save and restore the banks, speed and VRAM DMA', () => {
+    memory.write8(0xFF4F, 0x01);
+    memory.write8(0x9000, 0x66);
+    memory.write8(0xFF70, 0x05);
+    memory.write8(0xD000, 0x77);
+    memory.write8(0xFF4D, 0x01);
+    memory.switchSpeed();
+    memory.write8(0xFF51, 0xC0);
+    memory.write8(0xFF55, 0x83);
+    memory.stepHBlankDMA();
+    const writer = new StateWriter();
+    memory.saveState(writer);
+
+    const restored = new MemoryBus();
+    restored.loadState(new StateReader(writer.toUint8Array()));
+
+    expect(restored.cgbMode).toBe(true);
+    expect(restored.doubleSpeed).toBe(true);
+    expect(restored.read8(0x9000)).toBe(0x66);
+    expect(restored.read8(0xD000)).toBe(0x77);
+    expect(restored.read8(0xFF70)).toBe(0xFD);
+    expect(restored.read8(0xFF55)).toBe(0x02);
+    expect(restored.takeStallCycles()).toBe(64);
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemoryBus } from './memory-bus';
+import { createBankedRom } from './test-roms';
+
+describe('MemoryBus - MBC1', () => {
+  let memory: MemoryBus;
+
+  describe('ROM banking', () => {
+    beforeEach(() => {
+      memory = new MemoryBus();
+      memory.loadRom(createBankedRom(128, 0x01)); // 2MB
+    });
+
+    it('should map bank 0 at 0x0000 and bank 1 at 0x4000 by default', () => {
+      expect(memory.read8(0x0000)).toBe(0);
+      expect(memory.read8(0x4000)).toBe(1);
+      expect(memory.read8(0x7FFF)).toBe(1 ^ 0xFF);
+    });
+
+    it('should switch the 0x4000-0x7FFF bank through 0x2000-0x3FFF', () => {
+      memory.write8(0x2000, 0x05);
+      expect(memory.read8(0x4000)).toBe(5);
+
+      memory.write8(0x3FFF, 0x1F);
+      expect(memory.read8(0x4000)).toBe(0x1F);
+    });
+
+    it('should treat bank 0 as bank 1', () => {
+      memory.write8(0x2000, 0x00);
+      expect(memory.read8(0x4000)).toBe(1);
+    });
+
+    it('should only use the lower 5 bits of the bank number', () => {
+      memory.write8(0x2000, 0xE3);
+      expect(memory.read8(0x4000)).toBe(3);
+    });
+
+    it('should combine BANK2 as upper ROM bank bits', () => {
+      memory.write8(0x2000, 0x02);
+      memory.write8(0x4000, 0x02);
+      expect(memory.read8(0x4000)).toBe(0x42);
+    });
+
+    it('should map banks 0x20/0x40/0x60 to 0x21/0x41/0x61 in the switchable area', () => {
+      memory.write8(0x2000, 0x00);
+      memory.write8(0x4000, 0x01);
+      expect(memory.read8(0x4000)).toBe(0x21);
+
+      memory.write8(0x4000, 0x02);
+      expect(memory.read8(0x4000)).toBe(0x41);
+
+      memory.write8(0x4000, 0x03);
+      expect(memory.read8(0x4000)).toBe(0x61);
+    });
+
+    it('should map BANK2 into 0x0000-0x3FFF only in advanced banking mode', () => {
+      memory.write8(0x4000, 0x01);
+      expect(memory.read8(0x0000)).toBe(0x00);
+
+      memory.write8(0x6000, 0x01);
+      expect(memory.read8(0x0000)).toBe(0x20);
+
+      memory.write8(0x6000, 0x00);
+      expect(memory.read8(0x0000)).toBe(0x00);
+    });
+
+    it('should ignore ROM region writes as data', () => {
+      memory.write8(0x4000, 0x00);
+      memory.write8(0x2000, 0x03);
+      memory.write8(0x7FFF, 0xAA);
+      expect(memory.read8(0x4000)).toBe(3);
+    });
+  });
+
+  describe('ROM size wrapping', () => {
+    it('should wrap bank numbers to the ROM size', () => {
+      memory = new MemoryBus();
+      memory.loadRom(createBankedRom(16, 0x01)); // 256KB
+
+      memory.write8(0x2000, 0x15);
+      expect(memory.read8(0x4000)).toBe(0x05);
+    });
+
+    it('should ignore BANK2 for ROMs of 512KB or less', () => {
+      memory = new MemoryBus();
+      memory.loadRom(createBankedRom(32, 0x01)); // 512KB
+
+      memory.write8(0x2000, 0x04);
+      memory.write8(0x4000, 0x03);
+      memory.write8(0x6000, 0x01);
+      expect(memory.read8(0x4000)).toBe(0x04);
+      expect(memory.read8(0x0000)).toBe(0x00);
+    });
+  });
+
+  describe('RAM', () => {
+    beforeEach(() => {
+      memory = new MemoryBus();
+      memory.loadRom(createBankedRom(64, 0x03, 0x03)); // MBC1+RAM+BATTERY, 32KB RAM
+    });
+
+    it('should read 0xFF and ignore writes while RAM is disabled', () => {
+      memory.write8(0xA000, 0x12);
+      expect(memory.read8(0xA000)).toBe(0xFF);
+
+      memory.write8(0x0000, 0x0A);
+      expect(memory.read8(0xA000)).toBe(0x00);
+    });
+
+    it('should enable RAM only when the lower nibble is 0xA', () => {
+      memory.write8(0x0000, 0x1A);
+      memory.write8(0xA000, 0x34);
+      expect(memory.read8(0xA000)).toBe(0x34);
+
+      memory.write8(0x1FFF, 0x0B);
+      expect(memory.read8(0xA000)).toBe(0xFF);
+    });
+
+    it('should switch RAM banks with BANK2 in advanced banking mode', () => {
+      memory.write8(0x0000, 0x0A);
+      memory.write8(0x6000, 0x01);
+
+      for (let bank = 0; bank < 4; bank++) {
+        memory.write8(0x4000, bank);
+        memory.write8(0xA000, 0x10 + bank);
+        memory.write8(0xBFFF, 0x20 + bank);
+      }
+
+      for (let bank = 0; bank < 4; bank++) {
+        memory.write8(0x4000, bank);
+        expect(memory.read8(0xA000)).toBe(0x10 + bank);
+        expect(memory.read8(0xBFFF)).toBe(0x20 + bank);
+      }
+    });
+
+    it('should always use RAM bank 0 in simple banking mode', () => {
+      memory.write8(0x0000, 0x0A);
+      memory.write8(0xA000, 0x55);
+      memory.write8(0x4000, 0x02);
+      expect(memory.read8(0xA000)).toBe(0x55);
+    });
+
+    it('should read 0xFF from carts without RAM', () => {
+      memory = new MemoryBus();
+      memory.loadRom(createBankedRom(4, 0x01));
+      memory.write8(0x0000, 0x0A);
+      memory.write8(0xA000, 0x12);
+      expect(memory.read8(0xA000)).toBe(0xFF);
+    });
+  });
+
+  describe('save data', () => {
+    beforeEach(() => {
+      memory = new MemoryBus();
+      memory.loadRom(createBankedRom(64, 0x03, 0x03)); // MBC1+RAM+BATTERY, 32KB RAM
+      memory.write8(0x0000, 0x0A);
+      memory.write8(0x6000, 0x01);
+    });
+
+    it('should export all RAM banks in order', () => {
+      memory.write8(0x4000, 0x02);
+      memory.write8(0xA123, 0x77);
+
+      const data = memory.exportSaveData();
+      expect(data.length).toBe(0x8000);
+      expect(data[0x4123]).toBe(0x77);
+    });
+
+    it('should mark RAM writes dirty until persisted', () => {
+      expect(memory.saveDirty).toBe(false);
+      memory.write8(0xA000, 0x01);
+      expect(memory.saveDirty).toBe(true);
+
+      memory.saveDirty = false;
+      expect(memory.saveDirty).toBe(false);
+    });
+
+    it('should import a .sav image', () => {
+      const data = new Uint8Array(0x8000);
+      data[0x6000] = 0x42;
+      memory.importSaveData(data);
+
+      memory.write8(0x4000, 0x03);
+      expect(memory.read8(0xA000)).toBe(0x42);
+      expect(memory.saveDirty).toBe(false);
+    });
+  });
+
+  describe('MBC1M multicart', () => {
+    beforeEach(() => {
+      const rom = createBankedRom(64, 0x01); // 1MB
+      // Nintendo logo copies in bank 0 and bank 0x10
+      for (let i = 0; i < 48; i++) {
+        rom[0x0104 + i] = 0xA0 + i;
+        rom[0x40104 + i] = 0xA0 + i;
+      }
+      memory = new MemoryBus();
+      memory.loadRom(rom);
+    });
+
+    it('should wire BANK2 to ROM bank bits 4-5', () => {
+      memory.write8(0x4000, 0x01);
+      memory.write8(0x2000, 0x02);
+      expect(memory.read8(0x4000)).toBe(0x12);
+    });
+
+    it('should ignore bit 4 of BANK1', () => {
+      memory.write8(0x2000, 0x13);
+      expect(memory.read8(0x4000)).toBe(0x03);
+    });
+
+    it('should select each game bank 0 in advanced banking mode', () => {
+      memory.write8(0x6000, 0x01);
+      memory.write8(0x4000, 0x02);
+      expect(memory.read8(0x0000)).toBe(0x20);
+    });
+  });
+});
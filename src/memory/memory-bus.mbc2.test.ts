@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemoryBus } from './memory-bus';
+import { createBankedRom } from './test-roms';
+
+describe('MemoryBus - MBC2', () => {
+  let memory: MemoryBus;
+
+  beforeEach(() => {
+    memory = new MemoryBus();
+    memory.loadRom(createBankedRom(16, 0x06)); // MBC2+BATTERY, 256KB
+  });
+
+  describe('ROM bank register (address bit 8 set)', () => {
+    it('should map bank 1 at 0x4000 by default', () => {
+      expect(memory.read8(0x0000)).toBe(0);
+      expect(memory.read8(0x4000)).toBe(1);
+    });
+
+    it('should select the ROM bank when address bit 8 is set', () => {
+      memory.write8(0x2100, 0x07);
+      expect(memory.read8(0x4000)).toBe(7);
+
+      memory.write8(0x0100, 0x0F);
+      expect(memory.read8(0x4000)).toBe(15);
+
+      memory.write8(0x3FFF, 0x03);
+      expect(memory.read8(0x4000)).toBe(3);
+    });
+
+    it('should only use the lower 4 bits and treat bank 0 as bank 1', () => {
+      memory.write8(0x2100, 0xF5);
+      expect(memory.read8(0x4000)).toBe(5);
+
+      memory.write8(0x2100, 0x10);
+      expect(memory.read8(0x4000)).toBe(1);
+    });
+
+    it('should not enable RAM through the ROM bank register', () => {
+      memory.write8(0x0100, 0x0A);
+      expect(memory.read8(0xA000)).toBe(0xFF);
+      expect(memory.read8(0x4000)).toBe(10);
+    });
+  });
+
+  describe('RAM enable register (address bit 8 clear)', () => {
+    it('should enable and disable RAM when address bit 8 is clear', () => {
+      memory.write8(0x0000, 0x0A);
+      memory.write8(0xA000, 0x05);
+      expect(memory.read8(0xA000)).toBe(0xF5);
+
+      memory.write8(0x30FF, 0x00);
+      expect(memory.read8(0xA000)).toBe(0xFF);
+    });
+
+    it('should not change the ROM bank through the RAM enable register', () => {
+      memory.write8(0x2000, 0x05);
+      expect(memory.read8(0x4000)).toBe(1);
+    });
+
+    it('should ignore writes to 0x4000-0x7FFF', () => {
+      memory.write8(0x4100, 0x05);
+      memory.write8(0x4000, 0x0A);
+      expect(memory.read8(0x4000)).toBe(1);
+      expect(memory.read8(0xA000)).toBe(0xFF);
+    });
+  });
+
+  describe('built-in RAM', () => {
+    beforeEach(() => {
+      memory.write8(0x0000, 0x0A);
+    });
+
+    it('should store only the lower nibble and read the upper nibble as set', () => {
+      memory.write8(0xA000, 0xAB);
+      expect(memory.read8(0xA000)).toBe(0xFB);
+
+      memory.write8(0xA1FF, 0x00);
+      expect(memory.read8(0xA1FF)).toBe(0xF0);
+    });
+
+    it('should echo the 512 bytes across 0xA000-0xBFFF', () => {
+      memory.write8(0xA012, 0x03);
+      expect(memory.read8(0xA212)).toBe(0xF3);
+      expect(memory.read8(0xB012)).toBe(0xF3);
+      expect(memory.read8(0xBE12)).toBe(0xF3);
+
+      memory.write8(0xBFFF, 0x09);
+      expect(memory.read8(0xA1FF)).toBe(0xF9);
+    });
+  });
+});
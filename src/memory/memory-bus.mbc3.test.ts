@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemoryBus } from './memory-bus';
+import { createBankedRom } from './test-roms';
+
+describe('MemoryBus - MBC3', () => {
+  let memory: MemoryBus;
+  let now: number;
+
+  /**
+   * Select an RTC register, latch the clock and read the register back
+   */
+  function readRtc(register: number): number {
+    memory.write8(0x4000, register);
+    memory.write8(0x6000, 0x00);
+    memory.write8(0x6000, 0x01);
+    return memory.read8(0xA000);
+  }
+
+  function writeRtc(register: number, value: number): void {
+    memory.write8(0x4000, register);
+    memory.write8(0xA000, value);
+  }
+
+  beforeEach(() => {
+    now = 1_000_000;
+    memory = new MemoryBus();
+    memory.loadRom(createBankedRom(128, 0x10, 0x03), { clock: () => now }); // MBC3+TIMER+RAM+BATTERY
+    memory.write8(0x0000, 0x0A);
+  });
+
+  describe('ROM banking', () => {
+    it('should select all 7 ROM bank bits through 0x2000-0x3FFF', () => {
+      expect(memory.read8(0x4000)).toBe(1);
+
+      memory.write8(0x2000, 0x7F);
+      expect(memory.read8(0x4000)).toBe(0x7F);
+
+      memory.write8(0x2000, 0x20);
+      expect(memory.read8(0x4000)).toBe(0x20);
+    });
+
+    it('should treat bank 0 as bank 1', () => {
+      memory.write8(0x2000, 0x00);
+      expect(memory.read8(0x4000)).toBe(1);
+    });
+
+    it('should always map bank 0 at 0x0000', () => {
+      memory.write8(0x2000, 0x05);
+      memory.write8(0x4000, 0x03);
+      expect(memory.read8(0x0000)).toBe(0);
+    });
+  });
+
+  describe('RAM banking', () => {
+    it('should switch between four 8KB RAM banks', () => {
+      for (let bank = 0; bank < 4; bank++) {
+        memory.write8(0x4000, bank);
+        memory.write8(0xA123, 0x40 + bank);
+      }
+      for (let bank = 0; bank < 4; bank++) {
+        memory.write8(0x4000, bank);
+        expect(memory.read8(0xA123)).toBe(0x40 + bank);
+      }
+    });
+
+    it('should read 0xFF while RAM and RTC are disabled', () => {
+      memory.write8(0xA000, 0x12);
+      memory.write8(0x0000, 0x00);
+      expect(memory.read8(0xA000)).toBe(0xFF);
+
+      memory.write8(0x4000, 0x08);
+      expect(memory.read8(0xA000)).toBe(0xFF);
+    });
+  });
+
+  describe('real-time clock', () => {
+    it('should count seconds, minutes, hours and days from the clock source', () => {
+      now += ((2 * 24 + 3) * 3600 + 4 * 60 + 5) * 1000;
+
+      expect(readRtc(0x08)).toBe(5);
+      expect(readRtc(0x09)).toBe(4);
+      expect(readRtc(0x0A)).toBe(3);
+      expect(readRtc(0x0B)).toBe(2);
+      expect(readRtc(0x0C)).toBe(0);
+    });
+
+    it('should only update the visible registers when latched', () => {
+      now += 10_000;
+      expect(readRtc(0x08)).toBe(10);
+
+      now += 5_000;
+      expect(memory.read8(0xA000)).toBe(10);
+
+      memory.write8(0x6000, 0x00);
+      memory.write8(0x6000, 0x01);
+      expect(memory.read8(0xA000)).toBe(15);
+    });
+
+    it('should require a 0x00 then 0x01 latch sequence', () => {
+      now += 10_000;
+      memory.write8(0x4000, 0x08);
+      memory.write8(0x6000, 0x01);
+      expect(memory.read8(0xA000)).toBe(0);
+
+      memory.write8(0x6000, 0x01);
+      expect(memory.read8(0xA000)).toBe(0);
+    });
+
+    it('should accumulate partial seconds', () => {
+      now += 600;
+      expect(readRtc(0x08)).toBe(0);
+      now += 600;
+      expect(readRtc(0x08)).toBe(1);
+    });
+
+    it('should allow the clock to be set by writing the registers', () => {
+      writeRtc(0x08, 58);
+      writeRtc(0x09, 59);
+      writeRtc(0x0A, 23);
+      writeRtc(0x0B, 0xFF);
+      writeRtc(0x0C, 0x00);
+
+      now += 2_000;
+      expect(readRtc(0x08)).toBe(0);
+      expect(readRtc(0x09)).toBe(0);
+      expect(readRtc(0x0A)).toBe(0);
+      expect(readRtc(0x0B)).toBe(0x00);
+      expect(readRtc(0x0C)).toBe(0x01); // Day counter bit 8
+    });
+
+    it('should wrap out of range values without carrying', () => {
+      writeRtc(0x08, 63);
+      writeRtc(0x09, 5);
+      now += 1_000;
+      expect(readRtc(0x08)).toBe(0);
+      expect(readRtc(0x09)).toBe(5);
+
+      now += 60_000;
+      expect(readRtc(0x09)).toBe(6);
+
+      writeRtc(0x09, 59);
+      writeRtc(0x0A, 31);
+      writeRtc(0x08, 59);
+      now += 1_000;
+      expect(readRtc(0x09)).toBe(0);
+      expect(readRtc(0x0A)).toBe(0);
+      expect(readRtc(0x0B)).toBe(0);
+    });
+
+    it('should stop counting while halted', () => {
+      writeRtc(0x0C, 0x40);
+      now += 60_000;
+      expect(readRtc(0x08)).toBe(0);
+
+      writeRtc(0x0C, 0x00);
+      now += 3_000;
+      expect(readRtc(0x08)).toBe(3);
+    });
+
+    it('should set the carry flag when the day counter overflows', () => {
+      writeRtc(0x0B, 0xFF);
+      writeRtc(0x0C, 0x01); // Day 511
+
+      now += 24 * 3600 * 1000;
+      expect(readRtc(0x0B)).toBe(0x00);
+      expect(readRtc(0x0C)).toBe(0x80);
+
+      // Carry stays set until software clears it
+      now += 24 * 3600 * 1000;
+      expect(readRtc(0x0C)).toBe(0x80);
+      writeRtc(0x0C, 0x00);
+      expect(readRtc(0x0C)).toBe(0x00);
+    });
+
+    it('should mask unused register bits', () => {
+      writeRtc(0x08, 0xFF);
+      writeRtc(0x0A, 0xFF);
+      writeRtc(0x0C, 0xFF);
+      expect(readRtc(0x08)).toBe(0x3F);
+      expect(readRtc(0x0A)).toBe(0x1F);
+      expect(readRtc(0x0C)).toBe(0xC1);
+    });
+
+    it('should not expose RTC registers on carts without a timer', () => {
+      memory = new MemoryBus();
+      memory.loadRom(createBankedRom(4, 0x13, 0x02));
+      memory.write8(0x0000, 0x0A);
+      expect(readRtc(0x08)).toBe(0xFF);
+    });
+  });
+
+  describe('save data', () => {
+    it('should append a 48-byte RTC footer to the RAM image', () => {
+      memory.write8(0xA000, 0x99);
+      writeRtc(0x09, 12); // Minutes
+
+      const data = memory.exportSaveData();
+      expect(data.length).toBe(0x8000 + 48);
+      expect(data[0]).toBe(0x99);
+
+      const footer = new DataView(data.buffer, 0x8000);
+      expect(footer.getUint32(4, true)).toBe(12);  // Live minutes
+      expect(footer.getUint32(24, true)).toBe(12); // Latched minutes
+      expect(footer.getUint32(40, true)).toBe(1000); // Timestamp in seconds
+    });
+
+    it('should mark RTC writes dirty', () => {
+      expect(memory.saveDirty).toBe(false);
+      writeRtc(0x08, 0x05);
+      expect(memory.saveDirty).toBe(true);
+    });
+
+    it('should restore the clock and count the time spent in storage', () => {
+      writeRtc(0x0A, 5); // Hours
+      const data = memory.exportSaveData();
+
+      now += 2 * 60 * 60 * 1000; // Two hours later, on a new machine
+      memory = new MemoryBus();
+      memory.loadRom(createBankedRom(128, 0x10, 0x03), { clock: () => now });
+      memory.write8(0x0000, 0x0A);
+      memory.importSaveData(data);
+
+      expect(readRtc(0x0A)).toBe(7);
+    });
+
+    it('should accept the 44-byte footer with a 32-bit timestamp', () => {
+      const data = new Uint8Array(0x8000 + 44);
+      const footer = new DataView(data.buffer, 0x8000);
+      footer.setUint32(8, 3, true);     // Hours
+      footer.setUint32(40, 1000, true); // Saved at the current time
+
+      memory.importSaveData(data);
+      expect(readRtc(0x0A)).toBe(3);
+    });
+
+    it('should import RAM without a footer', () => {
+      const data = new Uint8Array(0x8000);
+      data[0x2000] = 0x11;
+      memory.importSaveData(data);
+
+      memory.write8(0x4000, 0x01);
+      expect(memory.read8(0xA000)).toBe(0x11);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MemoryBus } from './memory-bus';
+import { createBankedRom } from './test-roms';
+
+describe('MemoryBus - MBC5', () => {
+  let memory: MemoryBus;
+
+  function readBankNumber(): number {
+    return memory.read8(0x4000) | (memory.read8(0x4001) << 8);
+  }
+
+  describe('ROM banking', () => {
+    beforeEach(() => {
+      memory = new MemoryBus();
+      memory.loadRom(createBankedRom(512, 0x19)); // 8MB
+    });
+
+    it('should map bank 1 at 0x4000 by default', () => {
+      expect(readBankNumber()).toBe(1);
+    });
+
+    it('should select the lower 8 bank bits through 0x2000-0x2FFF', () => {
+      memory.write8(0x2000, 0xAB);
+      expect(readBankNumber()).toBe(0xAB);
+    });
+
+    it('should select bank bit 8 through 0x3000-0x3FFF', () => {
+      memory.write8(0x2000, 0x23);
+      memory.write8(0x3000, 0x01);
+      expect(readBankNumber()).toBe(0x123);
+
+      memory.write8(0x2FFF, 0xFF);
+      expect(readBankNumber()).toBe(0x1FF);
+
+      memory.write8(0x3FFF, 0x00);
+      expect(readBankNumber()).toBe(0x0FF);
+    });
+
+    it('should allow bank 0 in the switchable area', () => {
+      memory.write8(0x2000, 0x00);
+      expect(readBankNumber()).toBe(0);
+    });
+
+    it('should wrap bank numbers to the ROM size', () => {
+      memory = new MemoryBus();
+      memory.loadRom(createBankedRom(64, 0x19));
+      memory.write8(0x2000, 0x45);
+      memory.write8(0x3000, 0x01);
+      expect(readBankNumber()).toBe(0x05);
+    });
+  });
+
+  describe('RAM banking', () => {
+    beforeEach(() => {
+      memory = new MemoryBus();
+      memory.loadRom(createBankedRom(4, 0x1B, 0x04)); // MBC5+RAM+BATTERY, 128KB RAM
+      memory.write8(0x0000, 0x0A);
+    });
+
+    it('should switch between 16 RAM banks', () => {
+      for (let bank = 0; bank < 16; bank++) {
+        memory.write8(0x4000, bank);
+        memory.write8(0xB000, 0x80 + bank);
+      }
+      for (let bank = 0; bank < 16; bank++) {
+        memory.write8(0x4000, bank);
+        expect(memory.read8(0xB000)).toBe(0x80 + bank);
+      }
+    });
+
+    it('should read 0xFF while RAM is disabled', () => {
+      memory.write8(0xA000, 0x12);
+      memory.write8(0x0000, 0x00);
+      expect(memory.read8(0xA000)).toBe(0xFF);
+    });
+  });
+
+  describe('rumble', () => {
+    it('should report motor changes through the rumble callback', () => {
+      const onRumble = vi.fn();
+      memory = new MemoryBus();
+      memory.loadRom(createBankedRom(4, 0x1E, 0x03), { onRumble }); // MBC5+RUMBLE+RAM+BATTERY
+
+      memory.write8(0x4000, 0x08);
+      memory.write8(0x4000, 0x09);
+      memory.write8(0x4000, 0x00);
+
+      expect(onRumble.mock.calls).toEqual([[true], [false]]);
+    });
+
+    it('should not use the motor bit for RAM bank selection', () => {
+      memory = new MemoryBus();
+      memory.loadRom(createBankedRom(4, 0x1D, 0x03), { onRumble: () => {} });
+      memory.write8(0x0000, 0x0A);
+
+      memory.write8(0x4000, 0x01);
+      memory.write8(0xA000, 0x11);
+      memory.write8(0x4000, 0x09);
+      expect(memory.read8(0xA000)).toBe(0x11);
+    });
+
+    it('should treat bit 3 as a RAM bank bit on non-rumble carts', () => {
+      const onRumble = vi.fn();
+      memory = new MemoryBus();
+      memory.loadRom(createBankedRom(4, 0x1B, 0x04), { onRumble });
+      memory.write8(0x0000, 0x0A);
+
+      memory.write8(0x4000, 0x01);
+      memory.write8(0xA000, 0x11);
+      memory.write8(0x4000, 0x09);
+      expect(memory.read8(0xA000)).toBe(0x00);
+      expect(onRumble).not.toHaveBeenCalled();
+    });
+  });
+});
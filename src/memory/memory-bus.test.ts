@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { MemoryBus } from './memory-bus';
+import { PPU } from '../graphics/ppu';
 
 describe('MemoryBus', () => {
   let memory: MemoryBus;
@@ -62,4 +63,160 @@ describe('MemoryBus', () => {
       expect(memory.read8(0x0000)).toBe(0x00); // Should remain 0x00
     });
   });
+
+  describe('VRAM and OAM access restrictions', () => {
+    let ppu: PPU;
+
+    function stepToMode(mode: number): void {
+      while (ppu.mode !== mode) {
+        ppu.step(1);
+      }
+    }
+
+    beforeEach(() => {
+      memory.write8(0x8000, 0x12);
+      memory.write8(0xFE00, 0x34);
+      ppu = new PPU(memory); // Starts in mode 2
+      memory.ppu = ppu;
+    });
+
+    it('should block VRAM only during mode 3', () => {
+      stepToMode(2);
+      expect(memory.read8(0x8000)).toBe(0x12);
+      stepToMode(3);
+      expect(memory.read8(0x8000)).toBe(0xFF);
+      memory.write8(0x8000, 0x56);
+      stepToMode(0);
+      expect(memory.read8(0x8000)).toBe(0x12); // The write was dropped
+    });
+
+    it('should block OAM during modes 2 and 3', () => {
+      stepToMode(2);
+      expect(memory.read8(0xFE00)).toBe(0xFF);
+      memory.write8(0xFE00, 0x56);
+      stepToMode(3);
+      expect(memory.read8(0xFE00)).toBe(0xFF);
+      stepToMode(0);
+      expect(memory.read8(0xFE00)).toBe(0x34);
+      stepToMode(1);
+      expect(memory.read8(0xFE00)).toBe(0x34);
+    });
+
+    it('should allow all access while the LCD is off', () => {
+      stepToMode(3);
+      memory.write8(0xFF40, 0x11);
+      ppu.step(4);
+      memory.write8(0x8000, 0x56);
+      expect(memory.read8(0x8000)).toBe(0x56);
+      expect(memory.read8(0xFE00)).toBe(0x34);
+    });
+
+    it('should allow all access when the accuracy setting is off', () => {
+      memory.accessRestrictions = false;
+      stepToMode(3);
+      memory.write8(0x8000, 0x56);
+      expect(memory.read8(0x8000)).toBe(0x56);
+      expect(memory.read8(0xFE00)).toBe(0x34);
+    });
+
+    it('should let the PPU read locked memory', () => {
+      stepToMode(3);
+      expect(memory.readVram(0x8000)).toBe(0x12);
+      expect(memory.readOam(0xFE00)).toBe(0x34);
+    });
+  });
+
+  describe('timers', () => {
+    it('should advance DIV exactly once every 256 cycles', () => {
+      memory.write8(0xFF04, 0x00);
+      for (let i = 0; i < 63; i++) {
+        memory.updateTimers(4);
+      }
+      expect(memory.read8(0xFF04)).toBe(0x00);
+      memory.updateTimers(4);
+      expect(memory.read8(0xFF04)).toBe(0x01);
+
+      for (let i = 0; i < 64 * 255; i++) {
+        memory.updateTimers(4);
+      }
+      expect(memory.read8(0xFF04)).toBe(0x00);
+    });
+  });
+
+  describe('OAM DMA', () => {
+    beforeEach(() => {
+      for (let i = 0; i < 160; i++) {
+        memory.write8(0xC100 + i, i + 1);
+      }
+      memory.write8(0xFF80, 0x42);
+      memory.write8(0xFF46, 0xC1);
+    });
+
+    it('should copy one byte per M-cycle over 160 M-cycles', () => {
+      memory.updateDMA(4 * 10 + 2);
+      expect(memory.readOam(0xFE09)).toBe(10);
+      expect(memory.readOam(0xFE0A)).toBe(0); // Not copied yet
+
+      memory.updateDMA(4 * 148 + 2);
+      expect(memory.readOam(0xFE9F)).toBe(0);
+      expect(memory.read8(0xC000)).toBe(160); // Still transferring
+
+      memory.updateDMA(4);
+      expect(memory.read8(0xFE9F)).toBe(160);
+      expect(memory.read8(0xC000)).toBe(0x00); // Bus released
+    });
+
+    it('should return the byte being transferred for reads outside High RAM', () => {
+      memory.updateDMA(4 * 5);
+      expect(memory.read8(0x0150)).toBe(6);
+      expect(memory.read8(0xC000)).toBe(6);
+      expect(memory.read8(0xFE00)).toBe(0xFF); // OAM is busy
+      expect(memory.read8(0xFF80)).toBe(0x42);
+      expect(memory.read8(0xFF46)).toBe(0xC1);
+    });
+
+    it('should drop writes outside High RAM and the I/O registers', () => {
+      memory.write8(0xC000, 0x99);
+      memory.write8(0xFF81, 0x77);
+      memory.updateDMA(4 * 160);
+      expect(memory.read8(0xC000)).toBe(0x00);
+      expect(memory.read8(0xFF81)).toBe(0x77);
+    });
+  });
+
+  describe('boot ROM', () => {
+    beforeEach(() => {
+      const rom = new Uint8Array(0x8000).fill(0xCC);
+      memory.loadRom(rom);
+    });
+
+    it('should cover 0x0000-0x00FF until 0xFF50 is written', () => {
+      memory.mapBootRom(new Uint8Array(0x100).fill(0xBB));
+      expect(memory.read8(0x0000)).toBe(0xBB);
+      expect(memory.read8(0x00FF)).toBe(0xBB);
+      expect(memory.read8(0x0100)).toBe(0xCC);
+
+      memory.write8(0xFF50, 0x00); // Zero leaves it mapped
+      expect(memory.bootRomMapped).toBe(true);
+      memory.write8(0xFF50, 0x01);
+      expect(memory.bootRomMapped).toBe(false);
+      expect(memory.read8(0x0000)).toBe(0xCC);
+      expect(memory.read8(0xFF50)).toBe(0xFF);
+    });
+
+    it('should leave the cartridge header visible through a CGB boot ROM', () => {
+      memory.mapBootRom(new Uint8Array(0x900).fill(0xBB));
+      expect(memory.read8(0x00FF)).toBe(0xBB);
+      expect(memory.read8(0x0134)).toBe(0xCC);
+      expect(memory.read8(0x0200)).toBe(0xBB);
+      expect(memory.read8(0x08FF)).toBe(0xBB);
+      expect(memory.read8(0x0900)).toBe(0xCC);
+    });
+
+    it('should unmap when another cartridge is loaded', () => {
+      memory.mapBootRom(new Uint8Array(0x100));
+      memory.loadRom(new Uint8Array(0x8000));
+      expect(memory.bootRomMapped).toBe(false);
+    });
+  });
 });
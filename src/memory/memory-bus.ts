@@ -1,15 +1,21 @@
 import { Joypad } from '../input/joypad';
 import { SoundChip } from '../audio/soundchip';
+import { MemoryBankController, MbcOptions } from '../cartridge/mbc';
+import { Cartridge } from '../cartridge/cartridge';
+import { PPU } from '../graphics/ppu';
+import { SaveStateError, StateReader, StateWriter } from '../state/state-buffer';
+import { HardwareModel } from '../boot/hardware-model';
+import { postBootDivider, postBootIoRegisters } from '../boot/post-boot';
 
 /**
  * Game Boy Memory Bus
  * Manages memory mapping and routing for the Game Boy's 16-bit address space
  * 
  * Memory Map:
- * 0x0000-0x7FFF: ROM (32KB) - Cartridge ROM
- * 0x8000-0x9FFF: VRAM (8KB) - Video RAM
- * 0xA000-0xBFFF: External RAM (8KB) - Cartridge RAM
- * 0xC000-0xDFFF: Work RAM (8KB) - Internal RAM
+ * 0x0000-0x7FFF: ROM (32KB) - Cartridge ROM (banked by the MBC, if any)
+ * 0x8000-0x9FFF: VRAM (8KB) - Video RAM (2 banks on CGB, selected by VBK)
+ * 0xA000-0xBFFF: External RAM (8KB) - Cartridge RAM (banked by the MBC, if any)
+ * 0xC000-0xDFFF: Work RAM (8KB) - Internal RAM (0xD000-0xDFFF is banks 1-7 on CGB, selected by SVBK)
  * 0xE000-0xFDFF: Echo RAM (mirror of 0xC000-0xDDFF)
  * 0xFE00-0xFE9F: OAM (Object Attribute Memory) - Sprite data
  * 0xFEA0-0xFEFF: Unused
@@ -20,44 +26,70 @@ import { SoundChip } from '../audio/soundchip';
 export class MemoryBus {
   // Memory regions as Uint8Array for performance
   private rom = new Uint8Array(0x8000);      // 0x0000-0x7FFF (32KB)
-  private vram = new Uint8Array(0x2000);     // 0x8000-0x9FFF (8KB) 
+  private vram = new Uint8Array(0x4000);     // 0x8000-0x9FFF (8KB), 2 banks
   private extRam = new Uint8Array(0x2000);   // 0xA000-0xBFFF (8KB)
-  private workRam = new Uint8Array(0x2000);  // 0xC000-0xDFFF (8KB)
+  private workRam = new Uint8Array(0x8000);  // 0xC000-0xDFFF (8KB), 8 banks of 4KB
   private oam = new Uint8Array(0xA0);        // 0xFE00-0xFE9F (160 bytes)
   private ioRegisters = new Uint8Array(0x80); // 0xFF00-0xFF7F (128 bytes)
   private highRam = new Uint8Array(0x7F);    // 0xFF80-0xFFFE (127 bytes)
   private interruptEnable = 0x00;            // 0xFFFF
+
+  // Game Boy Color state (only used in CGB mode)
+  public cgbMode = false;
+  private vramBank = 0;          // VBK (0xFF4F)
+  private workRamBank = 1;       // SVBK (0xFF70), mapped at 0xD000
+  private _doubleSpeed = false;  // KEY1 (0xFF4D) bit 7
+  private speedSwitchArmed = false; // KEY1 bit 0, performed by STOP
+  // Palette memory: 8 palettes of 4 RGB555 colors each, reached through BCPS/BCPD and OCPS/OCPD
+  private bgPaletteRam = new Uint8Array(64).fill(0xFF);
+  private objPaletteRam = new Uint8Array(64).fill(0xFF);
+  // VRAM DMA (HDMA1-HDMA5): general-purpose copies at once, H-blank copies 16 bytes per H-blank
+  private hdmaSource = 0;
+  private hdmaDestination = 0; // Offset into VRAM (0x0000-0x1FF0)
+  private hdmaBlocks = 0;      // 16-byte blocks left
+  private hdmaActive = false;  // H-blank DMA running
+  private stallCycles = 0;     // CPU cycles the CPU must sit out for VRAM DMA
+
+  // Boot ROM, mapped over the cartridge until a write to 0xFF50
+  private bootRom?: Uint8Array;
+
+  // Cartridge memory bank controller (undefined for ROM-only carts)
+  private mbc?: MemoryBankController;
+  private extRamDirty = false; // Flat external RAM changed since it was last persisted
   
   // Input handling
-  private joypad = new Joypad();
+  public readonly joypad = new Joypad();
 
   // Timer state
   private dividerCounter = 0;  // Internal 16-bit counter for DIV register
   private timerCounter = 0;    // Internal counter for TIMA
 
+  // OAM DMA state: one byte is copied per M-cycle while the CPU is cut off from the main bus
+  private dmaActive = false;
+  private dmaSource = 0;  // Address of the first byte (page << 8)
+  private dmaIndex = 0;   // Bytes copied so far
+  private dmaCycles = 0;  // T-cycles towards the next byte
+
   // Optional sound chip
   public soundChip?: SoundChip;
 
-  constructor() {
-    // Initialize interrupt enable register to enable V-blank interrupt
-    this.interruptEnable = 0x01; // V-blank interrupt enabled
-    
-    // Initialize key I/O registers to post-boot state
+  // PPU whose mode locks the CPU out of VRAM (mode 3) and OAM (modes 2-3)
+  public ppu?: PPU;
+  public accessRestrictions = true; // Accuracy setting: off lets the CPU through in every mode
+
+  /**
+   * Start with the I/O registers as the given model's boot ROM leaves them
+   */
+  constructor(model: HardwareModel = 'DMG') {
     this.ioRegisters[0x00] = 0xCF; // Joypad register - no buttons pressed
-    this.ioRegisters[0x01] = 0x00; // Serial transfer data
-    this.ioRegisters[0x02] = 0x00; // Serial transfer control
-    this.ioRegisters[0x04] = 0x00; // Divider register
-    this.ioRegisters[0x05] = 0x00; // Timer counter
-    this.ioRegisters[0x06] = 0x00; // Timer modulo
-    this.ioRegisters[0x07] = 0x00; // Timer control
-    this.ioRegisters[0x0F] = 0x00; // Interrupt flag
-    this.ioRegisters[0x40] = 0x91; // LCD control
-    this.ioRegisters[0x41] = 0x00; // LCD status
-    this.ioRegisters[0x42] = 0x00; // Scroll Y
-    this.ioRegisters[0x43] = 0x00; // Scroll X
-    this.ioRegisters[0x44] = 0x00; // LY register
-    this.ioRegisters[0x45] = 0x00; // LYC register
-    this.ioRegisters[0x47] = 0xFC; // Background palette
+    for (const [address, value] of postBootIoRegisters(model)) {
+      if (address === 0xFFFF) {
+        this.interruptEnable = value;
+      } else {
+        this.ioRegisters[address - 0xFF00] = value;
+      }
+    }
+    this.dividerCounter = postBootDivider(model);
   }
 
   /**
@@ -66,23 +98,52 @@ export class MemoryBus {
   read8(address: number): number {
     address = address & 0xFFFF; // Wrap to 16-bit
 
-    if (address < 0x8000) {
+    if (this.dmaActive && address < 0xFF00) {
+      // Bus conflict: OAM is busy and every other bus returns the byte being transferred
+      if (address >= 0xFE00 && address < 0xFEA0) {
+        return 0xFF;
+      }
+      return this.readMapped(this.dmaSource + this.dmaIndex);
+    }
+    return this.readMapped(address);
+  }
+
+  /**
+   * Read through the memory map, ignoring any OAM DMA in progress
+   */
+  private readMapped(address: number): number {
+    if (this.bootRom && (address < 0x100 || (address >= 0x200 && address < this.bootRom.length))) {
+      // Boot ROM (0x0000-0x00FF, and 0x0200-0x08FF on CGB; the cartridge header shows through)
+      return this.bootRom[address];
+    } else if (address < 0x8000) {
       // ROM region (0x0000-0x7FFF)
+      if (this.mbc) {
+        return this.mbc.readRom(address);
+      }
       return this.rom[address];
     } else if (address < 0xA000) {
-      // VRAM region (0x8000-0x9FFF)
-      return this.vram[address - 0x8000];
+      // VRAM region (0x8000-0x9FFF) - reads 0xFF while the PPU is drawing
+      if (this.isVramLocked()) {
+        return 0xFF;
+      }
+      return this.vram[(this.vramBank << 13) + address - 0x8000];
     } else if (address < 0xC000) {
       // External RAM region (0xA000-0xBFFF)
+      if (this.mbc) {
+        return this.mbc.readRam(address - 0xA000);
+      }
       return this.extRam[address - 0xA000];
     } else if (address < 0xE000) {
       // Work RAM region (0xC000-0xDFFF)
-      return this.workRam[address - 0xC000];
+      return this.workRam[this.workRamOffset(address - 0xC000)];
     } else if (address < 0xFE00) {
       // Echo RAM (0xE000-0xFDFF) - mirrors 0xC000-0xDDFF
-      return this.workRam[address - 0xE000];
+      return this.workRam[this.workRamOffset(address - 0xE000)];
     } else if (address < 0xFEA0) {
-      // OAM region (0xFE00-0xFE9F)
+      // OAM region (0xFE00-0xFE9F) - reads 0xFF during the OAM scan and drawing
+      if (this.isOamLocked()) {
+        return 0xFF;
+      }
       return this.oam[address - 0xFE00];
     } else if (address < 0xFF00) {
       // Unused region (0xFEA0-0xFEFF)
@@ -107,6 +168,31 @@ export class MemoryBus {
       } else if (address === 0xFF07) {
         // TAC register
         return this.ioRegisters[0x07];
+      } else if (address === 0xFF4D) {
+        // KEY1 - current speed and armed speed switch (CGB only)
+        return this.cgbMode ? 0x7E | (this._doubleSpeed ? 0x80 : 0) | (this.speedSwitchArmed ? 0x01 : 0) : 0xFF;
+      } else if (address === 0xFF4F) {
+        // VBK - VRAM bank (CGB only)
+        return this.cgbMode ? 0xFE | this.vramBank : 0xFF;
+      } else if (address === 0xFF70) {
+        // SVBK - Work RAM bank (CGB only)
+        return this.cgbMode ? 0xF8 | this.workRamBank : 0xFF;
+      } else if (address === 0xFF55) {
+        // HDMA5 - blocks left minus 1, bit 7 clear while an H-blank DMA runs (0xFF when done)
+        return this.cgbMode ? (this.hdmaActive ? 0x00 : 0x80) | ((this.hdmaBlocks - 1) & 0x7F) : 0xFF;
+      } else if (address >= 0xFF50 && address <= 0xFF54) {
+        // Boot ROM disable and HDMA1-HDMA4 are write-only
+        return 0xFF;
+      } else if (address === 0xFF68 || address === 0xFF6A) {
+        // BCPS/OCPS - palette memory index and auto-increment (CGB only)
+        return this.cgbMode ? this.ioRegisters[address - 0xFF00] | 0x40 : 0xFF;
+      } else if (address === 0xFF69 || address === 0xFF6B) {
+        // BCPD/OCPD - palette memory at the index; unreadable while the PPU is drawing (CGB only)
+        if (!this.cgbMode || this.isVramLocked()) {
+          return 0xFF;
+        }
+        const paletteRam = address === 0xFF69 ? this.bgPaletteRam : this.objPaletteRam;
+        return paletteRam[this.ioRegisters[address - 0xFF01] & 0x3F];
       }
       return this.ioRegisters[address - 0xFF00];
     } else if (address < 0xFFFF) {
@@ -125,29 +211,47 @@ export class MemoryBus {
     address = address & 0xFFFF; // Wrap to 16-bit
     value = value & 0xFF; // Ensure 8-bit value
 
+    if (this.dmaActive && address < 0xFF00) {
+      // Only I/O and High RAM are reachable during OAM DMA
+      return;
+    }
+
     // Sound registers: 0xFF10–0xFF3F
     if (address >= 0xFF10 && address <= 0xFF3F && this.soundChip) {
       this.soundChip.writeRegister(address, value);
     }
 
     if (address < 0x8000) {
-      // ROM region (0x0000-0x7FFF) - ignore writes for now
-      // TODO: Handle MBC register writes later
+      // ROM region (0x0000-0x7FFF) - MBC register writes, ignored for ROM-only carts
+      if (this.mbc) {
+        this.mbc.writeRom(address, value);
+      }
       return;
     } else if (address < 0xA000) {
-      // VRAM region (0x8000-0x9FFF)
-      this.vram[address - 0x8000] = value;
+      // VRAM region (0x8000-0x9FFF) - writes are dropped while the PPU is drawing
+      if (this.isVramLocked()) {
+        return;
+      }
+      this.vram[(this.vramBank << 13) + address - 0x8000] = value;
     } else if (address < 0xC000) {
       // External RAM region (0xA000-0xBFFF)
-      this.extRam[address - 0xA000] = value;
+      if (this.mbc) {
+        this.mbc.writeRam(address - 0xA000, value);
+      } else {
+        this.extRam[address - 0xA000] = value;
+        this.extRamDirty = true;
+      }
     } else if (address < 0xE000) {
       // Work RAM region (0xC000-0xDFFF)
-      this.workRam[address - 0xC000] = value;
+      this.workRam[this.workRamOffset(address - 0xC000)] = value;
     } else if (address < 0xFE00) {
       // Echo RAM (0xE000-0xFDFF) - mirrors 0xC000-0xDDFF
-      this.workRam[address - 0xE000] = value;
+      this.workRam[this.workRamOffset(address - 0xE000)] = value;
     } else if (address < 0xFEA0) {
-      // OAM region (0xFE00-0xFE9F)
+      // OAM region (0xFE00-0xFE9F) - writes are dropped during the OAM scan and drawing
+      if (this.isOamLocked()) {
+        return;
+      }
       if (value !== 0) {
         console.log(`OAM write (non-zero): 0x${address.toString(16)} = 0x${value.toString(16)}`);
       }
@@ -173,8 +277,39 @@ export class MemoryBus {
         // TAC register - timer control
         this.ioRegisters[0x07] = value & 0x07; // Only lower 3 bits are used
       } else if (address === 0xFF46) {
-        // OAM DMA register - trigger DMA transfer
-        this.handleOAMDMA(value);
+        // OAM DMA register - start (or restart) a DMA transfer
+        this.startOAMDMA(value);
+      } else if (address === 0xFF50) {
+        // Boot ROM disable - any non-zero write unmaps the boot ROM until the next reset
+        if (value !== 0) {
+          this.bootRom = undefined;
+        }
+      } else if (this.cgbMode && address === 0xFF4D) {
+        // KEY1 - arm a speed switch for the next STOP
+        this.speedSwitchArmed = (value & 0x01) !== 0;
+      } else if (this.cgbMode && address === 0xFF4F) {
+        // VBK - select VRAM bank 0 or 1
+        this.vramBank = value & 0x01;
+      } else if (this.cgbMode && address === 0xFF70) {
+        // SVBK - select Work RAM bank 1-7 (0 selects 1)
+        this.workRamBank = (value & 0x07) || 1;
+      } else if (this.cgbMode && address === 0xFF51) {
+        // HDMA1/HDMA2 - source address, high and low (low 4 bits ignored)
+        this.hdmaSource = (value << 8) | (this.hdmaSource & 0xF0);
+      } else if (this.cgbMode && address === 0xFF52) {
+        this.hdmaSource = (this.hdmaSource & 0xFF00) | (value & 0xF0);
+      } else if (this.cgbMode && address === 0xFF53) {
+        // HDMA3/HDMA4 - destination in VRAM, high and low (low 4 bits ignored)
+        this.hdmaDestination = ((value & 0x1F) << 8) | (this.hdmaDestination & 0xF0);
+      } else if (this.cgbMode && address === 0xFF54) {
+        this.hdmaDestination = (this.hdmaDestination & 0x1F00) | (value & 0xF0);
+      } else if (this.cgbMode && address === 0xFF55) {
+        // HDMA5 - start a transfer, or cancel a running H-blank DMA
+        this.startHDMA(value);
+      } else if (this.cgbMode && (address === 0xFF69 || address === 0xFF6B)) {
+        // BCPD/OCPD - write palette memory at the index in BCPS/OCPS
+        this.writePaletteData(address === 0xFF69 ? this.bgPaletteRam : this.objPaletteRam, address - 0xFF01, value);
+        return;
       }
       this.ioRegisters[address - 0xFF00] = value;
     } else if (address < 0xFFFF) {
@@ -204,33 +339,356 @@ export class MemoryBus {
   }
 
   /**
-   * Load ROM data into the ROM region
+   * Load raw ROM data without validating the header
+   * The cartridge type byte (0x0147) selects the memory bank controller;
+   * unsupported types fall back to the flat 32KB ROM region.
    * @param romData The ROM data as Uint8Array
+   * @param options Cartridge hardware options (e.g. the RTC clock source)
+   */
+  loadRom(romData: Uint8Array, options: MbcOptions = {}): void {
+    const cartridge = new Cartridge(romData);
+    this.loadCartridge(cartridge, cartridge.createMemoryBankController(options));
+  }
+
+  /**
+   * Map a cartridge into the ROM and external RAM regions
+   * @param cartridge The cartridge to insert
+   * @param mbc Its memory bank controller, or undefined for ROM-only carts
+   */
+  loadCartridge(cartridge: Cartridge, mbc?: MemoryBankController): void {
+    this.mbc = mbc;
+    this.vramBank = 0;
+    this.workRamBank = 1;
+    this._doubleSpeed = false;
+    this.speedSwitchArmed = false;
+    this.hdmaActive = false;
+    this.hdmaBlocks = 0;
+    this.stallCycles = 0;
+    this.bootRom = undefined;
+    if (this.mbc) {
+      return;
+    }
+
+    const size = Math.min(cartridge.rom.length, this.rom.length);
+    this.rom.set(cartridge.rom.subarray(0, size));
+  }
+
+  /**
+   * Map a boot ROM over the start of the cartridge. Call after loadCartridge;
+   * the boot ROM unmaps itself by writing 0xFF50 once it is done.
+   */
+  mapBootRom(data: Uint8Array): void {
+    this.bootRom = data;
+  }
+
+  /** A boot ROM is mapped over the cartridge */
+  get bootRomMapped(): boolean {
+    return this.bootRom !== undefined;
+  }
+
+  /**
+   * Whether cartridge RAM (or clock) changed since it was last persisted or imported
    */
-  loadRom(romData: Uint8Array): void {
-    const size = Math.min(romData.length, this.rom.length);
-    this.rom.set(romData.subarray(0, size));
+  get saveDirty(): boolean {
+    return this.mbc ? this.mbc.saveDirty : this.extRamDirty;
+  }
+
+  set saveDirty(dirty: boolean) {
+    if (this.mbc) {
+      this.mbc.saveDirty = dirty;
+    } else {
+      this.extRamDirty = dirty;
+    }
+  }
+
+  /**
+   * Export cartridge RAM in .sav layout
+   */
+  exportSaveData(): Uint8Array {
+    if (this.mbc) {
+      return this.mbc.exportSaveData();
+    }
+    return this.extRam.slice();
+  }
+
+  /**
+   * Restore cartridge RAM from a .sav file
+   */
+  importSaveData(data: Uint8Array): void {
+    if (this.mbc) {
+      this.mbc.importSaveData(data);
+      return;
+    }
+    this.extRam.set(data.subarray(0, this.extRam.length));
+    this.extRamDirty = false;
+  }
+
+  saveState(writer: StateWriter): void {
+    writer.section('MEM ', () => {
+      writer.bytes(this.vram);
+      writer.bytes(this.extRam);
+      writer.bytes(this.workRam);
+      writer.bytes(this.oam);
+      writer.bytes(this.ioRegisters);
+      writer.bytes(this.highRam);
+      writer.u8(this.interruptEnable);
+      writer.u16(this.dividerCounter);
+      writer.u32(this.timerCounter);
+      writer.bool(this.cgbMode);
+      writer.u8(this.vramBank);
+      writer.u8(this.workRamBank);
+      writer.bool(this._doubleSpeed);
+      writer.bool(this.speedSwitchArmed);
+      writer.bytes(this.bgPaletteRam);
+      writer.bytes(this.objPaletteRam);
+      writer.u16(this.hdmaSource);
+      writer.u16(this.hdmaDestination);
+      writer.u8(this.hdmaBlocks);
+      writer.bool(this.hdmaActive);
+      writer.u16(this.stallCycles);
+      writer.bytes(this.bootRom ?? new Uint8Array(0));
+      writer.bool(this.dmaActive);
+      writer.u16(this.dmaSource);
+      writer.u8(this.dmaIndex);
+      writer.u8(this.dmaCycles);
+      writer.bool(this.mbc !== undefined);
+    });
+    this.joypad.saveState(writer);
+    this.mbc?.saveState(writer);
+  }
+
+  /**
+   * Restore memory from a save state. The same cartridge must already be loaded.
+   * @throws SaveStateError if the state doesn't match the loaded cartridge hardware
+   */
+  loadState(reader: StateReader): void {
+    const hasMbc = reader.section('MEM ', () => {
+      reader.bytesInto(this.vram);
+      reader.bytesInto(this.extRam);
+      reader.bytesInto(this.workRam);
+      reader.bytesInto(this.oam);
+      reader.bytesInto(this.ioRegisters);
+      reader.bytesInto(this.highRam);
+      this.interruptEnable = reader.u8();
+      this.dividerCounter = reader.u16();
+      this.timerCounter = reader.u32();
+      this.cgbMode = reader.bool();
+      this.vramBank = reader.u8();
+      this.workRamBank = reader.u8();
+      this._doubleSpeed = reader.bool();
+      this.speedSwitchArmed = reader.bool();
+      reader.bytesInto(this.bgPaletteRam);
+      reader.bytesInto(this.objPaletteRam);
+      this.hdmaSource = reader.u16();
+      this.hdmaDestination = reader.u16();
+      this.hdmaBlocks = reader.u8();
+      this.hdmaActive = reader.bool();
+      this.stallCycles = reader.u16();
+      const bootRom = reader.bytes();
+      this.bootRom = bootRom.length > 0 ? bootRom : undefined;
+      this.dmaActive = reader.bool();
+      this.dmaSource = reader.u16();
+      this.dmaIndex = reader.u8();
+      this.dmaCycles = reader.u8();
+      return reader.bool();
+    });
+    if (hasMbc !== (this.mbc !== undefined)) {
+      throw new SaveStateError('Save state was made with a different cartridge type');
+    }
+    this.joypad.loadState(reader);
+    this.mbc?.loadState(reader);
   }
 
   /**
    * Set joypad button state
+   * @param player Joypad 0-3 (joypads 2-4 are for SGB multiplayer)
+   */
+  setJoypadButton(button: string, pressed: boolean, player = 0): void {
+    this.joypad.setButton(button, pressed, player);
+  }
+
+  /**
+   * Read VRAM (0x8000-0x9FFF) on behalf of the PPU, which is never locked out
+   * @param bank VRAM bank, independent of VBK (bank 1 only exists on CGB)
+   */
+  readVram(address: number, bank = 0): number {
+    return this.vram[(bank << 13) + address - 0x8000];
+  }
+
+  /**
+   * Read OAM (0xFE00-0xFE9F) on behalf of the PPU, which is never locked out
+   */
+  readOam(address: number): number {
+    return this.oam[address - 0xFE00];
+  }
+
+  /**
+   * RGB555 color of a CGB background palette, for the PPU
+   * @param palette Palette 0-7 (from the BG map attributes)
+   * @param colorIndex Color 0-3 within the palette
+   */
+  readBgPaletteColor(palette: number, colorIndex: number): number {
+    const index = (palette << 3) | (colorIndex << 1);
+    return this.bgPaletteRam[index] | ((this.bgPaletteRam[index + 1] & 0x7F) << 8);
+  }
+
+  /**
+   * RGB555 color of a CGB object palette, for the PPU
+   * @param palette Palette 0-7 (from the OAM attributes)
+   * @param colorIndex Color 1-3 within the palette
+   */
+  readObjPaletteColor(palette: number, colorIndex: number): number {
+    const index = (palette << 3) | (colorIndex << 1);
+    return this.objPaletteRam[index] | ((this.objPaletteRam[index + 1] & 0x7F) << 8);
+  }
+
+  /** CPU running at 8MHz after a KEY1 speed switch (CGB only) */
+  get doubleSpeed(): boolean {
+    return this._doubleSpeed;
+  }
+
+  /**
+   * Set DIV's internal counter, which writes to DIV can only reset
+   */
+  setDivider(counter: number): void {
+    this.dividerCounter = counter & 0xFFFF;
+  }
+
+  /**
+   * Perform the speed switch armed through KEY1, as STOP does on a CGB
+   * @returns false when no switch was armed, so STOP behaves normally
+   */
+  switchSpeed(): boolean {
+    if (!this.cgbMode || !this.speedSwitchArmed) {
+      return false;
+    }
+    this._doubleSpeed = !this._doubleSpeed;
+    this.speedSwitchArmed = false;
+    this.dividerCounter = 0; // STOP resets DIV
+    return true;
+  }
+
+  /**
+   * Write HDMA5: bit 7 clear runs a general-purpose DMA of all blocks at once, bit 7 set
+   * starts an H-blank DMA. Writing bit 7 clear while an H-blank DMA runs cancels it.
+   */
+  private startHDMA(value: number): void {
+    if (this.hdmaActive && (value & 0x80) === 0) {
+      this.hdmaActive = false;
+      return;
+    }
+
+    this.hdmaBlocks = (value & 0x7F) + 1;
+    if (value & 0x80) {
+      this.hdmaActive = true;
+      if ((this.ioRegisters[0x40] & 0x80) === 0) {
+        this.copyHDMABlock(); // With the LCD off there are no H-blanks to wait for
+      }
+      return;
+    }
+
+    while (this.hdmaBlocks > 0) {
+      this.copyHDMABlock();
+    }
+  }
+
+  /**
+   * Copy the next 16 bytes of an H-blank DMA; the PPU calls this on entering H-blank
+   */
+  stepHBlankDMA(): void {
+    if (this.hdmaActive) {
+      this.copyHDMABlock();
+    }
+  }
+
+  /**
+   * Take the CPU cycles a VRAM DMA has stopped the CPU for, leaving none pending
+   */
+  takeStallCycles(): number {
+    const cycles = this.stallCycles;
+    this.stallCycles = 0;
+    return cycles;
+  }
+
+  /**
+   * Copy 16 bytes from the HDMA source to the current VRAM bank, which stops the CPU
+   * for 8 M-cycles at normal speed (16 in double speed, the same time)
    */
-  setJoypadButton(button: string, pressed: boolean): void {
-    this.joypad.setButton(button, pressed);
+  private copyHDMABlock(): void {
+    const bankOffset = this.vramBank << 13;
+    for (let i = 0; i < 16; i++) {
+      this.vram[bankOffset + ((this.hdmaDestination + i) & 0x1FFF)] = this.readMapped((this.hdmaSource + i) & 0xFFFF);
+    }
+    this.hdmaSource = (this.hdmaSource + 16) & 0xFFFF;
+    this.hdmaDestination = (this.hdmaDestination + 16) & 0x1FF0;
+    this.stallCycles += this._doubleSpeed ? 64 : 32;
+
+    this.hdmaBlocks--;
+    if (this.hdmaBlocks === 0) {
+      this.hdmaActive = false;
+    }
+  }
+
+  /**
+   * Write BCPD/OCPD: store the byte (unless the PPU is drawing) and advance the
+   * index in BCPS/OCPS if its auto-increment bit is set
+   * @param indexRegister I/O register offset of BCPS/OCPS
+   */
+  private writePaletteData(paletteRam: Uint8Array, indexRegister: number, value: number): void {
+    const specification = this.ioRegisters[indexRegister];
+    if (!this.isVramLocked()) {
+      paletteRam[specification & 0x3F] = value;
+    }
+    if (specification & 0x80) {
+      this.ioRegisters[indexRegister] = (specification & 0x80) | ((specification + 1) & 0x3F);
+    }
   }
 
   /**
-   * Handle OAM DMA transfer
+   * Map an offset into 0xC000-0xDFFF to Work RAM, with SVBK selecting the upper 4KB
+   */
+  private workRamOffset(offset: number): number {
+    return offset < 0x1000 ? offset : (this.workRamBank << 12) + offset - 0x1000;
+  }
+
+  private isVramLocked(): boolean {
+    return this.accessRestrictions && this.ppu !== undefined && this.ppu.mode === 3;
+  }
+
+  private isOamLocked(): boolean {
+    return this.accessRestrictions && this.ppu !== undefined && this.ppu.mode >= 2;
+  }
+
+  /**
+   * Start an OAM DMA transfer, which then runs for 160 M-cycles
    * @param sourcePageHighByte The high byte of the source address (0x00-0xDF)
    */
-  private handleOAMDMA(sourcePageHighByte: number): void {
-    // DMA transfers 160 bytes (40 sprites * 4 bytes each) from source to OAM
-    const sourceAddress = sourcePageHighByte << 8; // e.g., 0xC1 becomes 0xC100
-    
-    // Copy 160 bytes from source to OAM (0xFE00-0xFE9F)
-    for (let i = 0; i < 160; i++) {
-      const sourceData = this.read8(sourceAddress + i);
-      this.oam[i] = sourceData;
+  private startOAMDMA(sourcePageHighByte: number): void {
+    this.dmaActive = true;
+    this.dmaSource = sourcePageHighByte << 8; // e.g., 0xC1 becomes 0xC100
+    this.dmaIndex = 0;
+    this.dmaCycles = 0;
+  }
+
+  /**
+   * Advance an OAM DMA transfer, copying one byte to OAM per M-cycle
+   * Should be called every CPU cycle, alongside updateTimers
+   */
+  updateDMA(cycles: number): void {
+    if (!this.dmaActive) {
+      return;
+    }
+
+    this.dmaCycles += cycles;
+    while (this.dmaCycles >= 4) {
+      this.dmaCycles -= 4;
+      this.oam[this.dmaIndex] = this.readMapped(this.dmaSource + this.dmaIndex);
+      this.dmaIndex++;
+
+      if (this.dmaIndex === 160) {
+        this.dmaActive = false;
+        return;
+      }
     }
   }
 
@@ -240,9 +698,7 @@ export class MemoryBus {
    */
   updateTimers(cycles: number): void {
     // Update DIV register (always runs at 16384 Hz = CPU_FREQ / 256)
-    // Add some variation to make it more realistic for RNG
-    const variation = Math.random() < 0.1 ? 1 : 0; // 10% chance of extra increment
-    this.dividerCounter += cycles + variation;
+    this.dividerCounter += cycles;
     
     // Wrap around at 16-bit boundary for more realistic behavior
     if (this.dividerCounter >= 65536) {
@@ -0,0 +1,37 @@
+import { computeHeaderChecksum } from '../cartridge/cartridge';
+
+/**
+ * Build a blank ROM with the given header bytes (strings are written as ASCII)
+ * and a valid header checksum
+ */
+export function createTestRom(header: Record<number, number | string> = {}, size = 0x8000): Uint8Array {
+  const rom = new Uint8Array(size);
+  for (const [address, value] of Object.entries(header)) {
+    if (typeof value === 'string') {
+      for (let i = 0; i < value.length; i++) {
+        rom[Number(address) + i] = value.charCodeAt(i);
+      }
+    } else {
+      rom[Number(address)] = value;
+    }
+  }
+  rom[0x014D] = computeHeaderChecksum(rom);
+  return rom;
+}
+
+/**
+ * Build a cartridge ROM for MBC tests. Each 16KB bank is tagged with its bank number:
+ * the low byte at offset 0, the high byte (for MBC5's 9-bit banks) at offset 1, and
+ * the inverted low byte at offset 0x3FFF to check the end of the bank window.
+ */
+export function createBankedRom(bankCount: number, cartridgeType: number, ramSizeCode = 0x00): Uint8Array {
+  const rom = new Uint8Array(bankCount * 0x4000);
+  for (let bank = 0; bank < bankCount; bank++) {
+    rom[bank * 0x4000] = bank & 0xFF;
+    rom[bank * 0x4000 + 1] = bank >> 8;
+    rom[bank * 0x4000 + 0x3FFF] = (bank ^ 0xFF) & 0xFF;
+  }
+  rom[0x0147] = cartridgeType;
+  rom[0x0149] = ramSizeCode;
+  return rom;
+}
@@ -0,0 +1,278 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SGB_SCREEN_WIDTH, SuperGameBoy } from './super-game-boy';
+import { Joypad } from '../input/joypad';
+import { StateReader, StateWriter } from '../state/state-buffer';
+
+/**
+ * Send a command through P1 like a game does: per packet, a reset pulse, 128 bits
+ * LSB first and a 0 stop bit, with P14/P15 released between pulses
+ */
+function sendCommand(p1: { writeP1(value: number): void }, command: number, data: number[], stopBit = 0): void {
+  const packetCount = Math.max(1, Math.ceil((data.length + 1) / 16));
+  const bytes = new Uint8Array(packetCount * 16);
+  bytes[0] = (command << 3) | packetCount;
+  bytes.set(data, 1);
+  for (let packet = 0; packet < packetCount; packet++) {
+    p1.writeP1(0x00);
+    p1.writeP1(0x30);
+    for (let bit = 0; bit < 128; bit++) {
+      const value = (bytes[(packet * 16) + (bit >> 3)] >> (bit & 7)) & 1;
+      p1.writeP1(value ? 0x10 : 0x20);
+      p1.writeP1(0x30);
+    }
+    p1.writeP1(stopBit ? 0x10 : 0x20);
+    p1.writeP1(0x30);
+  }
+}
+
+/**
+ * Lay 4KB of data out on screen as 256 tiles, 20 per row, the way games send VRAM transfers
+ */
+function transferScreen(data: Uint8Array): Uint8Array {
+  const shades = new Uint8Array(160 * 144);
+  for (let tile = 0; tile < 256; tile++) {
+    for (let row = 0; row < 8; row++) {
+      const low = data[(tile * 16) + (row * 2)];
+      const high = data[(tile * 16) + (row * 2) + 1];
+      for (let x = 0; x < 8; x++) {
+        const shade = ((low >> (7 - x)) & 1) | (((high >> (7 - x)) & 1) << 1);
+        shades[((Math.floor(tile / 20) * 8 + row) * 160) + ((tile % 20) * 8) + x] = shade;
+      }
+    }
+  }
+  return shades;
+}
+
+describe('SuperGameBoy', () => {
+  let sgb: SuperGameBoy;
+  const shades = new Uint8Array(160 * 144);
+
+  // RGB555 colors for color 0, colors 1-3 of the first palette and colors 1-3 of the second
+  const colors = [0x0001, 0x0002, 0x0003, 0x0004, 0x0005, 0x0006, 0x0007];
+  const colorBytes = colors.flatMap((color) => [color & 0xFF, color >> 8]);
+
+  /** Output pixel of the game screen at (x, y) */
+  function pixel(x: number, y: number): number {
+    return sgb.getOutput()[((40 + y) * SGB_SCREEN_WIDTH) + 48 + x];
+  }
+
+  beforeEach(() => {
+    sgb = new SuperGameBoy();
+    shades.fill(3);
+  });
+
+  describe('packets', () => {
+    it('should set palettes 0 and 1 with PAL01', () => {
+      sendCommand(sgb, 0x00, colorBytes);
+      sgb.completeFrame(shades);
+      expect(pixel(0, 0)).toBe(0x0004);
+
+      shades.fill(0);
+      sgb.completeFrame(shades);
+      expect(pixel(0, 0)).toBe(0x0001);
+    });
+
+    it('should ignore joypad reads that are not preceded by a reset pulse', () => {
+      for (let i = 0; i < 200; i++) {
+        sgb.writeP1(0x20);
+        sgb.writeP1(0x10);
+        sgb.writeP1(0x30);
+      }
+      sendCommand(sgb, 0x00, colorBytes);
+      sgb.completeFrame(shades);
+      expect(pixel(0, 0)).toBe(0x0004);
+    });
+
+    it('should drop a packet whose stop bit is 1', () => {
+      sendCommand(sgb, 0x00, colorBytes, 1);
+      sgb.completeFrame(shades);
+      expect(pixel(0, 0)).toBe(0x2866); // Palette 1-A
+    });
+
+    it('should run a command once all of its packets are in', () => {
+      // ATTR_LIN over two packets: all 18 rows, the last in palette 1
+      const lines = Array.from({ length: 18 }, (_, row) => 0x80 | row);
+      lines[17] |= 0x20;
+      sendCommand(sgb, 0x00, colorBytes);
+      sendCommand(sgb, 0x05, [18, ...lines]);
+      sgb.completeFrame(shades);
+
+      expect(pixel(0, 16 * 8)).toBe(0x0004);
+      expect(pixel(0, 17 * 8)).toBe(0x0007);
+    });
+  });
+
+  describe('attributes', () => {
+    beforeEach(() => {
+      sendCommand(sgb, 0x00, colorBytes); // Palette 0 darkest is 0x0004, palette 1 darkest 0x0007
+    });
+
+    it('should color the inside, edge and outside of a block with ATTR_BLK', () => {
+      // Inside palette 1, edge 0, outside 1, for cells (2,2)-(5,5)
+      sendCommand(sgb, 0x04, [1, 0x07, 0x11, 2, 2, 5, 5]);
+      sgb.completeFrame(shades);
+
+      expect(pixel(3 * 8, 3 * 8)).toBe(0x0007);
+      expect(pixel(2 * 8, 3 * 8)).toBe(0x0004);
+      expect(pixel(0, 0)).toBe(0x0007);
+    });
+
+    it('should give the edge the inside palette when only the inside is set', () => {
+      sendCommand(sgb, 0x04, [1, 0x01, 0x01, 2, 2, 5, 5]);
+      sgb.completeFrame(shades);
+
+      expect(pixel(2 * 8, 2 * 8)).toBe(0x0007);
+      expect(pixel(0, 0)).toBe(0x0004);
+    });
+
+    it('should color rows and columns with ATTR_LIN', () => {
+      sendCommand(sgb, 0x05, [2, 0x80 | 0x20 | 3, 0x20 | 7]); // Row 3 and column 7 in palette 1
+      sgb.completeFrame(shades);
+
+      expect(pixel(0, 3 * 8)).toBe(0x0007);
+      expect(pixel(7 * 8, 0)).toBe(0x0007);
+      expect(pixel(0, 0)).toBe(0x0004);
+    });
+
+    it('should split the screen with ATTR_DIV', () => {
+      sendCommand(sgb, 0x06, [0x40 | 0x04, 9]); // Above row 9: palette 1, on and below: palette 0
+      sgb.completeFrame(shades);
+
+      expect(pixel(0, 8 * 8)).toBe(0x0007);
+      expect(pixel(0, 9 * 8)).toBe(0x0004);
+      expect(pixel(0, 10 * 8)).toBe(0x0004);
+    });
+
+    it('should set cells in order with ATTR_CHR, wrapping at the end of a row', () => {
+      sendCommand(sgb, 0x07, [19, 0, 3, 0, 0, 0b01000100]);
+      sgb.completeFrame(shades);
+
+      expect(pixel(19 * 8, 0)).toBe(0x0007);
+      expect(pixel(0, 8)).toBe(0x0004);
+      expect(pixel(8, 8)).toBe(0x0007);
+    });
+  });
+
+  describe('VRAM transfers', () => {
+    it('should pick system palettes sent with PAL_TRN using PAL_SET', () => {
+      const data = new Uint8Array(0x1000);
+      data.set([0x11, 0x00, 0x22, 0x00, 0x33, 0x00, 0x44, 0x00], 5 * 8); // System palette 5
+      sendCommand(sgb, 0x0B, []);
+      sgb.completeFrame(transferScreen(data));
+
+      sendCommand(sgb, 0x0A, [5, 0, 5, 0, 5, 0, 5, 0]);
+      sgb.completeFrame(shades);
+      expect(pixel(0, 0)).toBe(0x0044);
+    });
+
+    it('should apply attribute files from ATTR_TRN with ATTR_SET', () => {
+      sendCommand(sgb, 0x00, colorBytes);
+      const data = new Uint8Array(0x1000);
+      data[90] = 0x40; // File 1: first cell in palette 1
+      sendCommand(sgb, 0x15, []);
+      sgb.completeFrame(transferScreen(data));
+
+      sendCommand(sgb, 0x16, [1]);
+      sgb.completeFrame(shades);
+      expect(pixel(0, 0)).toBe(0x0007);
+      expect(pixel(8, 0)).toBe(0x0004);
+    });
+
+    it('should draw the border from CHR_TRN tiles and the PCT_TRN map', () => {
+      const tiles = new Uint8Array(0x1000);
+      tiles.fill(0xFF, 32, 48); // Tile 1: bit planes 0 and 1 set, so color 3
+      sendCommand(sgb, 0x13, [0]);
+      sgb.completeFrame(transferScreen(tiles));
+
+      const map = new Uint8Array(0x1000);
+      map[0] = 1;             // Top-left tile: tile 1 in palette 4
+      map[1] = 0x10;
+      map[0x800 + 6] = 0x1F;  // Palette 4 color 3: red
+      sendCommand(sgb, 0x14, []);
+      sgb.completeFrame(transferScreen(map));
+
+      expect(sgb.getOutput()[0]).toBe(0x001F);
+      expect(sgb.getOutput()[8]).toBe(sgb.getOutput()[SGB_SCREEN_WIDTH * 223]); // Tile 0 is see-through
+    });
+  });
+
+  describe('MASK_EN', () => {
+    it('should freeze, blacken or blank the game screen', () => {
+      sendCommand(sgb, 0x00, colorBytes);
+      sgb.completeFrame(shades);
+
+      sendCommand(sgb, 0x17, [1]);
+      shades.fill(0);
+      sgb.completeFrame(shades);
+      expect(pixel(0, 0)).toBe(0x0004);
+
+      sendCommand(sgb, 0x17, [2]);
+      sgb.completeFrame(shades);
+      expect(pixel(0, 0)).toBe(0x0000);
+
+      sendCommand(sgb, 0x17, [3]);
+      shades.fill(3);
+      sgb.completeFrame(shades);
+      expect(pixel(0, 0)).toBe(0x0001);
+
+      sendCommand(sgb, 0x17, [0]);
+      sgb.completeFrame(shades);
+      expect(pixel(0, 0)).toBe(0x0004);
+    });
+  });
+
+  describe('multiplayer (MLT_REQ)', () => {
+    let joypad: Joypad;
+
+    beforeEach(() => {
+      joypad = new Joypad();
+      joypad.sgb = sgb;
+    });
+
+    it('should cycle through four joypad IDs when P15 goes high', () => {
+      sendCommand(joypad, 0x11, [3]);
+      expect(sgb.playerCount).toBe(4);
+
+      const ids: number[] = [];
+      for (let i = 0; i < 5; i++) {
+        joypad.writeP1(0x30);
+        ids.push(joypad.readP1() & 0x0F);
+        joypad.writeP1(0x10);
+      }
+      expect(ids).toEqual([0x0F, 0x0E, 0x0D, 0x0C, 0x0F]);
+    });
+
+    it('should read the buttons of the current joypad', () => {
+      joypad.setButton('A', true, 1);
+      sendCommand(joypad, 0x11, [1]);
+
+      joypad.writeP1(0x10);
+      expect(joypad.readP1() & 0x01).toBe(0x01); // Joypad 1
+      joypad.writeP1(0x30);
+      joypad.writeP1(0x10);
+      expect(joypad.readP1() & 0x01).toBe(0x00); // Joypad 2 holds A
+    });
+
+    it('should stay on one joypad until multiplayer is requested', () => {
+      joypad.writeP1(0x10);
+      joypad.writeP1(0x30);
+      expect(joypad.readP1() & 0x0F).toBe(0x0F);
+    });
+  });
+
+  it('should save and restore palettes, attributes and the border', () => {
+    sendCommand(sgb, 0x00, colorBytes);
+    sendCommand(sgb, 0x06, [0x40 | 0x04, 9]);
+    sendCommand(sgb, 0x11, [1]);
+    const writer = new StateWriter();
+    sgb.saveState(writer);
+
+    const restored = new SuperGameBoy();
+    restored.loadState(new StateReader(writer.toUint8Array()));
+    restored.render(shades);
+    sgb.render(shades);
+
+    expect(restored.getOutput()).toEqual(sgb.getOutput());
+    expect(restored.playerCount).toBe(2);
+  });
+});
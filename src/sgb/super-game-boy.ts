@@ -0,0 +1,559 @@
+import { StateReader, StateWriter } from '../state/state-buffer';
+import { rgb555 } from '../graphics/colors';
+
+// Output with the border: the Game Boy's 160x144 screen sits at (48, 40) in a 256x224 picture
+export const SGB_SCREEN_WIDTH = 256;
+export const SGB_SCREEN_HEIGHT = 224;
+const GAME_X = 48;
+const GAME_Y = 40;
+const GAME_WIDTH = 160;
+const GAME_HEIGHT = 144;
+
+// The attribute map gives a palette (0-3) to each 8x8 cell of the game screen
+const MAP_WIDTH = 20;
+const MAP_HEIGHT = 18;
+const ATTRIBUTE_FILE_SIZE = 90; // 360 cells at 2 bits each
+const ATTRIBUTE_FILES = 45;
+
+// Each packet is 16 bytes; the first holds the command (bits 3-7) and packet count (bits 0-2)
+const PACKET_SIZE = 16;
+const MAX_PACKETS = 7;
+
+// Command codes
+const PAL01 = 0x00;
+const PAL23 = 0x01;
+const PAL03 = 0x02;
+const PAL12 = 0x03;
+const ATTR_BLK = 0x04;
+const ATTR_LIN = 0x05;
+const ATTR_DIV = 0x06;
+const ATTR_CHR = 0x07;
+const PAL_SET = 0x0A;
+const PAL_TRN = 0x0B;
+const MLT_REQ = 0x11;
+const CHR_TRN = 0x13;
+const PCT_TRN = 0x14;
+const ATTR_TRN = 0x15;
+const ATTR_SET = 0x16;
+const MASK_EN = 0x17;
+
+// VRAM transfers copy 4KB, shown as 256 tiles in order across the next frame
+const TRANSFER_SIZE = 0x1000;
+const NO_TRANSFER = 0xFF;
+
+// MASK_EN modes
+const MASK_FREEZE = 1;
+const MASK_BLACK = 2;
+const MASK_COLOR_0 = 3;
+
+// Palette 1-A, which the SGB starts with
+const DEFAULT_PALETTE = [rgb555(31, 29, 25), rgb555(27, 18, 9), rgb555(21, 5, 4), rgb555(6, 3, 10)];
+
+/**
+ * Super Game Boy
+ * Receives command packets the game sends through P1, colors the Game Boy's four
+ * shades with four palettes picked per 8x8 cell, and draws the screen inside a border.
+ * MLT_REQ turns on multiplayer, which has P1 report (and read) one of up to 4 joypads.
+ */
+export class SuperGameBoy {
+  // Packet receiver: a reset pulse (P14 and P15 low) starts a packet, then each low pulse on
+  // P14 sends a 0 bit and on P15 a 1 bit, LSB first, with a 0 stop bit after 128 bits
+  private p1Lines = 0x30;
+  private receiving = false;
+  private bitCount = 0;
+  private packets = new Uint8Array(PACKET_SIZE * MAX_PACKETS);
+  private packetCount = 0; // Packets of the current command received so far
+
+  private palettes = new Uint16Array(16); // 4 palettes of 4 RGB555 colors, color 0 shared
+  private systemPalettes = new Uint8Array(TRANSFER_SIZE); // 512 palettes from PAL_TRN
+  private attributeMap = new Uint8Array(MAP_WIDTH * MAP_HEIGHT);
+  private attributeFiles = new Uint8Array(ATTRIBUTE_FILE_SIZE * ATTRIBUTE_FILES); // From ATTR_TRN
+  private borderTiles = new Uint8Array(TRANSFER_SIZE * 2); // 256 SNES 4bpp tiles from CHR_TRN
+  private borderData = new Uint8Array(0x880); // 32x32 tile map, then palettes 4-7 (PCT_TRN)
+  private mask = 0;
+  private _playerCount = 1;
+  private _currentPlayer = 0;
+  private pendingTransfer = NO_TRANSFER; // Command waiting for the next frame
+  private transferArgument = 0;
+
+  private output = new Uint16Array(SGB_SCREEN_WIDTH * SGB_SCREEN_HEIGHT);
+  private borderDirty = true;
+
+  constructor() {
+    this.reset();
+  }
+
+  /** Joypads enabled by MLT_REQ (1, 2 or 4) */
+  get playerCount(): number {
+    return this._playerCount;
+  }
+
+  /** Joypad P1 currently reads (0-3) */
+  get currentPlayer(): number {
+    return this._currentPlayer;
+  }
+
+  /**
+   * Power on: default palettes, empty border, one player
+   */
+  reset(): void {
+    this.p1Lines = 0x30;
+    this.receiving = false;
+    this.bitCount = 0;
+    this.packetCount = 0;
+    for (let palette = 0; palette < 4; palette++) {
+      this.palettes.set(DEFAULT_PALETTE, palette * 4);
+    }
+    this.systemPalettes.fill(0);
+    this.attributeMap.fill(0);
+    this.attributeFiles.fill(0);
+    this.borderTiles.fill(0);
+    this.borderData.fill(0);
+    this.mask = 0;
+    this._playerCount = 1;
+    this._currentPlayer = 0;
+    this.pendingTransfer = NO_TRANSFER;
+    this.output.fill(0);
+    this.borderDirty = true;
+  }
+
+  /**
+   * Watch a P1 write (bits 4-5) for packet bits and multiplayer joypad switches
+   */
+  writeP1(value: number): void {
+    const lines = value & 0x30;
+    const previous = this.p1Lines;
+    this.p1Lines = lines;
+
+    // With multiplayer on, P15 going high moves on to the next joypad
+    if (this._playerCount > 1 && (previous & 0x20) === 0 && (lines & 0x20) !== 0) {
+      this._currentPlayer = (this._currentPlayer + 1) & (this._playerCount - 1);
+    }
+
+    if (lines === 0x00) {
+      this.receiving = true;
+      this.bitCount = 0;
+      return;
+    }
+    if (!this.receiving || previous !== 0x30 || lines === 0x30) {
+      return;
+    }
+
+    const bit = lines === 0x10 ? 1 : 0;
+    if (this.bitCount === PACKET_SIZE * 8) {
+      // Stop bit: must be 0, then the packet is complete
+      this.receiving = false;
+      if (bit === 0) {
+        this.receivePacket();
+      }
+      return;
+    }
+    const index = (this.packetCount * PACKET_SIZE) + (this.bitCount >> 3);
+    if ((this.bitCount & 7) === 0) {
+      this.packets[index] = 0;
+    }
+    this.packets[index] |= bit << (this.bitCount & 7);
+    this.bitCount++;
+  }
+
+  /**
+   * Finish a frame: run any VRAM transfer from the shades the Game Boy just displayed,
+   * then draw the frame
+   * @param shades The Game Boy's 160x144 screen as shades 0-3
+   */
+  completeFrame(shades: Uint8Array): void {
+    if (this.pendingTransfer !== NO_TRANSFER) {
+      this.runTransfer(this.readTransfer(shades));
+      this.pendingTransfer = NO_TRANSFER;
+    }
+    this.render(shades);
+  }
+
+  /**
+   * Draw the border (when it changed) and the colored game screen into the output
+   * @param shades The Game Boy's 160x144 screen as shades 0-3
+   */
+  render(shades: Uint8Array): void {
+    if (this.borderDirty) {
+      this.renderBorder();
+      this.borderDirty = false;
+    }
+    if (this.mask !== MASK_FREEZE) {
+      this.renderGameArea(shades);
+    }
+  }
+
+  /**
+   * Get the 256x224 RGB555 picture: border with the game screen inside
+   */
+  getOutput(): Uint16Array {
+    return this.output;
+  }
+
+  /**
+   * Store a received packet and run the command once all of its packets are in
+   */
+  private receivePacket(): void {
+    this.packetCount++;
+    const length = Math.max(1, this.packets[0] & 0x07);
+    if (this.packetCount < length) {
+      return;
+    }
+    this.packetCount = 0;
+    this.runCommand(this.packets[0] >> 3);
+  }
+
+  private runCommand(command: number): void {
+    const data = this.packets;
+    switch (command) {
+      case PAL01:
+        this.setPalettePair(0, 1);
+        break;
+      case PAL23:
+        this.setPalettePair(2, 3);
+        break;
+      case PAL03:
+        this.setPalettePair(0, 3);
+        break;
+      case PAL12:
+        this.setPalettePair(1, 2);
+        break;
+      case ATTR_BLK:
+        this.attributeBlocks();
+        break;
+      case ATTR_LIN:
+        this.attributeLines();
+        break;
+      case ATTR_DIV:
+        this.attributeDivide();
+        break;
+      case ATTR_CHR:
+        this.attributeCells();
+        break;
+      case PAL_SET:
+        this.setSystemPalettes();
+        break;
+      case ATTR_SET:
+        this.applyAttributeFile(data[1] & 0x3F);
+        if (data[1] & 0x40) {
+          this.mask = 0;
+        }
+        break;
+      case PAL_TRN:
+      case CHR_TRN:
+      case PCT_TRN:
+      case ATTR_TRN:
+        this.pendingTransfer = command;
+        this.transferArgument = data[1];
+        break;
+      case MLT_REQ:
+        this._playerCount = [1, 2, 1, 4][data[1] & 0x03];
+        this._currentPlayer = 0;
+        break;
+      case MASK_EN:
+        this.mask = data[1] & 0x03;
+        break;
+      default:
+        // Sound, SNES program and other commands have nothing to do on a Game Boy screen
+        break;
+    }
+  }
+
+  /**
+   * PALxx: color 0 (shared by all palettes), colors 1-3 of the first palette, then of the second
+   */
+  private setPalettePair(first: number, second: number): void {
+    const color = (index: number): number => (this.packets[1 + (index * 2)] | (this.packets[2 + (index * 2)] << 8)) & 0x7FFF;
+    for (let palette = 0; palette < 4; palette++) {
+      this.palettes[palette * 4] = color(0);
+    }
+    for (let i = 1; i < 4; i++) {
+      this.palettes[(first * 4) + i] = color(i);
+      this.palettes[(second * 4) + i] = color(i + 3);
+    }
+    this.borderDirty = true; // Color 0 also fills the border's transparent pixels
+  }
+
+  /**
+   * PAL_SET: copy four of the 512 system palettes, optionally applying an attribute file
+   */
+  private setSystemPalettes(): void {
+    const data = this.packets;
+    for (let palette = 0; palette < 4; palette++) {
+      const offset = ((data[1 + (palette * 2)] | (data[2 + (palette * 2)] << 8)) & 0x1FF) * 8;
+      for (let i = 0; i < 4; i++) {
+        this.palettes[(palette * 4) + i] = (this.systemPalettes[offset + (i * 2)] | (this.systemPalettes[offset + (i * 2) + 1] << 8)) & 0x7FFF;
+      }
+    }
+    for (let palette = 1; palette < 4; palette++) {
+      this.palettes[palette * 4] = this.palettes[0];
+    }
+    if (data[9] & 0x80) {
+      this.applyAttributeFile(data[9] & 0x3F);
+    }
+    if (data[9] & 0x40) {
+      this.mask = 0;
+    }
+    this.borderDirty = true;
+  }
+
+  /**
+   * ATTR_BLK: color the inside, edge and/or outside of rectangles. When only the inside or
+   * only the outside is given, the edge gets that palette too.
+   */
+  private attributeBlocks(): void {
+    const data = this.packets;
+    const count = Math.min(data[1], 18);
+    for (let block = 0; block < count; block++) {
+      const offset = 2 + (block * 6);
+      const control = data[offset] & 0x07;
+      const inside = data[offset + 1] & 0x03;
+      const outside = (data[offset + 1] >> 4) & 0x03;
+      let edge = (data[offset + 1] >> 2) & 0x03;
+      let edgeControl = control & 0x02;
+      if (control === 0x01) {
+        edge = inside;
+        edgeControl = 0x02;
+      } else if (control === 0x04) {
+        edge = outside;
+        edgeControl = 0x02;
+      }
+      const [x1, y1, x2, y2] = [data[offset + 2] & 0x1F, data[offset + 3] & 0x1F, data[offset + 4] & 0x1F, data[offset + 5] & 0x1F];
+
+      for (let y = 0; y < MAP_HEIGHT; y++) {
+        for (let x = 0; x < MAP_WIDTH; x++) {
+          const within = x >= x1 && x <= x2 && y >= y1 && y <= y2;
+          const onEdge = within && (x === x1 || x === x2 || y === y1 || y === y2);
+          if (onEdge) {
+            if (edgeControl) {
+              this.attributeMap[(y * MAP_WIDTH) + x] = edge;
+            }
+          } else if (within) {
+            if (control & 0x01) {
+              this.attributeMap[(y * MAP_WIDTH) + x] = inside;
+            }
+          } else if (control & 0x04) {
+            this.attributeMap[(y * MAP_WIDTH) + x] = outside;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * ATTR_LIN: color whole rows (bit 7 set) or columns, one per byte
+   */
+  private attributeLines(): void {
+    const data = this.packets;
+    const count = Math.min(data[1], (PACKET_SIZE * MAX_PACKETS) - 2);
+    for (let i = 0; i < count; i++) {
+      const line = data[2 + i] & 0x1F;
+      const palette = (data[2 + i] >> 5) & 0x03;
+      if (data[2 + i] & 0x80) {
+        if (line < MAP_HEIGHT) {
+          this.attributeMap.fill(palette, line * MAP_WIDTH, (line + 1) * MAP_WIDTH);
+        }
+      } else if (line < MAP_WIDTH) {
+        for (let y = 0; y < MAP_HEIGHT; y++) {
+          this.attributeMap[(y * MAP_WIDTH) + line] = palette;
+        }
+      }
+    }
+  }
+
+  /**
+   * ATTR_DIV: split the screen at a row (bit 6 set) or column, with a palette for
+   * each side and one for the dividing line
+   */
+  private attributeDivide(): void {
+    const data = this.packets;
+    const after = data[1] & 0x03;  // Right of or below the line
+    const before = (data[1] >> 2) & 0x03;
+    const onLine = (data[1] >> 4) & 0x03;
+    const horizontal = (data[1] & 0x40) !== 0;
+    const coordinate = data[2] & 0x1F;
+    for (let y = 0; y < MAP_HEIGHT; y++) {
+      for (let x = 0; x < MAP_WIDTH; x++) {
+        const position = horizontal ? y : x;
+        this.attributeMap[(y * MAP_WIDTH) + x] = position < coordinate ? before : position > coordinate ? after : onLine;
+      }
+    }
+  }
+
+  /**
+   * ATTR_CHR: set cells one by one from a start cell, left to right (or top to bottom),
+   * with four 2-bit palettes per byte
+   */
+  private attributeCells(): void {
+    const data = this.packets;
+    let x = data[1] % MAP_WIDTH;
+    let y = data[2] % MAP_HEIGHT;
+    const count = Math.min(data[3] | (data[4] << 8), MAP_WIDTH * MAP_HEIGHT, ((PACKET_SIZE * MAX_PACKETS) - 6) * 4);
+    const vertical = data[5] !== 0;
+    for (let i = 0; i < count; i++) {
+      this.attributeMap[(y * MAP_WIDTH) + x] = (data[6 + (i >> 2)] >> (6 - ((i & 3) * 2))) & 0x03;
+      if (vertical) {
+        y++;
+        if (y === MAP_HEIGHT) {
+          y = 0;
+          x = (x + 1) % MAP_WIDTH;
+        }
+      } else {
+        x++;
+        if (x === MAP_WIDTH) {
+          x = 0;
+          y = (y + 1) % MAP_HEIGHT;
+        }
+      }
+    }
+  }
+
+  /**
+   * Load one of the 45 attribute files sent with ATTR_TRN into the attribute map
+   */
+  private applyAttributeFile(file: number): void {
+    if (file >= ATTRIBUTE_FILES) {
+      return;
+    }
+    const offset = file * ATTRIBUTE_FILE_SIZE;
+    for (let cell = 0; cell < MAP_WIDTH * MAP_HEIGHT; cell++) {
+      this.attributeMap[cell] = (this.attributeFiles[offset + (cell >> 2)] >> (6 - ((cell & 3) * 2))) & 0x03;
+    }
+  }
+
+  /**
+   * Rebuild the 4KB a game sends through the screen: 256 tiles, 20 per row, as 2bpp tile data
+   */
+  private readTransfer(shades: Uint8Array): Uint8Array {
+    const data = new Uint8Array(TRANSFER_SIZE);
+    for (let tile = 0; tile < 256; tile++) {
+      const tileX = (tile % MAP_WIDTH) * 8;
+      const tileY = Math.floor(tile / MAP_WIDTH) * 8;
+      for (let row = 0; row < 8; row++) {
+        let low = 0;
+        let high = 0;
+        for (let x = 0; x < 8; x++) {
+          const shade = shades[((tileY + row) * GAME_WIDTH) + tileX + x];
+          low |= (shade & 1) << (7 - x);
+          high |= (shade >> 1) << (7 - x);
+        }
+        data[(tile * 16) + (row * 2)] = low;
+        data[(tile * 16) + (row * 2) + 1] = high;
+      }
+    }
+    return data;
+  }
+
+  private runTransfer(data: Uint8Array): void {
+    switch (this.pendingTransfer) {
+      case PAL_TRN:
+        this.systemPalettes.set(data);
+        break;
+      case CHR_TRN:
+        this.borderTiles.set(data, (this.transferArgument & 0x01) ? TRANSFER_SIZE : 0);
+        this.borderDirty = true;
+        break;
+      case PCT_TRN:
+        this.borderData.set(data.subarray(0, this.borderData.length));
+        this.borderDirty = true;
+        break;
+      case ATTR_TRN:
+        this.attributeFiles.set(data.subarray(0, this.attributeFiles.length));
+        break;
+    }
+  }
+
+  /**
+   * Draw the 32x28 tile border; color 0 of its tiles shows SGB color 0 through
+   */
+  private renderBorder(): void {
+    const backdrop = this.palettes[0];
+    for (let row = 0; row < SGB_SCREEN_HEIGHT / 8; row++) {
+      for (let column = 0; column < SGB_SCREEN_WIDTH / 8; column++) {
+        const mapOffset = ((row * 32) + column) * 2;
+        const entry = this.borderData[mapOffset] | (this.borderData[mapOffset + 1] << 8);
+        const tileOffset = (entry & 0xFF) * 32;
+        const paletteOffset = 0x800 + (((entry >> 10) & 0x03) * 32); // Palettes 4-7
+        for (let y = 0; y < 8; y++) {
+          const tileY = (entry & 0x8000) ? 7 - y : y;
+          const plane0 = this.borderTiles[tileOffset + (tileY * 2)];
+          const plane1 = this.borderTiles[tileOffset + (tileY * 2) + 1];
+          const plane2 = this.borderTiles[tileOffset + 16 + (tileY * 2)];
+          const plane3 = this.borderTiles[tileOffset + 16 + (tileY * 2) + 1];
+          for (let x = 0; x < 8; x++) {
+            const bit = (entry & 0x4000) ? x : 7 - x;
+            const color = ((plane0 >> bit) & 1) | (((plane1 >> bit) & 1) << 1)
+              | (((plane2 >> bit) & 1) << 2) | (((plane3 >> bit) & 1) << 3);
+            this.output[(((row * 8) + y) * SGB_SCREEN_WIDTH) + (column * 8) + x] = color === 0
+              ? backdrop
+              : (this.borderData[paletteOffset + (color * 2)] | (this.borderData[paletteOffset + (color * 2) + 1] << 8)) & 0x7FFF;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Color the game screen's shades with each cell's palette (or blank it for MASK_EN)
+   */
+  private renderGameArea(shades: Uint8Array): void {
+    for (let y = 0; y < GAME_HEIGHT; y++) {
+      const outputStart = ((GAME_Y + y) * SGB_SCREEN_WIDTH) + GAME_X;
+      for (let x = 0; x < GAME_WIDTH; x++) {
+        let color: number;
+        if (this.mask === MASK_BLACK) {
+          color = 0x0000;
+        } else if (this.mask === MASK_COLOR_0) {
+          color = this.palettes[0];
+        } else {
+          const palette = this.attributeMap[((y >> 3) * MAP_WIDTH) + (x >> 3)];
+          color = this.palettes[(palette * 4) + shades[(y * GAME_WIDTH) + x]];
+        }
+        this.output[outputStart + x] = color;
+      }
+    }
+  }
+
+  saveState(writer: StateWriter): void {
+    writer.section('SGB ', () => {
+      writer.u8(this.p1Lines);
+      writer.bool(this.receiving);
+      writer.u8(this.bitCount);
+      writer.bytes(this.packets);
+      writer.u8(this.packetCount);
+      writer.words(this.palettes);
+      writer.bytes(this.systemPalettes);
+      writer.bytes(this.attributeMap);
+      writer.bytes(this.attributeFiles);
+      writer.bytes(this.borderTiles);
+      writer.bytes(this.borderData);
+      writer.u8(this.mask);
+      writer.u8(this._playerCount);
+      writer.u8(this._currentPlayer);
+      writer.u8(this.pendingTransfer);
+      writer.u8(this.transferArgument);
+    });
+  }
+
+  loadState(reader: StateReader): void {
+    reader.section('SGB ', () => {
+      this.p1Lines = reader.u8();
+      this.receiving = reader.bool();
+      this.bitCount = reader.u8();
+      reader.bytesInto(this.packets);
+      this.packetCount = reader.u8();
+      reader.wordsInto(this.palettes);
+      reader.bytesInto(this.systemPalettes);
+      reader.bytesInto(this.attributeMap);
+      reader.bytesInto(this.attributeFiles);
+      reader.bytesInto(this.borderTiles);
+      reader.bytesInto(this.borderData);
+      this.mask = reader.u8();
+      this._playerCount = reader.u8();
+      this._currentPlayer = reader.u8();
+      this.pendingTransfer = reader.u8();
+      this.transferArgument = reader.u8();
+    });
+    this.borderDirty = true;
+  }
+}
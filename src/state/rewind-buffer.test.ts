@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { RewindBuffer } from './rewind-buffer';
+
+/**
+ * Build a 64KB "state" where only a few bytes change between frames
+ */
+function createState(frame: number): Uint8Array {
+  const state = new Uint8Array(0x10000);
+  for (let i = 0; i < state.length; i += 97) {
+    state[i] = i & 0xFF;
+  }
+  state[0x1234] = frame & 0xFF;
+  state[0x8000 + (frame % 16)] = 0xAA;
+  state.fill(frame & 0xFF, 0xC000, 0xC020);
+  return state;
+}
+
+describe('RewindBuffer', () => {
+  it('should return snapshots newest first', () => {
+    const buffer = new RewindBuffer();
+    for (let frame = 1; frame <= 10; frame++) {
+      buffer.push(frame, createState(frame));
+    }
+
+    for (let frame = 10; frame >= 1; frame--) {
+      const snapshot = buffer.pop();
+      expect(snapshot?.frame).toBe(frame);
+      expect(snapshot?.state).toEqual(createState(frame));
+    }
+    expect(buffer.pop()).toBeUndefined();
+  });
+
+  it('should peek at the newest snapshot without removing it', () => {
+    const buffer = new RewindBuffer();
+    buffer.push(4, createState(4));
+    buffer.push(8, createState(8));
+
+    expect(buffer.peek()?.frame).toBe(8);
+    expect(buffer.length).toBe(2);
+  });
+
+  it('should store older snapshots as small deltas', () => {
+    const buffer = new RewindBuffer();
+    for (let frame = 1; frame <= 100; frame++) {
+      buffer.push(frame, createState(frame));
+    }
+
+    // One full 64KB state plus 99 deltas of a few dozen bytes
+    expect(buffer.memoryUsage).toBeLessThan(0x10000 + 99 * 100);
+  });
+
+  it('should drop the oldest snapshots to stay within the memory budget', () => {
+    const buffer = new RewindBuffer({ memoryBudget: 0x10000 + 500 });
+    for (let frame = 1; frame <= 100; frame++) {
+      buffer.push(frame, createState(frame));
+    }
+
+    expect(buffer.memoryUsage).toBeLessThanOrEqual(0x10000 + 500);
+    expect(buffer.length).toBeLessThan(100);
+    expect(buffer.peek()?.frame).toBe(100);
+
+    // Everything left is still recoverable
+    let snapshot;
+    while ((snapshot = buffer.pop())) {
+      expect(snapshot.state).toEqual(createState(snapshot.frame));
+    }
+  });
+
+  it('should always keep the newest snapshot', () => {
+    const buffer = new RewindBuffer({ memoryBudget: 16 });
+    buffer.push(1, createState(1));
+    buffer.push(2, createState(2));
+    expect(buffer.length).toBe(1);
+    expect(buffer.peek()?.frame).toBe(2);
+  });
+
+  it('should store snapshots of a different size in full', () => {
+    const buffer = new RewindBuffer();
+    buffer.push(1, new Uint8Array([1, 2, 3]));
+    buffer.push(2, createState(2));
+
+    expect(buffer.pop()?.state).toEqual(createState(2));
+    expect(buffer.pop()?.state).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('should default to a snapshot every 4 frames', () => {
+    expect(new RewindBuffer().interval).toBe(4);
+    expect(new RewindBuffer({ interval: 0 }).interval).toBe(1);
+  });
+});
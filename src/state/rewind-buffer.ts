@@ -0,0 +1,190 @@
+/**
+ * Rewind buffer settings
+ */
+export interface RewindOptions {
+  /** Frames between snapshots (default 4) */
+  interval?: number;
+  /** Maximum bytes held by snapshots before the oldest are dropped (default 32MB) */
+  memoryBudget?: number;
+}
+
+/**
+ * A save state captured at the end of a frame
+ */
+export interface RewindSnapshot {
+  frame: number;
+  state: Uint8Array;
+}
+
+interface RewindEntry {
+  frame: number;
+  data: Uint8Array; // Full state, or a delta against the next newer entry
+  full: boolean;
+}
+
+// Zero bytes needed to end a literal run; shorter gaps are cheaper to copy than to encode
+const MIN_ZERO_RUN = 4;
+
+/**
+ * Rewind Buffer
+ * Ring buffer of save states taken every few frames, oldest dropped first when over budget.
+ *
+ * Only the newest snapshot is stored in full. Each older one is kept as a delta
+ * (XOR with the next newer snapshot, zero runs encoded) - consecutive states differ
+ * in a few KB at most, so this stores minutes of history in a few MB. Popping the
+ * newest snapshot rebuilds the one before it from its delta.
+ */
+export class RewindBuffer {
+  public readonly interval: number;
+  public readonly memoryBudget: number;
+
+  private entries: RewindEntry[] = [];
+  private _memoryUsage = 0;
+
+  constructor(options: RewindOptions = {}) {
+    this.interval = Math.max(1, Math.floor(options.interval ?? 4));
+    this.memoryBudget = options.memoryBudget ?? 32 * 1024 * 1024;
+  }
+
+  /** Number of snapshots held */
+  get length(): number {
+    return this.entries.length;
+  }
+
+  /** Bytes held by snapshots and deltas */
+  get memoryUsage(): number {
+    return this._memoryUsage;
+  }
+
+  /**
+   * Add a snapshot as the newest entry, dropping the oldest while over the memory budget
+   */
+  push(frame: number, state: Uint8Array): void {
+    const newest = this.entries[this.entries.length - 1];
+    if (newest) {
+      const delta = encodeDelta(state, newest.data);
+      if (delta) {
+        this._memoryUsage += delta.length - newest.data.length;
+        newest.data = delta;
+        newest.full = false;
+      }
+    }
+
+    this.entries.push({ frame, data: state, full: true });
+    this._memoryUsage += state.length;
+
+    // Always keep the newest snapshot, even if it alone exceeds the budget
+    while (this._memoryUsage > this.memoryBudget && this.entries.length > 1) {
+      const oldest = this.entries.shift();
+      this._memoryUsage -= oldest?.data.length ?? 0;
+    }
+  }
+
+  /**
+   * Get the newest snapshot without removing it
+   */
+  peek(): RewindSnapshot | undefined {
+    const newest = this.entries[this.entries.length - 1];
+    return newest ? { frame: newest.frame, state: newest.data } : undefined;
+  }
+
+  /**
+   * Remove and return the newest snapshot
+   */
+  pop(): RewindSnapshot | undefined {
+    const newest = this.entries.pop();
+    if (!newest) {
+      return undefined;
+    }
+    this._memoryUsage -= newest.data.length;
+
+    const previous = this.entries[this.entries.length - 1];
+    if (previous && !previous.full) {
+      const state = decodeDelta(newest.data, previous.data);
+      this._memoryUsage += state.length - previous.data.length;
+      previous.data = state;
+      previous.full = true;
+    }
+    return { frame: newest.frame, state: newest.data };
+  }
+
+  clear(): void {
+    this.entries = [];
+    this._memoryUsage = 0;
+  }
+}
+
+/**
+ * Encode `target` as a delta against `base`:
+ * repeated [zero run length][literal length][literal XOR bytes], lengths as LEB128 varints.
+ * Returns undefined when the sizes differ and the target must be stored in full.
+ */
+function encodeDelta(base: Uint8Array, target: Uint8Array): Uint8Array | undefined {
+  if (base.length !== target.length) {
+    return undefined;
+  }
+
+  // Generous upper bound: segment headers never cost more than the bytes they cover
+  const output = new Uint8Array(target.length * 2 + 16);
+  let length = 0;
+  const writeVarint = (value: number): void => {
+    while (value >= 0x80) {
+      output[length++] = (value & 0x7F) | 0x80;
+      value >>>= 7;
+    }
+    output[length++] = value;
+  };
+
+  let i = 0;
+  while (i < target.length) {
+    const zeroStart = i;
+    while (i < target.length && base[i] === target[i]) {
+      i++;
+    }
+    const literalStart = i;
+    let zeros = 0;
+    while (i < target.length && zeros < MIN_ZERO_RUN) {
+      zeros = base[i] === target[i] ? zeros + 1 : 0;
+      i++;
+    }
+    if (zeros === MIN_ZERO_RUN) {
+      i -= zeros; // Leave the zero run for the next segment
+    }
+
+    writeVarint(literalStart - zeroStart);
+    writeVarint(i - literalStart);
+    for (let j = literalStart; j < i; j++) {
+      output[length++] = base[j] ^ target[j];
+    }
+  }
+  return output.slice(0, length);
+}
+
+/**
+ * Rebuild the target of encodeDelta from its base
+ */
+function decodeDelta(base: Uint8Array, delta: Uint8Array): Uint8Array {
+  const output = base.slice();
+  let position = 0;
+  let i = 0;
+  const readVarint = (): number => {
+    let value = 0;
+    let shift = 0;
+    let byte;
+    do {
+      byte = delta[i++];
+      value += (byte & 0x7F) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return value;
+  };
+
+  while (i < delta.length) {
+    position += readVarint();
+    const literalLength = readVarint();
+    for (let j = 0; j < literalLength; j++) {
+      output[position++] ^= delta[i++];
+    }
+  }
+  return output;
+}
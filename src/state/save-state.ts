@@ -0,0 +1,68 @@
+import { SaveStateError, StateReader, StateWriter } from './state-buffer';
+
+/**
+ * Save state file layout:
+ *   "GBSS" | version (u16) | INFO section | component sections (CPU, MEM, PPU, APU, ...)
+ *
+ * Bump SAVE_STATE_VERSION whenever any component changes what it writes;
+ * states from other versions are rejected rather than misread.
+ */
+export const SAVE_STATE_MAGIC = 'GBSS';
+export const SAVE_STATE_VERSION = 15;
+
+/**
+ * Metadata stored at the start of a save state, readable without restoring it
+ */
+export interface SaveStateInfo {
+  version: number;
+  title: string;          // Cartridge title
+  globalChecksum: number; // Identifies the ROM the state belongs to
+  createdAt: number;      // UNIX time in milliseconds
+  thumbnail: Uint16Array; // Copy of the screen (160x144 RGB555 colors)
+}
+
+/**
+ * Write the file magic, version and INFO section
+ */
+export function writeSaveStateHeader(writer: StateWriter, info: Omit<SaveStateInfo, 'version'>): void {
+  writer.tag(SAVE_STATE_MAGIC);
+  writer.u16(SAVE_STATE_VERSION);
+  writer.section('INFO', () => {
+    writer.string(info.title);
+    writer.u16(info.globalChecksum);
+    writer.f64(info.createdAt);
+    writer.words(info.thumbnail);
+  });
+}
+
+/**
+ * Read and check the file magic, version and INFO section
+ * @throws SaveStateError if the data isn't a save state of this version
+ */
+export function readSaveStateHeader(reader: StateReader): SaveStateInfo {
+  try {
+    reader.expectTag(SAVE_STATE_MAGIC);
+  } catch {
+    throw new SaveStateError('Not a save state');
+  }
+
+  const version = reader.u16();
+  if (version !== SAVE_STATE_VERSION) {
+    throw new SaveStateError(`Unsupported save state version ${version} (expected ${SAVE_STATE_VERSION})`);
+  }
+
+  return reader.section('INFO', () => ({
+    version,
+    title: reader.string(),
+    globalChecksum: reader.u16(),
+    createdAt: reader.f64(),
+    thumbnail: reader.words(),
+  }));
+}
+
+/**
+ * Read a save state's metadata (e.g. to show slot thumbnails) without restoring it
+ */
+export function readSaveStateInfo(data: Uint8Array): SaveStateInfo {
+  return readSaveStateHeader(new StateReader(data));
+}
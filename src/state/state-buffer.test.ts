@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { SaveStateError, StateReader, StateWriter } from './state-buffer';
+
+describe('StateWriter / StateReader', () => {
+  it('should round-trip every field type', () => {
+    const writer = new StateWriter();
+    writer.u8(0xAB);
+    writer.u16(0xBEEF);
+    writer.u32(0xDEADBEEF);
+    writer.f64(12345678901.5);
+    writer.bool(true);
+    writer.bytes(new Uint8Array([1, 2, 3]));
+    writer.words(new Uint16Array([0x7FFF, 0x001F]));
+    writer.string('TETRIS');
+
+    const reader = new StateReader(writer.toUint8Array());
+    expect(reader.u8()).toBe(0xAB);
+    expect(reader.u16()).toBe(0xBEEF);
+    expect(reader.u32()).toBe(0xDEADBEEF);
+    expect(reader.f64()).toBe(12345678901.5);
+    expect(reader.bool()).toBe(true);
+    expect(reader.bytes()).toEqual(new Uint8Array([1, 2, 3]));
+    expect(reader.words()).toEqual(new Uint16Array([0x7FFF, 0x001F]));
+    expect(reader.string()).toBe('TETRIS');
+    expect(reader.done).toBe(true);
+  });
+
+  it('should grow past the initial buffer size', () => {
+    const writer = new StateWriter();
+    const data = new Uint8Array(0x30000).fill(0x5A);
+    writer.bytes(data);
+    expect(new StateReader(writer.toUint8Array()).bytes()).toEqual(data);
+  });
+
+  it('should read tagged sections', () => {
+    const writer = new StateWriter();
+    writer.section('TEST', () => writer.u16(0x1234));
+
+    const reader = new StateReader(writer.toUint8Array());
+    expect(reader.section('TEST', () => reader.u16())).toBe(0x1234);
+  });
+
+  it('should reject a section with the wrong tag', () => {
+    const writer = new StateWriter();
+    writer.section('CPU ', () => writer.u8(0));
+
+    const reader = new StateReader(writer.toUint8Array());
+    expect(() => reader.section('PPU ', () => reader.u8())).toThrow(SaveStateError);
+  });
+
+  it('should reject a section whose payload size does not match the reader', () => {
+    const writer = new StateWriter();
+    writer.section('TEST', () => writer.u32(0));
+
+    const reader = new StateReader(writer.toUint8Array());
+    expect(() => reader.section('TEST', () => reader.u16())).toThrow(/unexpected size/);
+  });
+
+  it('should reject truncated data', () => {
+    const writer = new StateWriter();
+    writer.u32(0x12345678);
+    const reader = new StateReader(writer.toUint8Array().subarray(0, 2));
+    expect(() => reader.u32()).toThrow(/truncated/);
+  });
+
+  it('should reject byte arrays of the wrong size', () => {
+    const writer = new StateWriter();
+    writer.bytes(new Uint8Array(4));
+    const reader = new StateReader(writer.toUint8Array());
+    expect(() => reader.bytesInto(new Uint8Array(8))).toThrow(SaveStateError);
+  });
+
+  it('should reject word arrays of the wrong size', () => {
+    const writer = new StateWriter();
+    writer.words(new Uint16Array(4));
+    const reader = new StateReader(writer.toUint8Array());
+    expect(() => reader.wordsInto(new Uint16Array(8))).toThrow(SaveStateError);
+  });
+});
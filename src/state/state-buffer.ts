@@ -0,0 +1,281 @@
+/**
+ * Error thrown when a save state is corrupt, truncated or from an incompatible build/cartridge
+ */
+export class SaveStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveStateError';
+  }
+}
+
+/**
+ * Component that can write its state to a save state and restore it
+ */
+export interface StateSerializable {
+  saveState(writer: StateWriter): void;
+  loadState(reader: StateReader): void;
+}
+
+/**
+ * Little-endian binary writer for save states
+ *
+ * Components write their fields inside tagged sections:
+ *   tag (4 ASCII bytes) | length (u32) | payload
+ * so the reader can detect layout mismatches instead of silently misreading.
+ */
+export class StateWriter {
+  private buffer = new Uint8Array(0x10000);
+  private view = new DataView(this.buffer.buffer);
+  private offset = 0;
+
+  /**
+   * Write a tagged section whose payload is produced by the callback
+   */
+  section(tag: string, write: () => void): void {
+    this.tag(tag);
+    const lengthOffset = this.offset;
+    this.u32(0);
+    write();
+    this.view.setUint32(lengthOffset, this.offset - lengthOffset - 4, true);
+  }
+
+  /**
+   * Write a 4-character ASCII tag
+   */
+  tag(tag: string): void {
+    for (let i = 0; i < 4; i++) {
+      this.u8(tag.charCodeAt(i));
+    }
+  }
+
+  u8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  u16(value: number): void {
+    this.reserve(2);
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  u32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.offset, value >>> 0, true);
+    this.offset += 4;
+  }
+
+  /** Numbers that may exceed 32 bits or carry fractions (cycle totals, timestamps, filter state) */
+  f64(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.offset, value, true);
+    this.offset += 8;
+  }
+
+  bool(value: boolean): void {
+    this.u8(value ? 1 : 0);
+  }
+
+  /**
+   * Write a length-prefixed byte array
+   */
+  bytes(data: Uint8Array): void {
+    this.u32(data.length);
+    this.reserve(data.length);
+    this.buffer.set(data, this.offset);
+    this.offset += data.length;
+  }
+
+  /**
+   * Write a length-prefixed array of 16-bit values (e.g. RGB555 pixels)
+   */
+  words(data: Uint16Array): void {
+    this.u32(data.length);
+    for (let i = 0; i < data.length; i++) {
+      this.u16(data[i]);
+    }
+  }
+
+  /**
+   * Write a length-prefixed Latin-1 string
+   */
+  string(value: string): void {
+    this.u16(value.length);
+    for (let i = 0; i < value.length; i++) {
+      this.u8(value.charCodeAt(i) & 0xFF);
+    }
+  }
+
+  /**
+   * Get the written data
+   */
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.offset);
+  }
+
+  /**
+   * Grow the buffer so that `size` more bytes fit
+   */
+  private reserve(size: number): void {
+    if (this.offset + size <= this.buffer.length) {
+      return;
+    }
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.offset + size) {
+      capacity *= 2;
+    }
+    const buffer = new Uint8Array(capacity);
+    buffer.set(this.buffer.subarray(0, this.offset));
+    this.buffer = buffer;
+    this.view = new DataView(buffer.buffer);
+  }
+}
+
+/**
+ * Little-endian binary reader for save states, the counterpart of StateWriter
+ * All reads are bounds-checked and throw SaveStateError on truncated data.
+ */
+export class StateReader {
+  private data: Uint8Array;
+  private view: DataView;
+  private offset = 0;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  /** True once every byte has been read */
+  get done(): boolean {
+    return this.offset === this.data.length;
+  }
+
+  /**
+   * Read a tagged section, checking the tag and that the callback consumed exactly its payload
+   */
+  section<T>(tag: string, read: () => T): T {
+    this.expectTag(tag);
+    const length = this.u32();
+    const end = this.offset + length;
+    if (end > this.data.length) {
+      throw new SaveStateError(`Section ${tag.trim()} is truncated`);
+    }
+    const result = read();
+    if (this.offset !== end) {
+      throw new SaveStateError(`Section ${tag.trim()} has an unexpected size`);
+    }
+    return result;
+  }
+
+  /**
+   * Read a 4-character tag and fail if it doesn't match
+   */
+  expectTag(tag: string): void {
+    let found = '';
+    for (let i = 0; i < 4; i++) {
+      found += String.fromCharCode(this.u8());
+    }
+    if (found !== tag) {
+      throw new SaveStateError(`Expected section ${tag.trim()}, found ${JSON.stringify(found)}`);
+    }
+  }
+
+  u8(): number {
+    this.check(1);
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  u16(): number {
+    this.check(2);
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    this.check(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f64(): number {
+    this.check(8);
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  bool(): boolean {
+    return this.u8() !== 0;
+  }
+
+  /**
+   * Read a length-prefixed byte array into a new array
+   */
+  bytes(): Uint8Array {
+    const length = this.u32();
+    this.check(length);
+    const data = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return data;
+  }
+
+  /**
+   * Read a length-prefixed byte array into an existing array of the same size
+   */
+  bytesInto(target: Uint8Array): void {
+    const length = this.u32();
+    if (length !== target.length) {
+      throw new SaveStateError(`Expected ${target.length} bytes, found ${length}`);
+    }
+    this.check(length);
+    target.set(this.data.subarray(this.offset, this.offset + length));
+    this.offset += length;
+  }
+
+  /**
+   * Read a length-prefixed array of 16-bit values into a new array
+   */
+  words(): Uint16Array {
+    const length = this.u32();
+    this.check(length * 2);
+    const data = new Uint16Array(length);
+    for (let i = 0; i < length; i++) {
+      data[i] = this.u16();
+    }
+    return data;
+  }
+
+  /**
+   * Read a length-prefixed array of 16-bit values into an existing array of the same size
+   */
+  wordsInto(target: Uint16Array): void {
+    const length = this.u32();
+    if (length !== target.length) {
+      throw new SaveStateError(`Expected ${target.length} words, found ${length}`);
+    }
+    this.check(length * 2);
+    for (let i = 0; i < length; i++) {
+      target[i] = this.u16();
+    }
+  }
+
+  string(): string {
+    const length = this.u16();
+    let value = '';
+    for (let i = 0; i < length; i++) {
+      value += String.fromCharCode(this.u8());
+    }
+    return value;
+  }
+
+  private check(size: number): void {
+    if (this.offset + size > this.data.length) {
+      throw new SaveStateError('Save state is truncated');
+    }
+  }
+}
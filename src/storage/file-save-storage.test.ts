@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileSaveStorage } from './file-save-storage';
+
+describe('FileSaveStorage', () => {
+  let directory: string;
+  let saves: FileSaveStorage;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'gameboy-saves-'));
+    saves = new FileSaveStorage(join(directory, 'saves'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should return null for missing saves', async () => {
+    expect(await saves.load('MISSING')).toBeNull();
+  });
+
+  it('should write a raw .sav file per key', async () => {
+    const data = new Uint8Array([0x01, 0x02, 0x03]);
+    await saves.save('GAME-1234', data);
+
+    const file = await readFile(join(directory, 'saves', 'GAME-1234.sav'));
+    expect(new Uint8Array(file)).toEqual(data);
+    expect(await saves.load('GAME-1234')).toEqual(data);
+  });
+
+  it('should replace unsafe characters in file names', () => {
+    expect(saves.pathFor('A/B:C D')).toBe(join(directory, 'saves', 'A_B_C_D.sav'));
+  });
+});
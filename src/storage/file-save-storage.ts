@@ -0,0 +1,41 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { SaveStorage } from './save-storage';
+
+/**
+ * Save storage for Node: one `<key>.sav` file per cartridge in a directory
+ */
+export class FileSaveStorage implements SaveStorage {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async load(key: string): Promise<Uint8Array | null> {
+    try {
+      return new Uint8Array(await readFile(this.pathFor(key)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(key: string, data: Uint8Array): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    // Write to a temporary file first so a crash can't leave a truncated save behind
+    const path = this.pathFor(key);
+    await writeFile(`${path}.tmp`, data);
+    await rename(`${path}.tmp`, path);
+  }
+
+  /**
+   * Path of the .sav file for a key, with characters that are unsafe in file names replaced
+   */
+  pathFor(key: string): string {
+    return join(this.directory, `${key.replace(/[^A-Za-z0-9._-]/g, '_')}.sav`);
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GameBoy } from '../gameboy';
+import { createTestRom } from '../memory/test-roms';
+import { SaveManager } from './save-manager';
+import { SaveStorage } from './save-storage';
+
+/**
+ * Save storage kept in a Map
+ */
+class MemorySaveStorage implements SaveStorage {
+  public saves = new Map<string, Uint8Array>();
+
+  async load(key: string): Promise<Uint8Array | null> {
+    return this.saves.get(key) ?? null;
+  }
+
+  async save(key: string, data: Uint8Array): Promise<void> {
+    this.saves.set(key, data);
+  }
+}
+
+function createRom(cartridgeType: number, ramSizeCode: number): Uint8Array {
+  return createTestRom({ 0x0134: 'SAVE', 0x0147: cartridgeType, 0x0149: ramSizeCode, 0x014E: 0xAB, 0x014F: 0xCD });
+}
+
+describe('SaveManager', () => {
+  let storage: MemorySaveStorage;
+  let gameboy: GameBoy;
+  let manager: SaveManager;
+
+  beforeEach(() => {
+    storage = new MemorySaveStorage();
+    gameboy = new GameBoy();
+    gameboy.loadRom(createRom(0x03, 0x02)); // MBC1+RAM+BATTERY, 8KB RAM
+    gameboy.memory.write8(0x0000, 0x0A);
+    manager = new SaveManager(storage, gameboy);
+  });
+
+  it('should key saves by title and global checksum', () => {
+    expect(SaveManager.keyFor(gameboy.cartridge!)).toBe('SAVE-ABCD');
+  });
+
+  it('should only flush when cartridge RAM changed', async () => {
+    expect(await manager.flush()).toBe(false);
+
+    gameboy.memory.write8(0xA010, 0x5A);
+    expect(await manager.flush()).toBe(true);
+    expect(storage.saves.get('SAVE-ABCD')?.[0x10]).toBe(0x5A);
+
+    expect(await manager.flush()).toBe(false);
+  });
+
+  it('should restore a stored save into a fresh machine', async () => {
+    gameboy.memory.write8(0xA000, 0x42);
+    await manager.flush();
+
+    const restored = new GameBoy();
+    restored.loadRom(createRom(0x03, 0x02));
+    restored.memory.write8(0x0000, 0x0A);
+    expect(await new SaveManager(storage, restored).load()).toBe(true);
+    expect(restored.memory.read8(0xA000)).toBe(0x42);
+  });
+
+  it('should stay dirty when the write fails', async () => {
+    vi.spyOn(storage, 'save').mockRejectedValueOnce(new Error('Quota exceeded'));
+    gameboy.memory.write8(0xA000, 0x01);
+
+    await expect(manager.flush()).rejects.toThrow('Quota exceeded');
+    expect(gameboy.saveDataDirty).toBe(true);
+  });
+
+  it('should ignore carts without a battery', async () => {
+    gameboy.loadRom(createRom(0x02, 0x02)); // MBC1+RAM
+    gameboy.memory.write8(0x0000, 0x0A);
+    gameboy.memory.write8(0xA000, 0x01);
+
+    expect(gameboy.exportSaveData()).toBeUndefined();
+    expect(await manager.flush()).toBe(false);
+    expect(await manager.load()).toBe(false);
+  });
+
+  it('should flush periodically while dirty', async () => {
+    vi.useFakeTimers();
+    try {
+      manager.startAutoFlush(1000);
+      gameboy.memory.write8(0xA000, 0x07);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(storage.saves.get('SAVE-ABCD')?.[0]).toBe(0x07);
+      manager.stopAutoFlush();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { GameBoy } from '../gameboy';
+import { Cartridge } from '../cartridge/cartridge';
+import { SaveStorage } from './save-storage';
+
+/**
+ * Battery Save Manager
+ * Keeps a Game Boy's battery-backed cartridge RAM in sync with a save storage backend
+ */
+export class SaveManager {
+  private storage: SaveStorage;
+  private gameboy: GameBoy;
+  private flushTimer?: ReturnType<typeof setInterval>;
+
+  constructor(storage: SaveStorage, gameboy: GameBoy) {
+    this.storage = storage;
+    this.gameboy = gameboy;
+  }
+
+  /**
+   * Storage key for a cartridge: its title plus global checksum,
+   * so different games (or revisions) with the same title don't share a save
+   */
+  static keyFor(cartridge: Cartridge): string {
+    const checksum = cartridge.header.globalChecksum.toString(16).toUpperCase().padStart(4, '0');
+    return `${cartridge.title || 'UNTITLED'}-${checksum}`;
+  }
+
+  /**
+   * Restore the stored save for the loaded cartridge
+   * @returns true if a save was found and imported
+   */
+  async load(): Promise<boolean> {
+    const cartridge = this.gameboy.cartridge;
+    if (!cartridge || !this.gameboy.hasBatterySave) {
+      return false;
+    }
+
+    const data = await this.storage.load(SaveManager.keyFor(cartridge));
+    if (!data) {
+      return false;
+    }
+    this.gameboy.importSaveData(data);
+    return true;
+  }
+
+  /**
+   * Write the save to storage if it changed since the last flush
+   * @returns true if data was written
+   */
+  async flush(): Promise<boolean> {
+    const cartridge = this.gameboy.cartridge;
+    if (!cartridge || !this.gameboy.saveDataDirty) {
+      return false;
+    }
+
+    const data = this.gameboy.exportSaveData();
+    if (!data) {
+      return false;
+    }
+
+    // Clear before the async write so RAM changes made meanwhile are flushed next time
+    this.gameboy.saveDataDirty = false;
+    try {
+      await this.storage.save(SaveManager.keyFor(cartridge), data);
+    } catch (error) {
+      this.gameboy.saveDataDirty = true;
+      throw error;
+    }
+    return true;
+  }
+
+  /**
+   * Flush periodically while the save is dirty
+   * @param intervalMs Time between dirty checks
+   */
+  startAutoFlush(intervalMs = 5000): void {
+    this.stopAutoFlush();
+    this.flushTimer = setInterval(() => {
+      this.flush().catch((error) => console.error('Failed to write save data:', error));
+    }, intervalMs);
+  }
+
+  stopAutoFlush(): void {
+    if (this.flushTimer !== undefined) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LocalStorageSaveStorage } from './save-storage';
+
+/**
+ * Minimal in-memory Web Storage
+ */
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+}
+
+describe('LocalStorageSaveStorage', () => {
+  let storage: MemoryStorage;
+  let saves: LocalStorageSaveStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    saves = new LocalStorageSaveStorage(storage);
+  });
+
+  it('should return null for missing saves', async () => {
+    expect(await saves.load('MISSING')).toBeNull();
+  });
+
+  it('should round-trip binary data', async () => {
+    const data = new Uint8Array(256).map((_, i) => i);
+    await saves.save('GAME-1234', data);
+    expect(await saves.load('GAME-1234')).toEqual(data);
+  });
+
+  it('should store saves as base64 under a prefixed key', async () => {
+    await saves.save('GAME', new Uint8Array([0x00, 0xFF]));
+    expect(storage.getItem('gameboy-save:GAME')).toBe('AP8=');
+  });
+});
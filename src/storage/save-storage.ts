@@ -0,0 +1,112 @@
+/**
+ * Persistent storage for battery-backed cartridge saves
+ * Keys identify a cartridge; values are raw .sav images
+ */
+export interface SaveStorage {
+  /** Load a save, or null if none exists */
+  load(key: string): Promise<Uint8Array | null>;
+  /** Store a save, replacing any existing data */
+  save(key: string, data: Uint8Array): Promise<void>;
+}
+
+/**
+ * Save storage backed by Web Storage (localStorage)
+ * Saves are stored base64-encoded under a prefixed key
+ */
+export class LocalStorageSaveStorage implements SaveStorage {
+  private static readonly KEY_PREFIX = 'gameboy-save:';
+
+  private storage: Storage;
+
+  constructor(storage: Storage = window.localStorage) {
+    this.storage = storage;
+  }
+
+  async load(key: string): Promise<Uint8Array | null> {
+    const encoded = this.storage.getItem(LocalStorageSaveStorage.KEY_PREFIX + key);
+    if (encoded === null) {
+      return null;
+    }
+
+    const binary = atob(encoded);
+    const data = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      data[i] = binary.charCodeAt(i);
+    }
+    return data;
+  }
+
+  async save(key: string, data: Uint8Array): Promise<void> {
+    let binary = '';
+    for (let i = 0; i < data.length; i++) {
+      binary += String.fromCharCode(data[i]);
+    }
+    this.storage.setItem(LocalStorageSaveStorage.KEY_PREFIX + key, btoa(binary));
+  }
+}
+
+/**
+ * Save storage backed by IndexedDB
+ * Saves are stored as binary values in a single object store
+ */
+export class IndexedDBSaveStorage implements SaveStorage {
+  private static readonly DB_NAME = 'gameboy-emulator';
+  private static readonly STORE_NAME = 'saves';
+
+  private database?: Promise<IDBDatabase>;
+
+  async load(key: string): Promise<Uint8Array | null> {
+    const result = await this.request('readonly', (store) => store.get(key));
+    return result instanceof Uint8Array ? result : null;
+  }
+
+  async save(key: string, data: Uint8Array): Promise<void> {
+    // Store a copy so later RAM writes can't change what gets persisted
+    await this.request('readwrite', (store) => store.put(data.slice(), key));
+  }
+
+  /**
+   * Run a single request against the save store
+   */
+  private async request(
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest
+  ): Promise<unknown> {
+    const database = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(IndexedDBSaveStorage.STORE_NAME, mode);
+      const request = createRequest(transaction.objectStore(IndexedDBSaveStorage.STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Open (and on first use create) the database, reusing the connection afterwards
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(IndexedDBSaveStorage.DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IndexedDBSaveStorage.STORE_NAME);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+}
+
+/**
+ * Pick the best save storage available in the browser:
+ * IndexedDB where supported, otherwise localStorage
+ */
+export function createBrowserSaveStorage(): SaveStorage {
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBSaveStorage();
+  }
+  return new LocalStorageSaveStorage();
+}
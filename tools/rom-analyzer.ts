@@ -3,6 +3,7 @@
  * ROM Analyzer - Extracts CPU instructions used in a Game Boy ROM
  */
 import { readFileSync } from 'fs';
+import { Cartridge } from '../src/cartridge/cartridge';
 
 interface InstructionInfo {
   opcode: number;
@@ -285,12 +286,31 @@ const INSTRUCTION_SET: Record<number, InstructionInfo> = {
   0xFF: { opcode: 0xFF, mnemonic: 'RST', description: 'Restart at 0x38', operands: '38H', length: 1, cycles: 16 },
 };
 
+function printHeader(cartridge: Cartridge): void {
+  const { header } = cartridge;
+  const hex = (value: number, digits = 2) => `0x${value.toString(16).toUpperCase().padStart(digits, '0')}`;
+  console.log('');
+  console.log('=== CARTRIDGE HEADER ===');
+  console.log(`Title: ${header.title}`);
+  if (header.manufacturerCode) {
+    console.log(`Manufacturer: ${header.manufacturerCode}`);
+  }
+  console.log(`Cartridge type: ${hex(header.cartridgeType)} (${cartridge.hardware?.name ?? 'unsupported'})`);
+  console.log(`ROM size: ${header.romSize} bytes, RAM size: ${header.ramSize} bytes`);
+  console.log(`CGB flag: ${hex(header.cgbFlag)}, SGB flag: ${hex(header.sgbFlag)}`);
+  console.log(`Licensee: ${header.licenseeCode}, version: ${header.version}`);
+  console.log(`Header checksum: ${hex(header.headerChecksum)} (${cartridge.headerChecksumValid ? 'valid' : 'INVALID'})`);
+  console.log(`Global checksum: ${hex(header.globalChecksum, 4)} (${cartridge.globalChecksumValid ? 'valid' : 'INVALID'})`);
+  console.log('');
+}
+
 function analyzeROM(romPath: string): void {
   try {
     console.log(`Analyzing ROM: ${romPath}`);
     
     const rom = readFileSync(romPath);
     console.log(`ROM size: ${rom.length} bytes`);
+    printHeader(new Cartridge(new Uint8Array(rom)));
     
     const opcodes = new Set<number>();
     const cbOpcodes = new Set<number>();